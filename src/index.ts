@@ -11,16 +11,68 @@ import {
 
 // サービスのインポート
 import { StopSearchService } from './services/StopSearchService.js';
+import { StopSearchByGeoService } from './services/StopSearchByGeoService.js';
+import { StopDetailsService } from './services/StopDetailsService.js';
+import { LineService } from './services/LineService.js';
 import { RouteSearchByNameService } from './services/RouteSearchByNameService.js';
 import { RouteSearchByGeoService } from './services/RouteSearchByGeoService.js';
+import { ItineraryService } from './services/ItineraryService.js';
+import { VisitOrderService } from './services/VisitOrderService.js';
+import { ReachabilityService } from './services/ReachabilityService.js';
+import { OfflineRoutePlanner, OfflineRoutingOptions } from './services/OfflineRoutePlanner.js';
+import { HttpTransportHost } from './utils/HttpTransportHost.js';
+import { parseServerOptions, CacheOptions, RecorderOptions, ServerOptions, OfflineRoutingMode } from './utils/ServerOptions.js';
+import { RouteHtmlFetcher } from './utils/RouteHtmlFetcher.js';
+import { RouteHtmlCache, MemoryLruCacheStore, FileCacheStore, RouteHtmlCacheStore } from './utils/RouteHtmlCache.js';
+import { RouteHtmlRecorder } from './utils/RouteHtmlRecorder.js';
+import {
+  STOP_SEARCH_OUTPUT_SCHEMA,
+  STOP_SEARCH_BY_GEO_OUTPUT_SCHEMA,
+  STOP_DETAILS_OUTPUT_SCHEMA,
+  LINE_SEARCH_OUTPUT_SCHEMA,
+  LINE_STOPS_OUTPUT_SCHEMA,
+  COMMON_LINES_OUTPUT_SCHEMA,
+  ROUTE_SEARCH_OUTPUT_SCHEMA,
+  ITINERARY_OUTPUT_SCHEMA,
+  VISIT_ORDER_OUTPUT_SCHEMA,
+  REACHABILITY_OUTPUT_SCHEMA,
+  toStructuredToolResult,
+  toToolErrorResult,
+  renderStopSearchText,
+  renderStopSearchByGeoText,
+  renderStopDetailsText,
+  renderLineSearchText,
+  renderLineStopsText,
+  renderCommonLinesText,
+  renderRouteSearchText,
+  renderItineraryText,
+  renderVisitOrderText,
+  renderReachabilityText,
+} from './utils/ToolOutput.js';
 
 // 型のインポート
 import {
   StopSearchRequest,
+  StopSearchByGeoRequest,
+  StopDetailsRequest,
+  LineSearchRequest,
+  LineStopsRequest,
+  CommonLinesRequest,
   RouteSearchByNameRequest,
   RouteSearchByGeoRequest,
+  ItineraryRequest,
+  VisitOrderRequest,
+  ReachabilityRequest,
   StopSearchResponse,
+  StopSearchByGeoResponse,
+  StopDetailsResponse,
+  LineSearchResponse,
+  LineStopsResponse,
+  CommonLinesResponse,
   RouteSearchResponse,
+  ItineraryResponse,
+  VisitOrderResponse,
+  ReachabilityResponse,
 } from './types/index.js';
 
 /**
@@ -30,15 +82,101 @@ import {
  * 1. search_stop_by_substring - 駅・バス停の部分一致検索
  * 2. search_route_by_name - 駅名指定でのルート検索（詳細発着時刻、日付跨ぎ対応）
  * 3. search_route_by_geo - 緯度経度指定でのルート検索（詳細発着時刻、日付跨ぎ対応）
+ * 4. search_stop_by_geo - 緯度経度から近くの駅・バス停・ランドマークを検索
+ * 5. get_stop_details - IDから座標・事業者・同名停留所・経由路線を取得
+ * 6. search_lines - 事業者・路線名での路線検索
+ * 7. get_line_stops - 路線の停留所を停車順に取得
+ * 8. find_common_lines - 2つの停留所を結ぶ路線（方向・間の停留所数）を検索
+ * 9. plan_itinerary - 複数の訪問地を滞在時間付きで巡る旅程を作成
+ * 10. optimize_visit_order - ランドマークの訪問順を移動時間が最短になるよう最適化
+ * 11. search_reachable - 出発地から所要時間内に到達できる停留所・ランドマークを時間帯ごとに検索
+ *
+ * Transports:
+ * - stdio (default)
+ * - http  - Streamable HTTP on /mcp, HTTP+SSE fallback on /sse and /messages
  */
 class WalkInKyotoMcpServer {
-  private server: Server;
   private stopSearchService: StopSearchService;
+  private stopSearchByGeoService: StopSearchByGeoService;
+  private stopDetailsService: StopDetailsService;
+  private lineService: LineService;
   private routeSearchByNameService: RouteSearchByNameService;
   private routeSearchByGeoService: RouteSearchByGeoService;
+  private itineraryService: ItineraryService;
+  private visitOrderService: VisitOrderService;
+  private reachabilityService: ReachabilityService;
+  private routeHtmlFetcher: RouteHtmlFetcher;
+  private httpHost: HttpTransportHost | null = null;
+
+  constructor(
+    cacheOptions: CacheOptions,
+    recorderOptions?: RecorderOptions,
+    fuzzyThreshold?: number,
+    offlineRouting: OfflineRoutingMode = 'fallback'
+  ) {
+    // 上流HTMLのキャッシュ・記録はルート検索サービス間で共有
+    const fetcher = new RouteHtmlFetcher({
+      cache: this.createCache(cacheOptions),
+      recorder: recorderOptions ? new RouteHtmlRecorder(recorderOptions) : undefined,
+    });
+    this.routeHtmlFetcher = fetcher;
+
+    // サービス初期化（全セッションで共有）
+    this.stopSearchService = new StopSearchService({ fuzzyThreshold });
+    this.stopSearchByGeoService = new StopSearchByGeoService();
+    this.stopDetailsService = new StopDetailsService();
+    this.lineService = new LineService(undefined, undefined, this.stopSearchService);
+
+    // 上流サイトに接続できない場合（または常に）マスターデータからの概算ルートで代替
+    // 乗換グラフは到達圏検索と共有する
+    const offlinePlanner = new OfflineRoutePlanner();
+    const offlineRoutingOptions: OfflineRoutingOptions | undefined = offlineRouting === 'never'
+      ? undefined
+      : { planner: offlinePlanner, mode: offlineRouting };
+    // 見つからない駅・バス停名の候補は search_stop_by_substring と同じ検索で求める
+    this.routeSearchByNameService = new RouteSearchByNameService(
+      fetcher, undefined, undefined, undefined, offlineRoutingOptions, undefined, this.stopSearchService
+    );
+    this.routeSearchByGeoService = new RouteSearchByGeoService(
+      fetcher, undefined, undefined, undefined, offlineRoutingOptions, undefined, this.stopSearchService
+    );
 
-  constructor() {
-    this.server = new Server(
+    // 旅程の各区間は駅名ルート検索を使う（キャッシュ・概算ルートも共有）
+    this.itineraryService = new ItineraryService(this.routeSearchByNameService);
+    this.visitOrderService = new VisitOrderService(
+      undefined, this.routeSearchByNameService, undefined, undefined, this.stopSearchService
+    );
+    this.reachabilityService = new ReachabilityService(
+      offlinePlanner, this.routeSearchByGeoService, undefined, undefined, undefined, this.stopSearchService
+    );
+  }
+
+  /**
+   * Build the upstream HTML cache (undefined when disabled)
+   */
+  private createCache(options: CacheOptions): RouteHtmlCache | undefined {
+    if (options.ttlSeconds === 0) {
+      return undefined;
+    }
+
+    const stores: RouteHtmlCacheStore[] = [new MemoryLruCacheStore(options.maxEntries)];
+    if (options.directory) {
+      stores.push(new FileCacheStore(options.directory));
+    }
+
+    return new RouteHtmlCache({
+      stores,
+      ttlMs: options.ttlSeconds * 1000,
+      timeBucketMinutes: options.timeBucketMinutes,
+    });
+  }
+
+  /**
+   * Create a protocol server bound to the shared services
+   * HTTPトランスポートではセッションごとに生成される
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'walk-in-kyoto-mcp',
         version: '0.3.7',
@@ -50,22 +188,18 @@ class WalkInKyotoMcpServer {
       }
     );
 
-    // サービス初期化
-    this.stopSearchService = new StopSearchService();
-    this.routeSearchByNameService = new RouteSearchByNameService();
-    this.routeSearchByGeoService = new RouteSearchByGeoService();
-
-    this.setupHandlers();
+    this.setupHandlers(server);
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Provide list of tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: [
           {
             name: 'search_stop_by_substring',
-            description: 'Search for station and bus stop candidates by partial string. Supports Japanese and English.',
+            description: 'Search for station and bus stop candidates by partial string. Supports Japanese and English, and also matches hiragana readings and their romanization (e.g. きよみず, kiyomizu).',
             inputSchema: {
               type: 'object',
               properties: {
@@ -86,6 +220,7 @@ class WalkInKyotoMcpServer {
               },
               required: ['language', 'max_tokens', 'query'],
             },
+            outputSchema: STOP_SEARCH_OUTPUT_SCHEMA,
           },
           {
             name: 'search_route_by_name',
@@ -105,11 +240,11 @@ class WalkInKyotoMcpServer {
                 },
                 from_station: {
                   type: 'string',
-                  description: 'Departure station/bus stop name',
+                  description: 'Departure station/bus stop name. Add the operator suffix when several operators share the name (example: "京都駅前(京都市バス)"); otherwise the candidates are returned as an ambiguous_stop error',
                 },
                 to_station: {
                   type: 'string',
-                  description: 'Arrival station/bus stop name',
+                  description: 'Arrival station/bus stop name (operator suffix as for from_station)',
                 },
                 datetime_type: {
                   type: 'string',
@@ -119,11 +254,56 @@ class WalkInKyotoMcpServer {
                 datetime: {
                   type: 'string',
                   pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}',
-                  description: 'Date and time in ISO-8601 format (example: 2025-07-07T00:43)',
+                  description: 'Date and time in ISO-8601 format (example: 2025-07-07T00:43). Interpreted as Asia/Tokyo when no offset is given',
+                },
+                via_station: {
+                  type: 'string',
+                  description: 'Optional via (transfer) station/bus stop name the route must pass through (example: 四条; operator suffix as for from_station)',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'Cursor returned by a previous search with the same stops. Fetches later or earlier routes instead of searching at datetime',
+                },
+                page: {
+                  type: 'string',
+                  enum: ['next', 'previous'],
+                  description: 'Direction to page with cursor (default: next)',
+                },
+                sort_by: {
+                  type: 'string',
+                  enum: ['duration', 'fare', 'transfers', 'walking', 'arrival'],
+                  description: 'Order routes by shortest duration, lowest fare, fewest transfers, least walking or earliest arrival (default: upstream order)',
+                },
+                max_transfers: {
+                  type: 'integer',
+                  minimum: 0,
+                  description: 'Only return routes with at most this many transfers',
+                },
+                max_walk_min: {
+                  type: 'number',
+                  minimum: 0,
+                  description: 'Only return routes whose walking legs total at most this many minutes',
+                },
+                max_fare_jpy: {
+                  type: 'number',
+                  minimum: 0,
+                  description: 'Only return routes whose fare is at most this many yen (estimated routes without a fare are kept)',
+                },
+                allowed_modes: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['bus', 'train'] },
+                  minItems: 1,
+                  description: 'Only use these transit modes (walking is always allowed); routes using other modes are dropped',
+                },
+                excluded_companies: {
+                  type: 'array',
+                  items: { type: 'integer' },
+                  description: 'Company IDs to avoid (e.g. 100 Keihan, 103 Kyoto City Subway, 200 Kyoto City Bus, 203 Kyoto Bus, 204 Keihan Bus); routes on their lines are dropped',
                 },
               },
               required: ['language', 'max_tokens', 'from_station', 'to_station', 'datetime_type', 'datetime'],
             },
+            outputSchema: ROUTE_SEARCH_OUTPUT_SCHEMA,
           },
           {
             name: 'search_route_by_geo',
@@ -159,18 +339,374 @@ class WalkInKyotoMcpServer {
                 datetime: {
                   type: 'string',
                   pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}',
-                  description: 'Date and time in ISO-8601 format',
+                  description: 'Date and time in ISO-8601 format. Interpreted as Asia/Tokyo when no offset is given',
+                },
+                via_station: {
+                  type: 'string',
+                  description: 'Optional via (transfer) station/bus stop name the route must pass through (operator suffix as for from_station in search_route_by_name)',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'Cursor returned by a previous search with the same stops. Fetches later or earlier routes instead of searching at datetime',
+                },
+                page: {
+                  type: 'string',
+                  enum: ['next', 'previous'],
+                  description: 'Direction to page with cursor (default: next)',
+                },
+                sort_by: {
+                  type: 'string',
+                  enum: ['duration', 'fare', 'transfers', 'walking', 'arrival'],
+                  description: 'Order routes by shortest duration, lowest fare, fewest transfers, least walking or earliest arrival (default: upstream order)',
+                },
+                max_transfers: {
+                  type: 'integer',
+                  minimum: 0,
+                  description: 'Only return routes with at most this many transfers',
+                },
+                max_walk_min: {
+                  type: 'number',
+                  minimum: 0,
+                  description: 'Only return routes whose walking legs total at most this many minutes',
+                },
+                max_fare_jpy: {
+                  type: 'number',
+                  minimum: 0,
+                  description: 'Only return routes whose fare is at most this many yen (estimated routes without a fare are kept)',
+                },
+                allowed_modes: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['bus', 'train'] },
+                  minItems: 1,
+                  description: 'Only use these transit modes (walking is always allowed); routes using other modes are dropped',
+                },
+                excluded_companies: {
+                  type: 'array',
+                  items: { type: 'integer' },
+                  description: 'Company IDs to avoid (e.g. 100 Keihan, 103 Kyoto City Subway, 200 Kyoto City Bus, 203 Kyoto Bus, 204 Keihan Bus); routes on their lines are dropped',
                 },
               },
               required: ['language', 'max_tokens', 'from_latlng', 'to_latlng', 'datetime_type', 'datetime'],
             },
+            outputSchema: ROUTE_SEARCH_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'search_stop_by_geo',
+            description: 'Search for the nearest stations, bus stops and landmarks around a latitude/longitude. Returns distance in meters, estimated walking minutes, agency and ID, ordered by distance.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  enum: ['ja', 'en'],
+                  description: 'Response language',
+                },
+                max_tokens: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of tokens in response',
+                },
+                latlng: {
+                  type: 'string',
+                  pattern: '^\\d+\\.\\d+,\\d+\\.\\d+$',
+                  description: 'Latitude and longitude of the search center (example: 35.02527,135.79189)',
+                },
+                radius_m: {
+                  type: 'number',
+                  exclusiveMinimum: 0,
+                  description: 'Search radius in meters (default: 1000)',
+                },
+                limit: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of results (default: 10)',
+                },
+                kind: {
+                  type: 'string',
+                  enum: ['bus_stop', 'train_station', 'landmark'],
+                  description: 'Only return results of this kind',
+                },
+              },
+              required: ['language', 'max_tokens', 'latlng'],
+            },
+            outputSchema: STOP_SEARCH_BY_GEO_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'get_stop_details',
+            description: 'Get details of a station, bus stop or landmark by the ID returned from search_stop_by_substring: coordinates, operating company, same-name stops of other operators, and every line serving it.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  enum: ['ja', 'en'],
+                  description: 'Response language',
+                },
+                max_tokens: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of tokens in response',
+                },
+                id: {
+                  type: 'string',
+                  description: 'Stop ID returned by search_stop_by_substring (example: T:103_京都)',
+                },
+              },
+              required: ['language', 'max_tokens', 'id'],
+            },
+            outputSchema: STOP_DETAILS_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'search_lines',
+            description: 'List or search train lines and bus routes by operator and/or name (example: operator "京都市バス", query "206"). Omit both to list every line.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  enum: ['ja', 'en'],
+                  description: 'Response language',
+                },
+                max_tokens: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of tokens in response',
+                },
+                query: {
+                  type: 'string',
+                  description: 'Partial match on line name, destination or description',
+                },
+                operator: {
+                  type: 'string',
+                  description: 'Partial match on operator name, or operator (company) ID',
+                },
+              },
+              required: ['language', 'max_tokens'],
+            },
+            outputSchema: LINE_SEARCH_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'get_line_stops',
+            description: 'Get the ordered list of stops served by a line returned from search_lines, with stop IDs and coordinates.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  enum: ['ja', 'en'],
+                  description: 'Response language',
+                },
+                max_tokens: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of tokens in response',
+                },
+                line_id: {
+                  type: 'string',
+                  description: 'Line ID returned by search_lines (example: 200057)',
+                },
+              },
+              required: ['language', 'max_tokens', 'line_id'],
+            },
+            outputSchema: LINE_STOPS_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'find_common_lines',
+            description: 'Find every train line or bus route that serves both stops, with the travel direction and the number of stops in between. Uses master data only (no timetable lookup). Accepts names from search_stop_by_substring, with or without the operator suffix (example: from "四条河原町", to "銀閣寺道").',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  enum: ['ja', 'en'],
+                  description: 'Response language',
+                },
+                max_tokens: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of tokens in response',
+                },
+                from_station: {
+                  type: 'string',
+                  description: 'Boarding station or bus stop name',
+                },
+                to_station: {
+                  type: 'string',
+                  description: 'Alighting station or bus stop name',
+                },
+              },
+              required: ['language', 'max_tokens', 'from_station', 'to_station'],
+            },
+            outputSchema: COMMON_LINES_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'plan_itinerary',
+            description: 'Plan a sightseeing day that visits several places in order (example: hotel → 金閣寺 → 龍安寺 → 嵐山 → hotel). Each leg departs at the previous arrival plus the stay time, and the result is one timeline with total fare and walking. Stops accept station, bus stop or landmark names. Fails with the leg number when a later leg would miss the last bus or train.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  enum: ['ja', 'en'],
+                  description: 'Response language',
+                },
+                max_tokens: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of tokens in response',
+                },
+                datetime: {
+                  type: 'string',
+                  pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}',
+                  description: 'Departure date and time from the first stop in ISO-8601 format (example: 2025-07-07T09:00). Interpreted as Asia/Tokyo when no offset is given',
+                },
+                stops: {
+                  type: 'array',
+                  minItems: 2,
+                  maxItems: 10,
+                  description: 'Places in visiting order. The first is the starting point and the last is the final destination',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: {
+                        type: 'string',
+                        description: 'Station, bus stop or landmark name',
+                      },
+                      stay_min: {
+                        type: 'integer',
+                        minimum: 0,
+                        maximum: 1440,
+                        description: 'Minutes to stay before leaving for the next stop (default: 0, ignored for the first and last stops)',
+                      },
+                    },
+                    required: ['name'],
+                  },
+                },
+              },
+              required: ['language', 'max_tokens', 'datetime', 'stops'],
+            },
+            outputSchema: ITINERARY_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'optimize_visit_order',
+            description: 'Propose the order to visit a set of landmarks that minimizes total travel time from a start point (example: "I want to see these five temples today"). Landmark IDs come from search_stop_by_substring or search_stop_by_geo (LM########). Travel times are estimated from distance by default, or taken from route searches at the start time. Pass the result to plan_itinerary for a detailed timetable.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  enum: ['ja', 'en'],
+                  description: 'Response language',
+                },
+                max_tokens: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of tokens in response',
+                },
+                start: {
+                  type: 'string',
+                  description: 'Start point: station, bus stop or landmark name, or a landmark ID',
+                },
+                datetime: {
+                  type: 'string',
+                  pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}',
+                  description: 'Start date and time in ISO-8601 format (example: 2025-07-07T09:00). Interpreted as Asia/Tokyo when no offset is given',
+                },
+                landmark_ids: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  minItems: 2,
+                  maxItems: 8,
+                  description: 'Landmark IDs to visit, in any order (up to 5 with travel_time "search")',
+                },
+                stay_min: {
+                  type: 'integer',
+                  minimum: 0,
+                  maximum: 1440,
+                  description: 'Minutes to stay at each landmark (default: 0)',
+                },
+                return_to_start: {
+                  type: 'boolean',
+                  description: 'Return to the start point at the end (default: false)',
+                },
+                travel_time: {
+                  type: 'string',
+                  enum: ['estimate', 'search'],
+                  description: 'estimate: from straight-line distance (fast, default). search: from route searches on the upstream site at datetime (slower, cached)',
+                },
+              },
+              required: ['language', 'max_tokens', 'start', 'datetime', 'landmark_ids'],
+            },
+            outputSchema: VISIT_ORDER_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'search_reachable',
+            description: 'List stations, bus stops and landmarks reachable from a start point within a time budget (example: "what is within 20 minutes of here at 10:00"), grouped into time bands. Travel times are estimated from the line network in master data; set sampling to confirm a bounded number of them with route searches on the upstream site.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  enum: ['ja', 'en'],
+                  description: 'Response language',
+                },
+                max_tokens: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Maximum number of tokens in response',
+                },
+                from_station: {
+                  type: 'string',
+                  description: 'Start station, bus stop or landmark name (use either from_station or from_latlng)',
+                },
+                from_latlng: {
+                  type: 'string',
+                  pattern: '^\\d+\\.\\d+,\\d+\\.\\d+$',
+                  description: 'Start point as "latitude,longitude"',
+                },
+                datetime: {
+                  type: 'string',
+                  pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}',
+                  description: 'Departure date and time in ISO-8601 format (example: 2025-07-07T10:00). Interpreted as Asia/Tokyo when no offset is given',
+                },
+                budget_min: {
+                  type: 'integer',
+                  minimum: 1,
+                  maximum: 120,
+                  description: 'Time budget in minutes',
+                },
+                band_min: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Width of each time band in minutes (default: 10)',
+                },
+                kind: {
+                  type: 'string',
+                  enum: ['bus_stop', 'train_station', 'landmark'],
+                  description: 'Only return places of this kind',
+                },
+                sampling: {
+                  type: 'string',
+                  enum: ['none', 'boundary', 'spread'],
+                  description: 'Which places to confirm with upstream route searches. none: estimates only (default). boundary: places closest to the budget. spread: the farthest places in each direction',
+                },
+                max_searches: {
+                  type: 'integer',
+                  minimum: 1,
+                  maximum: 30,
+                  description: 'Maximum number of upstream route searches for sampling (default: 10)',
+                },
+              },
+              required: ['language', 'max_tokens', 'datetime', 'budget_min'],
+            },
+            outputSchema: REACHABILITY_OUTPUT_SCHEMA,
           },
         ],
       };
     });
 
     // Tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -184,6 +720,30 @@ class WalkInKyotoMcpServer {
           case 'search_route_by_geo':
             return await this.handleRouteSearchByGeo(args as unknown as RouteSearchByGeoRequest);
 
+          case 'search_stop_by_geo':
+            return await this.handleStopSearchByGeo(args as unknown as StopSearchByGeoRequest);
+
+          case 'get_stop_details':
+            return await this.handleStopDetails(args as unknown as StopDetailsRequest);
+
+          case 'search_lines':
+            return await this.handleLineSearch(args as unknown as LineSearchRequest);
+
+          case 'get_line_stops':
+            return await this.handleLineStops(args as unknown as LineStopsRequest);
+
+          case 'find_common_lines':
+            return await this.handleCommonLines(args as unknown as CommonLinesRequest);
+
+          case 'plan_itinerary':
+            return await this.handleItinerary(args as unknown as ItineraryRequest);
+
+          case 'optimize_visit_order':
+            return await this.handleVisitOrder(args as unknown as VisitOrderRequest);
+
+          case 'search_reachable':
+            return await this.handleReachability(args as unknown as ReachabilityRequest);
+
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -191,16 +751,8 @@ class WalkInKyotoMcpServer {
             );
         }
       } catch (error) {
-        if (error instanceof McpError) {
-          throw error;
-        }
-
-        // Convert other errors to McpError
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${errorMessage}`
-        );
+        // Invalid parameters and internal failures become McpError; other typed errors become isError results
+        return toToolErrorResult(error);
       }
     });
   }
@@ -210,15 +762,7 @@ class WalkInKyotoMcpServer {
    */
   private async handleStopSearch(args: StopSearchRequest) {
     const result: StopSearchResponse = await this.stopSearchService.search(args);
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+    return toStructuredToolResult(result, renderStopSearchText(result));
   }
 
   /**
@@ -226,15 +770,7 @@ class WalkInKyotoMcpServer {
    */
   private async handleRouteSearchByName(args: RouteSearchByNameRequest) {
     const result: RouteSearchResponse = await this.routeSearchByNameService.searchRoute(args);
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+    return toStructuredToolResult(result, renderRouteSearchText(result));
   }
 
   /**
@@ -242,36 +778,124 @@ class WalkInKyotoMcpServer {
    */
   private async handleRouteSearchByGeo(args: RouteSearchByGeoRequest) {
     const result: RouteSearchResponse = await this.routeSearchByGeoService.searchRoute(args);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+    return toStructuredToolResult(result, renderRouteSearchText(result));
+  }
+
+  /**
+   * Tool 4: Execute search_stop_by_geo
+   */
+  private async handleStopSearchByGeo(args: StopSearchByGeoRequest) {
+    const result: StopSearchByGeoResponse = await this.stopSearchByGeoService.search(args);
+    return toStructuredToolResult(result, renderStopSearchByGeoText(result));
+  }
+
+  /**
+   * Tool 5: Execute get_stop_details
+   */
+  private async handleStopDetails(args: StopDetailsRequest) {
+    const result: StopDetailsResponse = await this.stopDetailsService.getDetails(args);
+    return toStructuredToolResult(result, renderStopDetailsText(result));
+  }
+
+  /**
+   * Tool 6: Execute search_lines
+   */
+  private async handleLineSearch(args: LineSearchRequest) {
+    const result: LineSearchResponse = await this.lineService.searchLines(args);
+    return toStructuredToolResult(result, renderLineSearchText(result));
+  }
+
+  /**
+   * Tool 7: Execute get_line_stops
+   */
+  private async handleLineStops(args: LineStopsRequest) {
+    const result: LineStopsResponse = await this.lineService.getLineStops(args);
+    return toStructuredToolResult(result, renderLineStopsText(result));
+  }
+
+  /**
+   * Tool 8: Execute find_common_lines
+   */
+  private async handleCommonLines(args: CommonLinesRequest) {
+    const result: CommonLinesResponse = await this.lineService.findCommonLines(args);
+    return toStructuredToolResult(result, renderCommonLinesText(result));
+  }
+
+  /**
+   * Tool 9: Execute plan_itinerary
+   */
+  private async handleItinerary(args: ItineraryRequest) {
+    const result: ItineraryResponse = await this.itineraryService.planItinerary(args);
+    return toStructuredToolResult(result, renderItineraryText(result));
+  }
+
+  /**
+   * Tool 10: Execute optimize_visit_order
+   */
+  private async handleVisitOrder(args: VisitOrderRequest) {
+    const result: VisitOrderResponse = await this.visitOrderService.optimize(args);
+    return toStructuredToolResult(result, renderVisitOrderText(result));
+  }
+
+  /**
+   * Tool 11: Execute search_reachable
+   */
+  private async handleReachability(args: ReachabilityRequest) {
+    const result: ReachabilityResponse = await this.reachabilityService.search(args);
+    return toStructuredToolResult(result, renderReachabilityText(result));
   }
 
   /**
    * Start server
    */
-  async run(): Promise<void> {
+  async run(options: ServerOptions): Promise<void> {
+    if (options.transport === 'http') {
+      this.httpHost = new HttpTransportHost(() => this.createServer(), {
+        host: options.host,
+        port: options.port,
+      });
+      const port = await this.httpHost.start();
+      // stdoutはstdioトランスポートと共用しないが、ログは一貫してstderrに出力
+      console.error(`walk-in-kyoto-mcp listening on http://${options.host}:${port}/mcp`);
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
   }
 
   /**
    * Cleanup
    */
   async dispose(): Promise<void> {
+    if (this.httpHost) {
+      await this.httpHost.close();
+      this.httpHost = null;
+    }
     this.routeSearchByNameService.dispose();
     this.routeSearchByGeoService.dispose();
+    this.itineraryService.dispose();
+    this.visitOrderService.dispose();
+    this.reachabilityService.dispose();
+    this.stopSearchByGeoService.destroy();
+    this.stopDetailsService.destroy();
+    this.lineService.destroy();
+    this.stopSearchService.destroy();
+
+    // Report how well the upstream HTML cache worked for this run
+    const cacheStats = this.routeHtmlFetcher.getCacheStats();
+    if (cacheStats) {
+      console.error(
+        `Route cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses (hit rate ${(cacheStats.hit_rate * 100).toFixed(1)}%)`
+      );
+    }
   }
 }
 
 // Main execution
 async function main(): Promise<void> {
-  const server = new WalkInKyotoMcpServer();
+  const options = parseServerOptions(process.argv.slice(2), process.env);
+  const server = new WalkInKyotoMcpServer(options.cache, options.recorder, options.fuzzyThreshold, options.offlineRouting);
   
   // Signal handling
   process.on('SIGINT', async () => {
@@ -285,7 +909,7 @@ async function main(): Promise<void> {
   });
 
   try {
-    await server.run();
+    await server.run(options);
   } catch (error) {
     await server.dispose();
     process.exit(1);
@@ -294,5 +918,6 @@ async function main(): Promise<void> {
 
 // Main execution
 main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
   process.exit(1);
 }); 
\ No newline at end of file
@@ -0,0 +1,251 @@
+import { RouteSearchByNameService } from './RouteSearchByNameService.js';
+import { TokenLimiter } from '../utils/TokenLimiter.js';
+import { RequestValidator } from '../utils/RequestValidator.js';
+import { addMinutes, formatJstIso, parseJstDateTime, toEpochMs, JstDateTime } from '../utils/JstTime.js';
+import { InternalError, NoServiceError, ToolError } from '../utils/ToolErrors.js';
+import {
+  ItineraryEntry,
+  ItineraryMove,
+  ItineraryRequest,
+  ItineraryResponse,
+  ItinerarySummary,
+  Route
+} from '../types/index.js';
+
+/**
+ * 出発予定時刻からこれ以上待たないと乗れない場合は、その日の運行が終了したとみなす（分）
+ * 上流サイトは終バス・終電後の検索で翌朝の始発ルートを返すため、待ち時間で判定する
+ */
+const MAX_WAIT_MINUTES = 180;
+
+/**
+ * 区間のルート検索に使うトークン数の上限
+ * 呼び出し側の max_tokens で区間のルートが切り捨てられないよう、max_tokens は旅程全体にのみ適用する
+ */
+export const LEG_SEARCH_MAX_TOKENS = 100000;
+
+/**
+ * Tool 9: plan_itinerary の実装
+ * 複数の訪問地を順に巡る旅程を、区間ごとのルート検索をつないで作成する
+ * 各区間は前の区間の到着時刻 + 滞在時間に出発する
+ */
+export class ItineraryService {
+  private readonly routeSearchService: RouteSearchByNameService;
+  private readonly tokenLimiter: TokenLimiter;
+  private readonly validator: RequestValidator;
+
+  constructor(
+    routeSearchService?: RouteSearchByNameService,
+    tokenLimiter?: TokenLimiter,
+    validator?: RequestValidator
+  ) {
+    this.routeSearchService = routeSearchService || new RouteSearchByNameService();
+    this.tokenLimiter = tokenLimiter || new TokenLimiter();
+    this.validator = validator || new RequestValidator();
+  }
+
+  /**
+   * 旅程を作成
+   * ランドマーク名はルート検索と同様に近隣の駅・バス停に展開して検索される
+   * @throws Error 区間のルートが見つからない場合、または終バス・終電に間に合わない場合
+   */
+  async planItinerary(request: ItineraryRequest): Promise<ItineraryResponse> {
+    this.validator.validateItineraryRequest(request);
+
+    const timeline: ItineraryEntry[] = [];
+    const moves: ItineraryMove[] = [];
+    let departAt = parseJstDateTime(request.datetime);
+
+    for (let index = 1; index < request.stops.length; index++) {
+      const from = request.stops[index - 1].name;
+      const to = request.stops[index].name;
+
+      const move = await this.planLeg(request, index, from, to, departAt);
+      moves.push(move);
+      timeline.push(move);
+
+      // 最後の地点（到着地）では滞在しない
+      if (index === request.stops.length - 1) {
+        break;
+      }
+
+      const stayMin = request.stops[index].stay_min ?? 0;
+      const leaveAt = addMinutes(parseJstDateTime(move.arrive), stayMin);
+      if (stayMin > 0) {
+        timeline.push({
+          type: 'stay',
+          name: to,
+          arrive: move.arrive,
+          depart: formatJstIso(leaveAt),
+          stay_min: stayMin
+        });
+      }
+      departAt = leaveAt;
+    }
+
+    // 集計（summary）は応答スキーマで必須のため、切り詰めるのは timeline のみ
+    const limitResult = this.tokenLimiter.applyLimitToArray(
+      { summary: this.summarize(moves), timeline },
+      'timeline',
+      request.max_tokens
+    );
+
+    return {
+      summary: limitResult.data.summary,
+      timeline: limitResult.data.timeline,
+      truncated: limitResult.truncated
+    };
+  }
+
+  /**
+   * 1区間のルートを検索し、最も早く到着するルートを選ぶ
+   */
+  private async planLeg(
+    request: ItineraryRequest,
+    leg: number,
+    from: string,
+    to: string,
+    departAt: JstDateTime
+  ): Promise<ItineraryMove> {
+    const requestedDepart = formatJstIso(departAt);
+
+    let routes: Route[];
+    try {
+      const result = await this.routeSearchService.searchRoute({
+        language: request.language,
+        max_tokens: LEG_SEARCH_MAX_TOKENS,
+        from_station: from,
+        to_station: to,
+        datetime_type: 'departure',
+        datetime: requestedDepart
+      });
+      routes = result.routes;
+    } catch (error) {
+      throw this.createLegError(error, leg, from, to);
+    }
+
+    const route = this.selectRoute(routes);
+    if (!route) {
+      throw this.createNoServiceError(leg, from, to, requestedDepart);
+    }
+
+    // 推定ルートは時刻を持たないため、出発予定時刻と所要時間から算出する
+    const depart = route.summary.depart ?? requestedDepart;
+    const arrive = route.summary.arrive ?? formatJstIso(addMinutes(departAt, route.summary.duration_min));
+
+    const waitMin = (toEpochMs(parseJstDateTime(depart)) - toEpochMs(departAt)) / 60000;
+    if (waitMin > MAX_WAIT_MINUTES) {
+      throw this.createNoServiceError(leg, from, to, requestedDepart);
+    }
+
+    const move: ItineraryMove = {
+      type: 'move',
+      leg,
+      from,
+      to,
+      depart,
+      arrive,
+      duration_min: route.summary.duration_min,
+      walk_min: this.sumWalk(route).minutes,
+      route
+    };
+    if (route.summary.fare_jpy !== undefined) {
+      move.fare_jpy = route.summary.fare_jpy;
+    }
+    if (route.estimated) {
+      move.estimated = true;
+    }
+    return move;
+  }
+
+  /**
+   * 最も早く到着するルートを選ぶ（同着の場合は乗換回数が少ないもの）
+   * 到着時刻を持たない推定ルートは所要時間で比較する
+   */
+  private selectRoute(routes: Route[]): Route | undefined {
+    const arrivalKey = (route: Route): number => route.summary.arrive
+      ? toEpochMs(parseJstDateTime(route.summary.arrive))
+      : route.summary.duration_min;
+
+    return [...routes].sort((a, b) =>
+      arrivalKey(a) - arrivalKey(b) || a.summary.transfers - b.summary.transfers
+    )[0];
+  }
+
+  /**
+   * 旅程全体の集計
+   */
+  private summarize(moves: ItineraryMove[]): ItinerarySummary {
+    const depart = moves[0].depart;
+    const arrive = moves[moves.length - 1].arrive;
+    const walk = moves
+      .map(move => this.sumWalk(move.route))
+      .reduce((total, current) => ({
+        minutes: total.minutes + current.minutes,
+        km: total.km + current.km
+      }), { minutes: 0, km: 0 });
+
+    return {
+      depart,
+      arrive,
+      duration_min: Math.round((toEpochMs(parseJstDateTime(arrive)) - toEpochMs(parseJstDateTime(depart))) / 60000),
+      travel_min: moves.reduce((total, move) => total + move.duration_min, 0),
+      fare_jpy: moves.reduce((total, move) => total + (move.fare_jpy ?? 0), 0),
+      walk_min: walk.minutes,
+      walk_km: Math.round(walk.km * 100) / 100,
+      transfers: moves.reduce((total, move) => total + move.route.summary.transfers, 0),
+      estimated: moves.some(move => move.estimated === true)
+    };
+  }
+
+  /**
+   * ルート中の徒歩区間の合計（分・km）
+   */
+  private sumWalk(route: Route): { minutes: number; km: number } {
+    return route.legs
+      .filter(leg => leg.mode === 'walk')
+      .reduce((total, leg) => ({
+        minutes: total.minutes + leg.duration_min,
+        km: total.km + (leg.distance_km ?? 0)
+      }), { minutes: 0, km: 0 });
+  }
+
+  /**
+   * 区間のルート検索エラーに区間情報を付与
+   * 分類済みのエラーは種類（クラス・コード）を変えずに、メッセージと details に区間情報を加えて返す
+   */
+  private createLegError(cause: unknown, leg: number, from: string, to: string): ToolError {
+    const prefix = `Itinerary leg ${leg} (${from} -> ${to}) failed`;
+    const legDetails = { leg, from_station: from, to_station: to };
+    if (cause instanceof ToolError) {
+      cause.message = `${prefix}: ${cause.message}`;
+      Object.assign(cause.details, legDetails);
+      return cause;
+    }
+    const message = cause instanceof Error ? cause.message : 'Unknown error occurred';
+    return new InternalError(`${prefix}: ${message}`, legDetails);
+  }
+
+  /**
+   * 終バス・終電後で区間を移動できないエラーを作成
+   */
+  private createNoServiceError(leg: number, from: string, to: string, departAt: string): NoServiceError {
+    return new NoServiceError(
+      `Itinerary leg ${leg} (${from} -> ${to}) has no service departing at or after ${departAt}. ` +
+      'The last bus or train has already left; shorten the stays or start earlier',
+      {
+        leg,
+        from_station: from,
+        to_station: to,
+        depart_after: departAt
+      }
+    );
+  }
+
+  /**
+   * リソースのクリーンアップ
+   */
+  dispose(): void {
+    this.tokenLimiter.destroy();
+  }
+}
@@ -0,0 +1,349 @@
+import {
+  LineSearchRequest,
+  LineSearchResponse,
+  LineStopsRequest,
+  LineStopsResponse,
+  LineSummary,
+  LineStop,
+  CommonLinesRequest,
+  CommonLinesResponse,
+  CommonLine,
+  StopRecord,
+  Language,
+  Master,
+  Rosen,
+} from '../types/index.js';
+import { MasterDataLoader } from './MasterDataLoader.js';
+import { StopSearchService } from './StopSearchService.js';
+import { TokenLimiter } from '../utils/TokenLimiter.js';
+import { RequestValidator } from '../utils/RequestValidator.js';
+import { StationCoordinateResolver } from '../utils/StationCoordinateResolver.js';
+import { LineNotFoundError, StopNotFoundError } from '../utils/ToolErrors.js';
+
+/**
+ * 循環系統を示す行先表記（日本語・英語）
+ */
+const CIRCULAR_LINE_PATTERN = /循環|circular/i;
+
+/**
+ * 循環系統（終点から始点へ続けて運行する路線）かどうかを判定
+ */
+export function isCircularRosen(rosen: Rosen): boolean {
+  return CIRCULAR_LINE_PATTERN.test(rosen.dest) || CIRCULAR_LINE_PATTERN.test(rosen.expl);
+}
+
+/**
+ * 2停留所間の乗車区間
+ */
+interface LineSegment {
+  direction: CommonLine['direction'];
+  fromIndex: number;
+  toIndex: number;
+  intermediateStops: number;
+}
+
+/**
+ * Tool 6, 7 & 8: search_lines / get_line_stops / find_common_lines の実装
+ * Master.rosen の路線を事業者・路線名で検索し、停車順の停留所一覧や2停留所を結ぶ路線を返すサービス
+ */
+export class LineService {
+  private masterDataLoader: MasterDataLoader;
+  private coordinateResolver: StationCoordinateResolver;
+  private tokenLimiter: TokenLimiter;
+  private requestValidator: RequestValidator;
+  private stopSearchService: StopSearchService;
+  private ownsStopSearchService: boolean; // 渡された検索サービスは渡した側で破棄する
+
+  constructor(
+    masterDataLoader?: MasterDataLoader,
+    coordinateResolver?: StationCoordinateResolver,
+    stopSearchService?: StopSearchService
+  ) {
+    this.masterDataLoader = masterDataLoader || new MasterDataLoader();
+    this.coordinateResolver = coordinateResolver || new StationCoordinateResolver();
+    this.tokenLimiter = new TokenLimiter();
+    this.requestValidator = new RequestValidator();
+    this.stopSearchService = stopSearchService || new StopSearchService();
+    this.ownsStopSearchService = !stopSearchService;
+  }
+
+  /**
+   * 路線を事業者・路線名で検索する（どちらも省略時は全路線）
+   * @param request 検索リクエスト
+   * @returns 路線一覧（マスターデータの並び順）
+   */
+  async searchLines(request: LineSearchRequest): Promise<LineSearchResponse> {
+    // 入力検証
+    this.requestValidator.validateLineSearchRequest(request);
+
+    const master = await this.masterDataLoader.loadMaster(request.language);
+    const query = request.query ? this.normalize(request.query) : '';
+    const operator = request.operator ? this.normalize(request.operator) : '';
+
+    const lines: LineSummary[] = [];
+    for (const [id, rosen] of this.orderedRosen(master)) {
+      if (operator && !this.matchesOperator(operator, rosen, master)) {
+        continue;
+      }
+      if (query && ![rosen.name, rosen.dest, rosen.expl].some(text => this.normalize(text).includes(query))) {
+        continue;
+      }
+      lines.push(this.createSummary(id, rosen, master));
+    }
+
+    // トークン制限を適用
+    const response: LineSearchResponse = {
+      lines,
+      truncated: false
+    };
+
+    const limitResult = this.tokenLimiter.applyLimit(response, request.max_tokens);
+
+    return {
+      lines: (limitResult.data as LineSearchResponse).lines,
+      truncated: limitResult.truncated
+    };
+  }
+
+  /**
+   * 路線の停留所を停車順に取得する
+   * @param request 停留所一覧リクエスト
+   * @returns 路線情報と停留所一覧
+   * @throws Error 路線が存在しない場合
+   */
+  async getLineStops(request: LineStopsRequest): Promise<LineStopsResponse> {
+    // 入力検証
+    this.requestValidator.validateLineStopsRequest(request);
+
+    const [master, stopRecords] = await Promise.all([
+      this.masterDataLoader.loadMaster(request.language),
+      this.masterDataLoader.loadStops(request.language)
+    ]);
+
+    const rosen = master.rosen[request.line_id];
+    if (!rosen) {
+      throw new LineNotFoundError(`Line not found: ${request.line_id}`, { line_id: request.line_id });
+    }
+
+    // Rosen.stations は言語によらず日本語の駅名（事業者名付き）
+    const recordsByName = new Map(stopRecords.map(record => [record.name_ja, record]));
+
+    const stops: LineStop[] = rosen.stations.map((stationName, index) => {
+      const record = recordsByName.get(stationName);
+      const stop: LineStop = {
+        order: index + 1,
+        name: record && request.language === 'en' ? record.name_en : stationName
+      };
+      if (record) {
+        stop.id = record.id;
+      }
+      const coordinates = this.coordinateResolver.resolveCoordinates(stationName, request.language);
+      if (coordinates) {
+        stop.lat = coordinates.lat;
+        stop.lng = coordinates.lng;
+      }
+      return stop;
+    });
+
+    // トークン制限を適用
+    const response: LineStopsResponse = {
+      line: this.createSummary(request.line_id, rosen, master),
+      stops,
+      truncated: false
+    };
+
+    const limitResult = this.tokenLimiter.applyLimit(response, request.max_tokens);
+    const limited = limitResult.data as LineStopsResponse;
+
+    return {
+      line: limited.line ?? response.line,
+      stops: limited.stops ?? [],
+      truncated: limitResult.truncated
+    };
+  }
+
+  /**
+   * 2つの停留所の両方を経由する路線を検索する
+   * 停留所名は駅・バス停名（事業者名付き）または同名停留所グループ名（stationselect）で指定できる
+   * @param request 検索リクエスト
+   * @returns 共通路線（間の停留所数の少ない順）
+   * @throws StopNotFoundError 停留所が見つからない場合（名前の近い候補を添える）
+   */
+  async findCommonLines(request: CommonLinesRequest): Promise<CommonLinesResponse> {
+    // 入力検証
+    this.requestValidator.validateCommonLinesRequest(request);
+
+    const [master, stopRecords] = await Promise.all([
+      this.masterDataLoader.loadMaster(request.language),
+      this.masterDataLoader.loadStops(request.language)
+    ]);
+
+    const fromStations = await this.resolveStationNames(request.from_station, request.language);
+    const toStations = await this.resolveStationNames(request.to_station, request.language);
+
+    const recordsByName = new Map(stopRecords.map(record => [record.name_ja, record]));
+    const lines: CommonLine[] = [];
+
+    for (const [id, rosen] of this.orderedRosen(master)) {
+      const segment = this.findSegment(rosen, fromStations, toStations);
+      if (!segment) {
+        continue;
+      }
+
+      const terminalIndex = segment.direction === 'forward' ? rosen.stations.length - 1 : 0;
+      lines.push({
+        ...this.createSummary(id, rosen, master),
+        direction: segment.direction,
+        toward: this.localizedName(rosen.stations[terminalIndex], recordsByName, request.language),
+        from_stop: this.localizedName(rosen.stations[segment.fromIndex], recordsByName, request.language),
+        to_stop: this.localizedName(rosen.stations[segment.toIndex], recordsByName, request.language),
+        intermediate_stops: segment.intermediateStops
+      });
+    }
+
+    // 間の停留所数の少ない順（同数はマスターデータの並び順）
+    lines.sort((a, b) => a.intermediate_stops - b.intermediate_stops);
+
+    // トークン制限を適用
+    const response: CommonLinesResponse = {
+      lines,
+      truncated: false
+    };
+
+    const limitResult = this.tokenLimiter.applyLimit(response, request.max_tokens);
+
+    return {
+      lines: (limitResult.data as CommonLinesResponse).lines,
+      truncated: limitResult.truncated
+    };
+  }
+
+  /**
+   * 停留所名を同名停留所を含む駅名の一覧に解決する
+   * @throws StopNotFoundError 見つからない場合（名前の近い候補を添える）
+   */
+  private async resolveStationNames(name: string, language: Language): Promise<string[]> {
+    const stations = await this.masterDataLoader.resolveStationNames(name, language);
+    if (stations.length === 0) {
+      throw await this.stopSearchService.addSuggestions(
+        new StopNotFoundError(`Stop not found: ${name}`, { station: name }),
+        language
+      );
+    }
+    return stations;
+  }
+
+  /**
+   * 路線上で乗車停留所から降車停留所へ向かう最短の区間を求める
+   * 停車順（forward）を優先し、循環系統は終点から始点へ折り返して数える。
+   * 循環系統以外は逆方向（reverse）の運行も考慮する
+   */
+  private findSegment(rosen: Rosen, fromStations: string[], toStations: string[]): LineSegment | null {
+    const fromIndexes = this.indexesOf(rosen.stations, fromStations);
+    const toIndexes = this.indexesOf(rosen.stations, toStations);
+    if (fromIndexes.length === 0 || toIndexes.length === 0) {
+      return null;
+    }
+
+    const isCircular = isCircularRosen(rosen);
+    let forward: LineSegment | null = null;
+    let reverse: LineSegment | null = null;
+
+    for (const fromIndex of fromIndexes) {
+      for (const toIndex of toIndexes) {
+        if (fromIndex === toIndex) {
+          continue;
+        }
+
+        if (toIndex > fromIndex || isCircular) {
+          // 循環系統は始点に戻って続けて運行する
+          const distance = toIndex > fromIndex ? toIndex - fromIndex : rosen.stations.length - fromIndex + toIndex;
+          if (!forward || distance - 1 < forward.intermediateStops) {
+            forward = { direction: 'forward', fromIndex, toIndex, intermediateStops: distance - 1 };
+          }
+        } else if (!reverse || fromIndex - toIndex - 1 < reverse.intermediateStops) {
+          reverse = { direction: 'reverse', fromIndex, toIndex, intermediateStops: fromIndex - toIndex - 1 };
+        }
+      }
+    }
+
+    return forward ?? reverse;
+  }
+
+  private indexesOf(stations: string[], names: string[]): number[] {
+    const indexes: number[] = [];
+    stations.forEach((station, index) => {
+      if (names.includes(station)) {
+        indexes.push(index);
+      }
+    });
+    return indexes;
+  }
+
+  /**
+   * Rosen.stations の駅名（日本語）を応答言語の名称に変換する
+   */
+  private localizedName(stationName: string, recordsByName: Map<string, StopRecord>, language: Language): string {
+    const record = recordsByName.get(stationName);
+    return record && language === 'en' ? record.name_en : stationName;
+  }
+
+  /**
+   * rosen_byorder の順に路線を列挙する
+   */
+  private orderedRosen(master: Master): [string, Rosen][] {
+    const ids = master.rosen_byorder?.length
+      ? master.rosen_byorder.map(id => id.toString())
+      : Object.keys(master.rosen);
+    return ids
+      .filter(id => master.rosen[id])
+      .map(id => [id, master.rosen[id]]);
+  }
+
+  /**
+   * 事業者名（部分一致）または会社IDで絞り込む
+   */
+  private matchesOperator(operator: string, rosen: Rosen, master: Master): boolean {
+    if (operator === rosen.companyid.toString()) {
+      return true;
+    }
+    const company = master.company[rosen.companyid.toString()];
+    return !!company && this.normalize(company.name).includes(operator);
+  }
+
+  private createSummary(id: string, rosen: Rosen, master: Master): LineSummary {
+    const company = master.company[rosen.companyid.toString()];
+    const summary: LineSummary = {
+      id,
+      name: rosen.name,
+      agency: company?.name ?? '',
+      agency_id: rosen.companyid,
+      type: company?.ekidiv === 'R' ? 'rail' : 'bus',
+      stop_count: rosen.stations.length
+    };
+    if (rosen.dest) {
+      summary.dest = rosen.dest;
+    }
+    if (rosen.expl) {
+      summary.description = rosen.expl;
+    }
+    return summary;
+  }
+
+  /**
+   * 照合用に正規化する（大文字小文字・全半角・空白を無視）
+   */
+  private normalize(text: string): string {
+    return text.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+  }
+
+  /**
+   * リソースのクリーンアップ
+   */
+  destroy(): void {
+    this.tokenLimiter.destroy();
+    if (this.ownsStopSearchService) {
+      this.stopSearchService.destroy();
+    }
+  }
+}
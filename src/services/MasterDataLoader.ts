@@ -1,5 +1,7 @@
 import { Language, StopRecord, LandmarkRecord, Master, LandmarkData } from '../types/index.js';
 import { loadMaster, loadLandmarkData } from '../data/index.js';
+import { ValidationError } from '../utils/ToolErrors.js';
+import { selectStationName } from '../utils/StationSelection.js';
 
 /**
  * マスターデータとランドマークデータを読み込み、
@@ -8,6 +10,7 @@ import { loadMaster, loadLandmarkData } from '../data/index.js';
 export class MasterDataLoader {
   private stopsCache: Map<Language, StopRecord[]> = new Map();
   private landmarksCache: Map<Language, LandmarkRecord[]> = new Map();
+  private masterCache: Map<Language, Master> = new Map();
 
   /**
    * 指定された言語のマスターデータからStopRecord[]を生成
@@ -17,7 +20,7 @@ export class MasterDataLoader {
   async loadStops(language: Language): Promise<StopRecord[]> {
     // 入力検証
     if (language !== 'ja' && language !== 'en') {
-      throw new Error('Unsupported language');
+      throw new ValidationError('Unsupported language');
     }
 
     // キャッシュから返す
@@ -30,6 +33,7 @@ export class MasterDataLoader {
     const enData = await this.loadMasterData('en');
 
     const stops: StopRecord[] = [];
+    const readings = this.buildStationReadings(jaData);
 
     // 駅・バス停データを処理
     Object.entries(jaData.station).forEach(([stationName, stationInfo]) => {
@@ -56,6 +60,10 @@ export class MasterDataLoader {
         lng: stationInfo.lng,
         agency: company?.name
       };
+      const yomi = readings.get(stationName);
+      if (yomi) {
+        stopRecord.yomi = yomi;
+      }
 
       stops.push(stopRecord);
     });
@@ -73,7 +81,7 @@ export class MasterDataLoader {
   async loadLandmarks(language: Language): Promise<LandmarkRecord[]> {
     // 入力検証
     if (language !== 'ja' && language !== 'en') {
-      throw new Error('Unsupported language');
+      throw new ValidationError('Unsupported language');
     }
 
     // キャッシュから返す
@@ -99,6 +107,9 @@ export class MasterDataLoader {
         lng: (jaLandmarkInfo as any).lng,
         category: ((jaLandmarkInfo as any).category || 0).toString() // 数値を文字列に変換、undefinedの場合は0
       };
+      if (jaLandmarkInfo.yomi) {
+        landmarkRecord.yomi = jaLandmarkInfo.yomi;
+      }
 
       landmarks.push(landmarkRecord);
     });
@@ -109,12 +120,82 @@ export class MasterDataLoader {
   }
 
   /**
-   * マスターデータを読み込む
+   * 指定された言語のマスターデータ（会社・路線・駅グループ）を取得
+   * @param language 言語設定
+   * @returns Master
+   */
+  async loadMaster(language: Language): Promise<Master> {
+    // 入力検証
+    if (language !== 'ja' && language !== 'en') {
+      throw new ValidationError('Unsupported language');
+    }
+
+    return this.loadMasterData(language);
+  }
+
+  /**
+   * 駅・バス停名をマスターデータの駅名（事業者名付き、日本語）の一覧に解決する
+   * 1. 駅名の完全一致 2. 同名停留所グループ（stationselect） 3. 事業者名を除いた駅名・英語名の一致 の順に試す
+   * stationselect のキーは応答言語の名称のため、3. で言語によらず日本語名も受け付ける
+   * @param name 駅・バス停名（事業者名付き・なし、日本語・英語）
+   * @param language 言語設定
+   * @returns 駅名の一覧（見つからない場合は空配列）
+   */
+  async resolveStationNames(name: string, language: Language): Promise<string[]> {
+    const [master, stops] = await Promise.all([
+      this.loadMaster(language),
+      this.loadStops(language)
+    ]);
+
+    const trimmed = name.trim();
+    if (master.station[trimmed]) {
+      return [trimmed];
+    }
+
+    const select = master.stationselect[trimmed];
+    if (select) {
+      return select.stationnames.map(stationName => stationName.stationname);
+    }
+
+    const baseName = trimmed.replace(/\([^)]+\)$/, '');
+    return stops
+      .filter(record => record.name_ja.replace(/\([^)]+\)$/, '') === baseName || record.name_en === trimmed)
+      .map(record => record.name_ja);
+  }
+
+  /**
+   * 駅・バス停名をマスターデータの駅名（事業者名付き、日本語）1つに解決する
+   * 応答言語のマスターデータで見つからない場合は、もう一方の言語の名称（stationselect のキー）も受け付ける
+   * @param name 駅・バス停名（事業者名付き・なし、日本語・英語）
+   * @param language 言語設定
+   * @returns 駅名（見つからない場合は null）
+   * @throws AmbiguousStopError 事業者名なしの駅名に複数の事業者の候補がある場合
+   */
+  async resolveStationName(name: string, language: Language): Promise<string | null> {
+    const trimmed = name.trim();
+    const otherLanguage: Language = language === 'ja' ? 'en' : 'ja';
+
+    for (const masterLanguage of [language, otherLanguage]) {
+      const selected = selectStationName(await this.loadMaster(masterLanguage), trimmed, language);
+      if (selected) {
+        return selected;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * マスターデータを読み込む（キャッシュ付き）
    * @param language 言語設定
    * @returns Master
    */
   private async loadMasterData(language: Language): Promise<Master> {
-    return loadMaster(language);
+    let master = this.masterCache.get(language);
+    if (!master) {
+      master = loadMaster(language);
+      this.masterCache.set(language, master);
+    }
+    return master;
   }
 
   /**
@@ -144,6 +225,27 @@ export class MasterDataLoader {
     return 200; // 京都市バス
   }
 
+  /**
+   * 駅名とひらがな読みの対応表を作成
+   * 読みは日本語のstationselect.kanaにのみ含まれる（英語データではローマ字表記）
+   * @param jaData 日本語マスターデータ
+   * @returns 駅名 → 読み
+   */
+  private buildStationReadings(jaData: Master): Map<string, string> {
+    const readings = new Map<string, string>();
+    for (const selectInfo of Object.values(jaData.stationselect)) {
+      if (!selectInfo.kana) {
+        continue;
+      }
+      for (const stationName of selectInfo.stationnames) {
+        if (!readings.has(stationName.stationname)) {
+          readings.set(stationName.stationname, selectInfo.kana);
+        }
+      }
+    }
+    return readings;
+  }
+
   /**
    * 日本語のselectnameに対応する英語のselectnameを見つける
    * @param jaSelectName 日本語のselectname
@@ -182,12 +284,8 @@ export class MasterDataLoader {
    * @returns 英語の駅名
    */
   private findEnglishStationName(jaStationName: string, enData: Master): string | null {
-    // 英語データのstationから同じ座標の駅を探す
-    const enEntry = Object.entries(enData.station).find(([enName, enInfo]) => {
-      // selectnameが同じものを探す（座標が同じであることを前提）
-      return enInfo.selectname !== "";
-    });
-
-    return enEntry ? enEntry[0] : null;
+    // 英語データのstationは日本語と同じキーを持ち、selectnameが英語表記になっている
+    const enStation = enData.station[jaStationName];
+    return enStation?.selectname || null;
   }
 } 
\ No newline at end of file
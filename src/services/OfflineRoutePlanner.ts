@@ -0,0 +1,674 @@
+import {
+  Language,
+  Master,
+  Route,
+  RouteLeg,
+  RouteSearchByNameRequest,
+  RouteSearchByGeoRequest,
+  RouteSearchResponse,
+  StopRecord,
+} from '../types/index.js';
+import { MasterDataLoader } from './MasterDataLoader.js';
+import { isCircularRosen } from './LineService.js';
+import { calculateDistanceMeters, estimateWalkingMinutes } from '../utils/GeoDistance.js';
+import { StopNotFoundError } from '../utils/ToolErrors.js';
+
+/**
+ * 鉄道の表定速度（メートル/分、停車時間込みで約36km/h）
+ */
+const TRAIN_METERS_PER_MINUTE = 600;
+
+/**
+ * バスの表定速度（メートル/分、停車時間込みで約15km/h）
+ */
+const BUS_METERS_PER_MINUTE = 250;
+
+/**
+ * 乗車時の平均待ち時間（分）
+ */
+const TRAIN_WAIT_MINUTES = 4;
+const BUS_WAIT_MINUTES = 6;
+
+/**
+ * 駅間の乗換徒歩・出発地/目的地から駅までの徒歩の上限距離（メートル、直線距離）
+ */
+const TRANSFER_WALK_METERS = 300;
+const ACCESS_WALK_METERS = 1000;
+
+/**
+ * 出発地から目的地まで徒歩のみのルートを候補に含める上限距離（メートル、直線距離）
+ */
+const DIRECT_WALK_METERS = 1500;
+
+/**
+ * 直線距離に対する道のりの比
+ */
+const WALK_DETOUR_FACTOR = 1.3;
+
+/**
+ * 返却するルートの最大数
+ */
+const MAX_ROUTES = 3;
+
+/**
+ * ルート検索サービスでの概算ルート検索の利用設定
+ */
+export interface OfflineRoutingOptions {
+  planner: OfflineRoutePlanner;
+  mode: 'fallback' | 'always'; // fallback: 上流に接続できない場合のみ / always: 常に
+}
+
+/**
+ * 出発地から到達できる駅・バス停の推定所要時間
+ */
+export interface ReachableStations {
+  lat: number;
+  lng: number;
+  minutes: Map<string, number>; // 駅名（事業者名付き、日本語）→ 推定所要時間（分、待ち時間込み）
+}
+
+interface GraphEdge {
+  to: number;
+  minutes: number;
+  kind: 'board' | 'ride' | 'alight' | 'walk';
+  meters?: number; // walk のみ
+}
+
+/**
+ * 駅ノード（rosenId なし）または路線上の乗車中ノード
+ */
+interface GraphNode {
+  station: string; // 駅名（事業者名付き、日本語）
+  lat: number;
+  lng: number;
+  rosenId?: string;
+  edges: GraphEdge[];
+}
+
+interface TransitGraph {
+  nodes: GraphNode[];
+  stationIndex: Map<string, number>;
+}
+
+/**
+ * 出発地・目的地（駅ノードまでの徒歩距離付き）
+ */
+interface Endpoint {
+  name: string;
+  lat: number;
+  lng: number;
+  access: Map<number, number>; // 駅ノード → 直線距離（メートル、駅そのものなら 0）
+}
+
+interface PathStep {
+  from: number;
+  edge: GraphEdge;
+}
+
+interface PlannedPath {
+  minutes: number;
+  origin: number;
+  destination: number;
+  steps: PathStep[];
+}
+
+/**
+ * 応答言語での名称解決に必要なデータ
+ */
+interface NamingContext {
+  language: Language;
+  master: Master;
+  recordsByName: Map<string, StopRecord>;
+}
+
+/**
+ * 上流サイトを使わない概算ルート検索
+ * Master.rosen の停車順と近接する駅間の徒歩乗換からグラフを構築し、
+ * 区間ごとの推定所要時間で最短ルートを求める。時刻表・運賃は持たないため
+ * 返却するルートには estimated: true を付け、発着時刻・運賃を省略する
+ */
+export class OfflineRoutePlanner {
+  private masterDataLoader: MasterDataLoader;
+  private graph: TransitGraph | null = null;
+
+  constructor(masterDataLoader?: MasterDataLoader) {
+    this.masterDataLoader = masterDataLoader || new MasterDataLoader();
+  }
+
+  /**
+   * 駅名・バス停名・ランドマーク名指定で概算ルートを検索
+   * @throws Error 駅・バス停・ランドマークが見つからない場合
+   */
+  async planByName(request: RouteSearchByNameRequest): Promise<RouteSearchResponse> {
+    const graph = await this.getGraph();
+    const origin = await this.resolveNamedEndpoint(request.from_station, request.language, graph);
+    const destination = await this.resolveNamedEndpoint(request.to_station, request.language, graph);
+    const via = request.via_station
+      ? await this.resolveNamedEndpoint(request.via_station, request.language, graph)
+      : undefined;
+
+    return this.plan(graph, origin, destination, via, request.language);
+  }
+
+  /**
+   * 緯度経度指定で概算ルートを検索
+   * @throws Error 経由地が見つからない場合
+   */
+  async planByCoordinates(request: RouteSearchByGeoRequest): Promise<RouteSearchResponse> {
+    const graph = await this.getGraph();
+    const origin = this.createCoordinateEndpoint(request.from_latlng, graph);
+    const destination = this.createCoordinateEndpoint(request.to_latlng, graph);
+    const via = request.via_station
+      ? await this.resolveNamedEndpoint(request.via_station, request.language, graph)
+      : undefined;
+
+    return this.plan(graph, origin, destination, via, request.language);
+  }
+
+  /**
+   * 出発地から所要時間の上限内に到達できる駅・バス停を推定
+   * @param from 駅名・バス停名・ランドマーク名（from_station）または "lat,lng"（from_latlng）
+   * @throws Error 駅・バス停・ランドマークが見つからない場合
+   */
+  async estimateReachableStations(
+    from: { from_station?: string; from_latlng?: string; language: Language },
+    maxMinutes: number
+  ): Promise<ReachableStations> {
+    const graph = await this.getGraph();
+    const origin = from.from_latlng
+      ? this.createCoordinateEndpoint(from.from_latlng, graph)
+      : await this.resolveNamedEndpoint(from.from_station ?? '', from.language, graph);
+
+    const count = graph.nodes.length;
+    const minutes = new Float64Array(count).fill(Infinity);
+    const heap = new MinHeap();
+    for (const [node, meters] of origin.access) {
+      minutes[node] = this.walkMinutes(meters);
+      heap.push(node, minutes[node]);
+    }
+
+    const reachable = new Map<string, number>();
+    while (heap.size > 0) {
+      const { node, priority } = heap.pop()!;
+      if (priority > minutes[node]) {
+        continue;
+      }
+      if (priority > maxMinutes) {
+        break;
+      }
+      if (!graph.nodes[node].rosenId) {
+        reachable.set(graph.nodes[node].station, priority);
+      }
+
+      for (const edge of graph.nodes[node].edges) {
+        const next = priority + edge.minutes;
+        if (next < minutes[edge.to]) {
+          minutes[edge.to] = next;
+          heap.push(edge.to, next);
+        }
+      }
+    }
+
+    return { lat: origin.lat, lng: origin.lng, minutes: reachable };
+  }
+
+  /**
+   * ルート候補を探索して所要時間順に返す
+   * 経由地指定時は出発地→経由地→目的地の最短ルートのみを返す
+   */
+  private async plan(
+    graph: TransitGraph,
+    origin: Endpoint,
+    destination: Endpoint,
+    via: Endpoint | undefined,
+    language: Language
+  ): Promise<RouteSearchResponse> {
+    const [master, stopRecords] = await Promise.all([
+      this.masterDataLoader.loadMaster(language),
+      this.masterDataLoader.loadStops(language)
+    ]);
+    const context: NamingContext = {
+      language,
+      master,
+      recordsByName: new Map(stopRecords.map(record => [record.name_ja, record]))
+    };
+
+    const routes: Route[] = [];
+
+    if (via) {
+      const first = this.findShortestPath(graph, origin, via, new Set());
+      const second = this.findShortestPath(graph, via, destination, new Set());
+      if (first && second) {
+        const legs = [
+          ...this.buildLegs(first, origin, via, graph, context),
+          ...this.buildLegs(second, via, destination, graph, context)
+        ];
+        routes.push(this.createRoute(legs, first.minutes + second.minutes));
+      }
+    } else {
+      // 2本目以降は、それまでのルートで最も長く乗車した路線を除外して別ルートを探す
+      const excludedRosen = new Set<string>();
+      for (let i = 0; i < MAX_ROUTES; i++) {
+        const path = this.findShortestPath(graph, origin, destination, excludedRosen);
+        if (!path) {
+          break;
+        }
+        const legs = this.buildLegs(path, origin, destination, graph, context);
+        const mainRosen = this.findMainRosen(path, graph);
+        if (!mainRosen) {
+          // 徒歩のみのルートは直接徒歩ルートとして扱う
+          break;
+        }
+        routes.push(this.createRoute(legs, path.minutes));
+        excludedRosen.add(mainRosen);
+      }
+
+      const directRoute = this.createDirectWalkRoute(origin, destination);
+      if (directRoute) {
+        routes.push(directRoute);
+      }
+    }
+
+    routes.sort((a, b) => a.summary.duration_min - b.summary.duration_min);
+
+    return {
+      routes: routes.slice(0, MAX_ROUTES),
+      truncated: false
+    };
+  }
+
+  /**
+   * 出発地から目的地までの最短経路を求める（ダイクストラ法）
+   * @param excludedRosen 乗車しない路線ID
+   */
+  private findShortestPath(
+    graph: TransitGraph,
+    origin: Endpoint,
+    destination: Endpoint,
+    excludedRosen: Set<string>
+  ): PlannedPath | null {
+    const count = graph.nodes.length;
+    const minutes = new Float64Array(count).fill(Infinity);
+    const previous: (PathStep | null)[] = new Array(count).fill(null);
+    const heap = new MinHeap();
+
+    for (const [node, meters] of origin.access) {
+      minutes[node] = this.walkMinutes(meters);
+      heap.push(node, minutes[node]);
+    }
+
+    let bestMinutes = Infinity;
+    let bestNode = -1;
+
+    while (heap.size > 0) {
+      const { node, priority } = heap.pop()!;
+      if (priority > minutes[node]) {
+        continue;
+      }
+      if (priority >= bestMinutes) {
+        break;
+      }
+
+      // 駅ノードに到着した時点で目的地までの徒歩を加えて評価
+      const egress = destination.access.get(node);
+      if (egress !== undefined && !graph.nodes[node].rosenId) {
+        const total = priority + this.walkMinutes(egress);
+        if (total < bestMinutes) {
+          bestMinutes = total;
+          bestNode = node;
+        }
+      }
+
+      for (const edge of graph.nodes[node].edges) {
+        if (edge.kind === 'board' && excludedRosen.has(graph.nodes[edge.to].rosenId!)) {
+          continue;
+        }
+        const next = priority + edge.minutes;
+        if (next < minutes[edge.to]) {
+          minutes[edge.to] = next;
+          previous[edge.to] = { from: node, edge };
+          heap.push(edge.to, next);
+        }
+      }
+    }
+
+    if (bestNode < 0) {
+      return null;
+    }
+
+    const steps: PathStep[] = [];
+    let node = bestNode;
+    while (previous[node]) {
+      const step = previous[node]!;
+      steps.unshift(step);
+      node = step.from;
+    }
+
+    return { minutes: bestMinutes, origin: node, destination: bestNode, steps };
+  }
+
+  /**
+   * 経路を区間（RouteLeg）に変換する
+   * 乗車区間の所要時間には待ち時間を含めない
+   */
+  private buildLegs(
+    path: PlannedPath,
+    origin: Endpoint,
+    destination: Endpoint,
+    graph: TransitGraph,
+    context: NamingContext
+  ): RouteLeg[] {
+    const legs: RouteLeg[] = [];
+
+    const accessMeters = origin.access.get(path.origin) ?? 0;
+    if (accessMeters > 0) {
+      legs.push(this.createWalkLeg(origin.name, this.stationName(graph.nodes[path.origin].station, context), accessMeters));
+    }
+
+    let ride: RouteLeg | null = null;
+    let rideMinutes = 0;
+    for (const { from, edge } of path.steps) {
+      const fromNode = graph.nodes[from];
+      const toNode = graph.nodes[edge.to];
+
+      switch (edge.kind) {
+        case 'walk':
+          legs.push(this.createWalkLeg(
+            this.stationName(fromNode.station, context),
+            this.stationName(toNode.station, context),
+            edge.meters ?? 0
+          ));
+          break;
+
+        case 'board': {
+          const rosen = context.master.rosen[toNode.rosenId!];
+          const company = context.master.company[rosen.companyid.toString()];
+          ride = {
+            mode: company?.ekidiv === 'R' ? 'train' : 'bus',
+            line: rosen.name,
+            from: this.stationName(fromNode.station, context),
+            from_lat: fromNode.lat,
+            from_lng: fromNode.lng,
+            duration_min: 0,
+            stops: 0
+          };
+          rideMinutes = 0;
+          break;
+        }
+
+        case 'ride':
+          rideMinutes += edge.minutes;
+          ride!.stops! += 1;
+          break;
+
+        case 'alight':
+          ride!.to = this.stationName(toNode.station, context);
+          ride!.to_lat = toNode.lat;
+          ride!.to_lng = toNode.lng;
+          ride!.duration_min = Math.max(1, Math.round(rideMinutes));
+          legs.push(ride!);
+          ride = null;
+          break;
+      }
+    }
+
+    const egressMeters = destination.access.get(path.destination) ?? 0;
+    if (egressMeters > 0) {
+      legs.push(this.createWalkLeg(this.stationName(graph.nodes[path.destination].station, context), destination.name, egressMeters));
+    }
+
+    return legs;
+  }
+
+  /**
+   * 経路中で最も長く乗車した路線IDを取得（乗車しない場合は null）
+   */
+  private findMainRosen(path: PlannedPath, graph: TransitGraph): string | null {
+    const minutesByRosen = new Map<string, number>();
+    for (const { edge } of path.steps) {
+      if (edge.kind === 'ride') {
+        const rosenId = graph.nodes[edge.to].rosenId!;
+        minutesByRosen.set(rosenId, (minutesByRosen.get(rosenId) ?? 0) + edge.minutes);
+      }
+    }
+
+    let mainRosen: string | null = null;
+    let longest = 0;
+    for (const [rosenId, minutes] of minutesByRosen) {
+      if (minutes > longest) {
+        longest = minutes;
+        mainRosen = rosenId;
+      }
+    }
+    return mainRosen;
+  }
+
+  private createRoute(legs: RouteLeg[], minutes: number): Route {
+    const rides = legs.filter(leg => leg.mode !== 'walk').length;
+    return {
+      summary: {
+        duration_min: Math.max(1, Math.round(minutes)),
+        transfers: Math.max(0, rides - 1)
+      },
+      legs,
+      estimated: true
+    };
+  }
+
+  /**
+   * 出発地と目的地が近い場合の徒歩のみのルート
+   */
+  private createDirectWalkRoute(origin: Endpoint, destination: Endpoint): Route | null {
+    const meters = calculateDistanceMeters(origin.lat, origin.lng, destination.lat, destination.lng);
+    if (meters > DIRECT_WALK_METERS) {
+      return null;
+    }
+
+    const leg = this.createWalkLeg(origin.name, destination.name, meters);
+    return {
+      summary: {
+        duration_min: leg.duration_min,
+        transfers: 0
+      },
+      legs: [leg],
+      estimated: true
+    };
+  }
+
+  private createWalkLeg(from: string, to: string, meters: number): RouteLeg {
+    return {
+      mode: 'walk',
+      from,
+      to,
+      duration_min: Math.max(1, this.walkMinutes(meters)),
+      distance_km: Math.round(meters * WALK_DETOUR_FACTOR / 100) / 10
+    };
+  }
+
+  /**
+   * 直線距離から徒歩の所要時間（分）を推定（道のりの迂回を考慮）
+   */
+  private walkMinutes(meters: number): number {
+    return meters > 0 ? estimateWalkingMinutes(meters * WALK_DETOUR_FACTOR) : 0;
+  }
+
+  /**
+   * 駅・バス停名、またはランドマーク名から出発地・目的地を作成
+   * 駅・バス停名はルート検索と同じく1つに特定する（事業者名なしで複数の事業者の候補がある場合は AmbiguousStopError）
+   */
+  private async resolveNamedEndpoint(name: string, language: Language, graph: TransitGraph): Promise<Endpoint> {
+    const station = await this.masterDataLoader.resolveStationName(name, language);
+    const node = station !== null ? graph.stationIndex.get(station) : undefined;
+    if (node !== undefined) {
+      return { name, lat: graph.nodes[node].lat, lng: graph.nodes[node].lng, access: new Map([[node, 0]]) };
+    }
+
+    const landmarks = await this.masterDataLoader.loadLandmarks(language);
+    const landmark = landmarks.find(record => record.name_ja === name || record.name_en === name);
+    if (landmark) {
+      return { name, lat: landmark.lat, lng: landmark.lng, access: this.findNearbyStations(landmark.lat, landmark.lng, graph) };
+    }
+
+    throw new StopNotFoundError(`Stop not found: ${name}`, { station: name });
+  }
+
+  /**
+   * "lat,lng" 形式の座標から出発地・目的地を作成
+   */
+  private createCoordinateEndpoint(latlng: string, graph: TransitGraph): Endpoint {
+    const [lat, lng] = latlng.split(',').map(Number);
+    return { name: latlng, lat, lng, access: this.findNearbyStations(lat, lng, graph) };
+  }
+
+  /**
+   * 徒歩圏内の駅ノードを検索
+   */
+  private findNearbyStations(lat: number, lng: number, graph: TransitGraph): Map<number, number> {
+    const access = new Map<number, number>();
+    for (const node of graph.stationIndex.values()) {
+      const meters = calculateDistanceMeters(lat, lng, graph.nodes[node].lat, graph.nodes[node].lng);
+      if (meters <= ACCESS_WALK_METERS) {
+        access.set(node, meters);
+      }
+    }
+    return access;
+  }
+
+  /**
+   * Rosen.stations の駅名（日本語）を応答言語の名称に変換する
+   */
+  private stationName(station: string, context: NamingContext): string {
+    const record = context.recordsByName.get(station);
+    return record && context.language === 'en' ? record.name_en : station;
+  }
+
+  /**
+   * グラフを取得（初回のみ構築、駅名・路線IDは言語によらず共通のため日本語データから構築）
+   */
+  private async getGraph(): Promise<TransitGraph> {
+    if (!this.graph) {
+      this.graph = this.buildGraph(await this.masterDataLoader.loadMaster('ja'));
+    }
+    return this.graph;
+  }
+
+  /**
+   * マスターデータから乗換グラフを構築
+   * - 駅ノード間: 乗換徒歩（TRANSFER_WALK_METERS 以内）
+   * - 駅ノード → 乗車中ノード: 乗車（待ち時間）
+   * - 乗車中ノード間: 隣の駅への移動（距離と表定速度から推定）
+   * - 乗車中ノード → 駅ノード: 降車
+   * 循環系統は停車順に一周し、それ以外は両方向に運行するものとする
+   */
+  private buildGraph(master: Master): TransitGraph {
+    const nodes: GraphNode[] = [];
+    const stationIndex = new Map<string, number>();
+
+    for (const [station, info] of Object.entries(master.station)) {
+      stationIndex.set(station, nodes.length);
+      nodes.push({ station, lat: info.lat, lng: info.lng, edges: [] });
+    }
+
+    // 乗換徒歩
+    const stationNodes = [...stationIndex.values()];
+    for (let i = 0; i < stationNodes.length; i++) {
+      for (let j = i + 1; j < stationNodes.length; j++) {
+        const a = nodes[stationNodes[i]];
+        const b = nodes[stationNodes[j]];
+        const meters = calculateDistanceMeters(a.lat, a.lng, b.lat, b.lng);
+        if (meters <= TRANSFER_WALK_METERS) {
+          const minutes = this.walkMinutes(meters);
+          a.edges.push({ to: stationNodes[j], minutes, kind: 'walk', meters });
+          b.edges.push({ to: stationNodes[i], minutes, kind: 'walk', meters });
+        }
+      }
+    }
+
+    for (const [rosenId, rosen] of Object.entries(master.rosen)) {
+      const isTrain = master.company[rosen.companyid.toString()]?.ekidiv === 'R';
+      const metersPerMinute = isTrain ? TRAIN_METERS_PER_MINUTE : BUS_METERS_PER_MINUTE;
+      const waitMinutes = isTrain ? TRAIN_WAIT_MINUTES : BUS_WAIT_MINUTES;
+      const stations = rosen.stations.filter(station => stationIndex.has(station));
+      if (stations.length < 2) {
+        continue;
+      }
+
+      const sequences = isCircularRosen(rosen)
+        ? [[...stations, stations[0]]]
+        : [stations, [...stations].reverse()];
+
+      for (const sequence of sequences) {
+        let previousRide = -1;
+        for (const station of sequence) {
+          const stationNode = stationIndex.get(station)!;
+          const rideNode = nodes.length;
+          nodes.push({ station, lat: nodes[stationNode].lat, lng: nodes[stationNode].lng, rosenId, edges: [] });
+
+          nodes[stationNode].edges.push({ to: rideNode, minutes: waitMinutes, kind: 'board' });
+          nodes[rideNode].edges.push({ to: stationNode, minutes: 0, kind: 'alight' });
+
+          if (previousRide >= 0) {
+            const from = nodes[previousRide];
+            const meters = calculateDistanceMeters(from.lat, from.lng, nodes[rideNode].lat, nodes[rideNode].lng);
+            from.edges.push({ to: rideNode, minutes: Math.max(1, meters / metersPerMinute), kind: 'ride' });
+          }
+          previousRide = rideNode;
+        }
+      }
+    }
+
+    return { nodes, stationIndex };
+  }
+}
+
+/**
+ * ダイクストラ法用の二分ヒープ（優先度の小さい順）
+ */
+class MinHeap {
+  private items: { node: number; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number): void {
+    const items = this.items;
+    items.push({ node, priority });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].priority <= items[index].priority) {
+        break;
+      }
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { node: number; priority: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].priority < items[smallest].priority) {
+          smallest = left;
+        }
+        if (right < items.length && items[right].priority < items[smallest].priority) {
+          smallest = right;
+        }
+        if (smallest === index) {
+          break;
+        }
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
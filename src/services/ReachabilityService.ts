@@ -0,0 +1,327 @@
+import { MasterDataLoader } from './MasterDataLoader.js';
+import { OfflineRoutePlanner, ReachableStations } from './OfflineRoutePlanner.js';
+import { RouteSearchByGeoService } from './RouteSearchByGeoService.js';
+import { StopSearchService } from './StopSearchService.js';
+import { TokenLimiter } from '../utils/TokenLimiter.js';
+import { RequestValidator } from '../utils/RequestValidator.js';
+import { calculateDistanceMeters, estimateWalkingMinutes } from '../utils/GeoDistance.js';
+import { parseJstDateTime, toEpochMs } from '../utils/JstTime.js';
+import { StopNotFoundError } from '../utils/ToolErrors.js';
+import {
+  ReachabilityBand,
+  ReachabilityRequest,
+  ReachabilityResponse,
+  ReachabilitySampling,
+  ReachableStop
+} from '../types/index.js';
+
+/**
+ * 時間帯の幅のデフォルト（分）
+ */
+const DEFAULT_BAND_MINUTES = 10;
+
+/**
+ * 上流サイトで検証する検索回数のデフォルト
+ */
+const DEFAULT_MAX_SEARCHES = 10;
+
+/**
+ * 検証のルート検索に使うトークン数の上限
+ * max_tokens は到達圏の応答にのみ適用し、検証に使うルートは切り捨てない
+ */
+export const SAMPLE_SEARCH_MAX_TOKENS = 100000;
+
+/**
+ * 駅・バス停からランドマークまで歩く上限距離（メートル、直線距離）
+ */
+const LANDMARK_WALK_METERS = 500;
+
+/**
+ * 直線距離に対する道のりの比
+ */
+const WALK_DETOUR_FACTOR = 1.3;
+
+/**
+ * spread サンプリングで出発地の周囲を分割する方位の数
+ */
+const SPREAD_SECTORS = 8;
+
+/**
+ * Tool 11: search_reachable の実装
+ * 出発地から所要時間の上限内に到達できる駅・バス停・ランドマークを時間帯ごとに返す
+ * 所要時間はマスターデータの路線網から推定し、sampling 指定時は一部の停留所を
+ * 上流サイトのルート検索で検証する（検索回数は max_searches まで）
+ */
+export class ReachabilityService {
+  private readonly planner: OfflineRoutePlanner;
+  private readonly routeSearchService: RouteSearchByGeoService;
+  private readonly masterDataLoader: MasterDataLoader;
+  private readonly tokenLimiter: TokenLimiter;
+  private readonly validator: RequestValidator;
+  private readonly stopSearchService: StopSearchService;
+  private readonly ownsStopSearchService: boolean; // 渡された検索サービスは渡した側で破棄する
+
+  constructor(
+    planner?: OfflineRoutePlanner,
+    routeSearchService?: RouteSearchByGeoService,
+    masterDataLoader?: MasterDataLoader,
+    tokenLimiter?: TokenLimiter,
+    validator?: RequestValidator,
+    stopSearchService?: StopSearchService
+  ) {
+    this.masterDataLoader = masterDataLoader || new MasterDataLoader();
+    this.planner = planner || new OfflineRoutePlanner(this.masterDataLoader);
+    this.routeSearchService = routeSearchService || new RouteSearchByGeoService();
+    this.tokenLimiter = tokenLimiter || new TokenLimiter();
+    this.validator = validator || new RequestValidator();
+    this.stopSearchService = stopSearchService || new StopSearchService();
+    this.ownsStopSearchService = !stopSearchService;
+  }
+
+  /**
+   * 到達圏を検索
+   * @throws Error 出発地が見つからない場合
+   */
+  async search(request: ReachabilityRequest): Promise<ReachabilityResponse> {
+    this.validator.validateReachabilityRequest(request);
+
+    const reachable = await this.estimateReachableStations(request);
+    const origin = { lat: reachable.lat, lng: reachable.lng };
+
+    let stops = [
+      ...await this.collectStops(reachable.minutes, request),
+      ...await this.collectLandmarks(reachable.minutes, origin, request)
+    ];
+    if (request.kind) {
+      stops = stops.filter(stop => stop.kind === request.kind);
+    }
+
+    const sampling = request.sampling ?? 'none';
+    let searches = 0;
+    if (sampling !== 'none') {
+      const samples = this.selectSamples(stops, origin, sampling, request);
+      searches = samples.length;
+      const rejected = await this.verifySamples(samples, origin, request);
+      stops = stops.filter(stop => !rejected.has(stop));
+    }
+
+    const response: ReachabilityResponse = {
+      origin,
+      budget_min: request.budget_min,
+      bands: this.groupIntoBands(stops, request.budget_min, request.band_min ?? DEFAULT_BAND_MINUTES),
+      searches,
+      truncated: false
+    };
+
+    // 出発地・上限・検索回数は応答スキーマで必須のため、切り詰めるのは bands のみ
+    const limitResult = this.tokenLimiter.applyLimitToArray(response, 'bands', request.max_tokens);
+    return { ...limitResult.data, truncated: limitResult.truncated };
+  }
+
+  /**
+   * 所要時間の上限内に到達できる駅・バス停を推定
+   * @throws StopNotFoundError 出発地が見つからない場合（名前の近い候補を添える）
+   */
+  private async estimateReachableStations(request: ReachabilityRequest): Promise<ReachableStations> {
+    try {
+      return await this.planner.estimateReachableStations(request, request.budget_min);
+    } catch (error) {
+      if (error instanceof StopNotFoundError) {
+        throw await this.stopSearchService.addSuggestions(error, request.language);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 到達できる駅・バス停を応答言語の名称で列挙
+   */
+  private async collectStops(minutes: Map<string, number>, request: ReachabilityRequest): Promise<ReachableStop[]> {
+    const records = await this.masterDataLoader.loadStops(request.language);
+    const recordsByName = new Map(records.map(record => [record.name_ja, record]));
+
+    const stops: ReachableStop[] = [];
+    for (const [station, travelMin] of minutes) {
+      const record = recordsByName.get(station);
+      if (!record) {
+        continue;
+      }
+      const stop: ReachableStop = {
+        name: request.language === 'en' ? record.name_en : record.name_ja,
+        kind: record.kind,
+        id: record.id,
+        lat: record.lat,
+        lng: record.lng,
+        travel_min: Math.ceil(travelMin)
+      };
+      if (record.agency) {
+        stop.agency = record.agency;
+      }
+      stops.push(stop);
+    }
+    return stops;
+  }
+
+  /**
+   * 到達できるランドマークを列挙
+   * 出発地から直接歩くか、到達できる駅・バス停から LANDMARK_WALK_METERS 以内を歩く場合の早い方とする
+   */
+  private async collectLandmarks(
+    minutes: Map<string, number>,
+    origin: { lat: number; lng: number },
+    request: ReachabilityRequest
+  ): Promise<ReachableStop[]> {
+    const [landmarks, master] = await Promise.all([
+      this.masterDataLoader.loadLandmarks(request.language),
+      this.masterDataLoader.loadMaster('ja')
+    ]);
+    const stations = [...minutes]
+      .filter(([station]) => master.station[station])
+      .map(([station, travelMin]) => ({ ...master.station[station], travelMin }));
+
+    const reachable: ReachableStop[] = [];
+    for (const landmark of landmarks) {
+      let best = this.walkMinutes(calculateDistanceMeters(origin.lat, origin.lng, landmark.lat, landmark.lng));
+      for (const station of stations) {
+        if (station.travelMin >= best) {
+          continue;
+        }
+        const meters = calculateDistanceMeters(station.lat, station.lng, landmark.lat, landmark.lng);
+        if (meters <= LANDMARK_WALK_METERS) {
+          best = Math.min(best, station.travelMin + this.walkMinutes(meters));
+        }
+      }
+
+      const travelMin = Math.ceil(best);
+      if (travelMin <= request.budget_min) {
+        reachable.push({
+          name: request.language === 'en' ? landmark.name_en : landmark.name_ja,
+          kind: 'landmark',
+          id: landmark.id,
+          lat: landmark.lat,
+          lng: landmark.lng,
+          travel_min: travelMin
+        });
+      }
+    }
+    return reachable;
+  }
+
+  /**
+   * 上流サイトで検証する停留所を選ぶ
+   * - boundary: 推定所要時間が上限に近い（到達できるかが不確かな）ものから
+   * - spread: 出発地の周囲を方位で分割し、各方位の遠いものから順に
+   */
+  private selectSamples(
+    stops: ReachableStop[],
+    origin: { lat: number; lng: number },
+    sampling: Exclude<ReachabilitySampling, 'none'>,
+    request: ReachabilityRequest
+  ): ReachableStop[] {
+    const maxSearches = request.max_searches ?? DEFAULT_MAX_SEARCHES;
+
+    if (sampling === 'boundary') {
+      return [...stops]
+        .sort((a, b) => Math.abs(request.budget_min - a.travel_min) - Math.abs(request.budget_min - b.travel_min))
+        .slice(0, maxSearches);
+    }
+
+    const sectors: ReachableStop[][] = Array.from({ length: SPREAD_SECTORS }, () => []);
+    for (const stop of stops) {
+      const angle = Math.atan2(stop.lat - origin.lat, stop.lng - origin.lng) + Math.PI;
+      sectors[Math.min(SPREAD_SECTORS - 1, Math.floor(angle / (2 * Math.PI) * SPREAD_SECTORS))].push(stop);
+    }
+    sectors.forEach(sector => sector.sort((a, b) => b.travel_min - a.travel_min));
+
+    const samples: ReachableStop[] = [];
+    for (let rank = 0; samples.length < maxSearches && sectors.some(sector => sector.length > rank); rank++) {
+      for (const sector of sectors) {
+        if (sector[rank] && samples.length < maxSearches) {
+          samples.push(sector[rank]);
+        }
+      }
+    }
+    return samples;
+  }
+
+  /**
+   * 選んだ停留所までの所要時間を上流サイトのルート検索で確認する
+   * 所要時間は出発日時から最も早い到着までの時間（待ち時間込み）とし、
+   * 検索できない・推定ルートしかない場合は推定値のままとする
+   * @returns 上限を超えていた停留所
+   */
+  private async verifySamples(
+    samples: ReachableStop[],
+    origin: { lat: number; lng: number },
+    request: ReachabilityRequest
+  ): Promise<Set<ReachableStop>> {
+    const rejected = new Set<ReachableStop>();
+    const departAt = toEpochMs(parseJstDateTime(request.datetime));
+
+    for (const stop of samples) {
+      let routes;
+      try {
+        const result = await this.routeSearchService.searchRoute({
+          language: request.language,
+          max_tokens: SAMPLE_SEARCH_MAX_TOKENS,
+          from_latlng: `${origin.lat},${origin.lng}`,
+          to_latlng: `${stop.lat},${stop.lng}`,
+          datetime_type: 'departure',
+          datetime: request.datetime
+        });
+        routes = result.routes.filter(route => !route.estimated && route.summary.arrive);
+      } catch {
+        // 検索できない停留所は推定値のままとする
+        continue;
+      }
+      if (routes.length === 0) {
+        continue;
+      }
+
+      const travelMin = Math.min(...routes.map(route =>
+        Math.ceil((toEpochMs(parseJstDateTime(route.summary.arrive!)) - departAt) / 60000)
+      ));
+      if (travelMin > request.budget_min) {
+        rejected.add(stop);
+      } else {
+        stop.travel_min = travelMin;
+        stop.verified = true;
+      }
+    }
+    return rejected;
+  }
+
+  /**
+   * 所要時間で時間帯に分ける（時間帯内は所要時間・名称順）
+   */
+  private groupIntoBands(stops: ReachableStop[], budgetMin: number, bandMin: number): ReachabilityBand[] {
+    const bands: ReachabilityBand[] = [];
+    for (let fromMin = 0; fromMin < budgetMin; fromMin += bandMin) {
+      bands.push({ from_min: fromMin, to_min: Math.min(fromMin + bandMin, budgetMin), stops: [] });
+    }
+
+    for (const stop of stops) {
+      const index = Math.min(bands.length - 1, Math.max(0, Math.ceil(stop.travel_min / bandMin) - 1));
+      bands[index].stops.push(stop);
+    }
+    bands.forEach(band => band.stops.sort((a, b) => a.travel_min - b.travel_min || a.name.localeCompare(b.name)));
+    return bands;
+  }
+
+  /**
+   * 直線距離から徒歩の所要時間（分）を推定（道のりの迂回を考慮）
+   */
+  private walkMinutes(meters: number): number {
+    return meters > 0 ? estimateWalkingMinutes(meters * WALK_DETOUR_FACTOR) : 0;
+  }
+
+  /**
+   * リソースのクリーンアップ
+   */
+  dispose(): void {
+    this.tokenLimiter.destroy();
+    if (this.ownsStopSearchService) {
+      this.stopSearchService.destroy();
+    }
+  }
+}
@@ -2,7 +2,37 @@ import { RouteHtmlFetcher } from '../utils/RouteHtmlFetcher.js';
 import { RouteHtmlParser } from '../utils/RouteHtmlParser.js';
 import { TokenLimiter } from '../utils/TokenLimiter.js';
 import { RequestValidator } from '../utils/RequestValidator.js';
+import { rankRoutes } from '../utils/RouteRanking.js';
+import { applyRoutePreferences, hasRoutePreferences, validateCompanyIds } from '../utils/RoutePreferences.js';
+import { isUpstreamFormatChanged } from '../utils/ParseDiagnostics.js';
 import {
+  InternalError,
+  StopNotFoundError,
+  ToolError,
+  UpstreamFormatError,
+  UpstreamNetworkError,
+  UpstreamTimeoutError,
+  UpstreamUnavailableError,
+  getErrorCode
+} from '../utils/ToolErrors.js';
+import { OfflineRoutingOptions } from './OfflineRoutePlanner.js';
+import { MasterDataLoader } from './MasterDataLoader.js';
+import { StopSearchService } from './StopSearchService.js';
+import {
+  createRouteFingerprint,
+  decodeRouteCursor,
+  encodeRouteCursor,
+  excludeSeenRoutes,
+  resolvePageQuery,
+  MAX_PAGE_SHIFTS,
+  RouteCursor
+} from '../utils/RouteCursor.js';
+import {
+  DateTimeType,
+  DroppedRoute,
+  Master,
+  ParseDiagnostics,
+  Route,
   RouteSearchByNameRequest,
   RouteSearchResponse
 } from '../types/index.js';
@@ -17,17 +47,28 @@ export class RouteSearchByNameService {
   private readonly parser: RouteHtmlParser;
   private readonly tokenLimiter: TokenLimiter;
   private readonly validator: RequestValidator;
+  private readonly offlineRouting: OfflineRoutingOptions | null;
+  private readonly masterDataLoader: MasterDataLoader;
+  private readonly stopSearchService: StopSearchService;
+  private readonly ownsStopSearchService: boolean; // 渡された検索サービスは渡した側で破棄する
 
   constructor(
     fetcher?: RouteHtmlFetcher,
     parser?: RouteHtmlParser,
     tokenLimiter?: TokenLimiter,
-    validator?: RequestValidator
+    validator?: RequestValidator,
+    offlineRouting?: OfflineRoutingOptions,
+    masterDataLoader?: MasterDataLoader,
+    stopSearchService?: StopSearchService
   ) {
     this.fetcher = fetcher || new RouteHtmlFetcher();
     this.parser = parser || new RouteHtmlParser();
     this.tokenLimiter = tokenLimiter || new TokenLimiter();
     this.validator = validator || new RequestValidator();
+    this.offlineRouting = offlineRouting || null;
+    this.masterDataLoader = masterDataLoader || new MasterDataLoader();
+    this.stopSearchService = stopSearchService || new StopSearchService();
+    this.ownsStopSearchService = !stopSearchService;
   }
 
   /**
@@ -38,37 +79,62 @@ export class RouteSearchByNameService {
       // 入力検証
       this.validator.validateRouteSearchRequest(request);
 
-      // HTML取得
-      const html = await this.fetcher.fetchByName(
-        request.from_station,
-        request.to_station,
-        request.datetime,
-        request.datetime_type,
-        request.language
-      );
+      // 事業者 ID はマスターデータで確認するため、上流サイトへの問い合わせ前に検証
+      await this.loadPreferenceMaster(request);
+
+      if (this.offlineRouting?.mode === 'always') {
+        return await this.planOffline(request);
+      }
+
+      const fingerprint = createRouteFingerprint(request.language, request.from_station, request.to_station, request.via_station);
+      const cursor = request.cursor ? decodeRouteCursor(request.cursor, fingerprint) : undefined;
 
-      // HTML解析
-      const parseResult = this.parser.parseHtml(html, request.language);
+      const searchResult = cursor
+        ? await this.searchPage(request, cursor)
+        : await this.searchAt(request, request.datetime, request.datetime_type);
 
-      // 駅が見つからない場合のエラーハンドリング
-      if (parseResult.routes.length === 0) {
+      // 駅が見つからない場合のエラーハンドリング（ページ送りで前後のルートがない場合は空で返す）
+      if (searchResult.routes.length === 0 && !cursor) {
 
         throw this.createStopNotFoundError(request.from_station, request.to_station);
 
       }
 
-      // トークン制限適用
-      const limitResult = this.tokenLimiter.applyLimit(parseResult, request.max_tokens);
+      // 交通手段・事業者の指定 → 並べ替え・絞り込み → トークン制限適用（条件に最も合うルートを残す）
+      const preferred = await this.applyPreferences(searchResult.routes, request);
+      const rankedResult = { ...searchResult, routes: rankRoutes(preferred.routes, request) };
+      const limitResult = this.tokenLimiter.applyLimit(rankedResult, request.max_tokens);
 
-      return {
+      const response: RouteSearchResponse = {
         routes: limitResult.data.routes,
         truncated: limitResult.truncated
       };
+      if (preferred.dropped.length > 0) {
+        response.dropped = preferred.dropped;
+      }
+      if (searchResult.parse_diagnostics) {
+        response.parse_diagnostics = searchResult.parse_diagnostics;
+      }
+      const nextCursor = encodeRouteCursor(response.routes, fingerprint, request.datetime_type, cursor);
+      if (nextCursor) {
+        response.cursor = nextCursor;
+      }
+      return response;
 
     } catch (error) {
       if (error instanceof Error) {
-        // 既知のエラータイプの場合はそのまま再スロー
-        if (this.isKnownError(error)) {
+        // 上流に接続できない場合は概算ルートで代替
+        if (this.offlineRouting && this.isUpstreamUnavailable(error)) {
+          return await this.planOffline(request);
+        }
+
+        // 見つからない駅・バス停名には名前の近い候補を添える
+        if (error instanceof StopNotFoundError) {
+          throw await this.stopSearchService.addSuggestions(error, request.language);
+        }
+
+        // 分類済みのエラーはそのまま再スロー
+        if (error instanceof ToolError) {
           throw error;
         }
 
@@ -82,6 +148,11 @@ export class RouteSearchByNameService {
           throw this.createNetworkError(error.message);
         }
 
+        // 再試行しても上流サイトから取得できなかった場合の処理
+        if (this.isUpstreamUnavailable(error)) {
+          throw this.createUpstreamUnavailableError(error.message);
+        }
+
         // その他のエラーは内部エラーとして処理
         throw this.createInternalError(error.message);
       }
@@ -109,24 +180,119 @@ export class RouteSearchByNameService {
   }
 
   /**
-   * 既知のエラータイプかどうかを判定
+   * 指定日時でルート検索HTMLを取得して解析
+   */
+  private async searchAt(request: RouteSearchByNameRequest, datetime: string, datetimeType: DateTimeType): Promise<RouteSearchResponse> {
+    // HTML取得
+    const html = await this.fetcher.fetchByName(
+      request.from_station,
+      request.to_station,
+      datetime,
+      datetimeType,
+      request.language,
+      {
+        viaStation: request.via_station,
+        allowedModes: request.allowed_modes,
+        excludedCompanies: request.excluded_companies
+      }
+    );
+
+    // HTML解析
+    const parseResult = this.parser.parseHtml(html, request.language);
+
+    // 結果ページの形式が変わった場合は駅が見つからないエラーと区別する
+    if (isUpstreamFormatChanged(parseResult.parse_diagnostics)) {
+      throw this.createUpstreamFormatError(parseResult.parse_diagnostics!);
+    }
+
+    return parseResult;
+  }
+
+  /**
+   * カーソルの前後のルートを検索（返却済みのルートは除外）
+   * 新しいルートが見つかるまで SEARCH_NEXT_INTERVAL_TIME ずつ検索時刻をずらす
+   */
+  private async searchPage(request: RouteSearchByNameRequest, cursor: RouteCursor): Promise<RouteSearchResponse> {
+    for (let shift = 1; shift <= MAX_PAGE_SHIFTS; shift++) {
+      const query = resolvePageQuery(cursor, request.page ?? 'next', shift);
+      const result = await this.searchAt(request, query.datetime, query.datetime_type);
+      const routes = excludeSeenRoutes(result.routes, cursor);
+      if (routes.length > 0) {
+        return { routes, truncated: false, parse_diagnostics: result.parse_diagnostics };
+      }
+    }
+    return { routes: [], truncated: false };
+  }
+
+  /**
+   * マスターデータから概算ルートを検索（estimated: true）
+   */
+  private async planOffline(request: RouteSearchByNameRequest): Promise<RouteSearchResponse> {
+    let planResult: RouteSearchResponse;
+    try {
+      planResult = await this.offlineRouting!.planner.planByName(request);
+    } catch (error) {
+      // 上流サイトの代わりに使う場合も、見つからない駅・バス停名には名前の近い候補を添える
+      if (error instanceof StopNotFoundError) {
+        throw await this.stopSearchService.addSuggestions(error, request.language);
+      }
+      throw error;
+    }
+    const preferred = await this.applyPreferences(planResult.routes, request);
+    const rankedResult = { ...planResult, routes: rankRoutes(preferred.routes, request) };
+    const limitResult = this.tokenLimiter.applyLimit(rankedResult, request.max_tokens);
+
+    const response: RouteSearchResponse = {
+      routes: limitResult.data.routes,
+      truncated: limitResult.truncated
+    };
+    if (preferred.dropped.length > 0) {
+      response.dropped = preferred.dropped;
+    }
+    return response;
+  }
+
+  /**
+   * allowed_modes / excluded_companies の指定がある場合にマスターデータを読み込む
+   * @throws Error 存在しない事業者 ID が指定された場合
    */
-  private isKnownError(error: Error): boolean {
-    return error.message.includes('400') ||
-      error.message.includes('404') ||
-      error.message.includes('503') ||
-      error.message.includes('Stop not found') ||
-      error.message.includes('Invalid') ||
-      error.message.includes('Missing required parameter') ||
-      (error as any).code === 404 ||
-      (error as any).code === 503;
+  private async loadPreferenceMaster(request: RouteSearchByNameRequest): Promise<Master | null> {
+    if (!hasRoutePreferences(request)) {
+      return null;
+    }
+    const master = await this.masterDataLoader.loadMaster(request.language);
+    validateCompanyIds(request.excluded_companies, master);
+    return master;
+  }
+
+  /**
+   * allowed_modes / excluded_companies に合わないルートを除外
+   */
+  private async applyPreferences(routes: Route[], request: RouteSearchByNameRequest): Promise<{ routes: Route[]; dropped: DroppedRoute[] }> {
+    const master = await this.loadPreferenceMaster(request);
+    return master ? applyRoutePreferences(routes, request, master) : { routes, dropped: [] };
+  }
+
+  /**
+   * 上流サイトに接続できない（取得失敗・タイムアウト・ネットワークエラー）かどうかを判定
+   */
+  private isUpstreamUnavailable(error: Error): boolean {
+    const errorCode = getErrorCode(error);
+    const errorMessage = error.message.toLowerCase();
+
+    return errorMessage.includes('failed to fetch route html') ||
+      errorMessage.includes('timeout') ||
+      errorMessage.includes('econnaborted') ||
+      errorMessage.includes('enotfound') ||
+      errorMessage.includes('network error') ||
+      (errorCode !== undefined && ['ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'ECONNREFUSED', 'ENETUNREACH'].includes(errorCode));
   }
 
   /**
    * タイムアウトエラーかどうかを判定
    */
   private isTimeoutError(error: Error): boolean {
-    const errorCode = (error as any).code;
+    const errorCode = getErrorCode(error);
     const errorMessage = error.message.toLowerCase();
 
     return errorMessage.includes('timeout') ||
@@ -139,7 +305,7 @@ export class RouteSearchByNameService {
    * ネットワークエラーかどうかを判定
    */
   private isNetworkError(error: Error): boolean {
-    const errorCode = (error as any).code;
+    const errorCode = getErrorCode(error);
     const errorMessage = error.message.toLowerCase();
 
     return errorCode === 'ENOTFOUND' ||
@@ -152,53 +318,50 @@ export class RouteSearchByNameService {
   /**
    * 駅が見つからないエラーを作成
    */
-  private createStopNotFoundError(fromStation: string, toStation: string): Error {
-    const error = new Error(`Stop not found: ${fromStation} -> ${toStation}`);
-    (error as any).code = 404;
-    (error as any).details = {
+  private createStopNotFoundError(fromStation: string, toStation: string): StopNotFoundError {
+    return new StopNotFoundError(`Stop not found: ${fromStation} -> ${toStation}`, {
       from_station: fromStation,
-      to_station: toStation,
-      cause: 'stop_not_found'
-    };
-    return error;
+      to_station: toStation
+    });
+  }
+
+  /**
+   * 上流サイトの結果ページの形式が変わったエラーを作成
+   */
+  private createUpstreamFormatError(diagnostics: ParseDiagnostics): UpstreamFormatError {
+    const missing = diagnostics.missing_anchors.length > 0 ? diagnostics.missing_anchors.join(', ') : 'none';
+    return new UpstreamFormatError(
+      `Upstream format changed: no routes could be parsed from the result page (missing: ${missing})`,
+      diagnostics
+    );
   }
 
   /**
    * タイムアウトエラーを作成
    */
-  private createTimeoutError(): Error {
-    const error = new Error('Service temporarily unavailable - timeout');
-    (error as any).code = 503;
-    (error as any).details = {
-      cause: 'upstream_timeout'
-    };
-    return error;
+  private createTimeoutError(): UpstreamTimeoutError {
+    return new UpstreamTimeoutError('Service temporarily unavailable - timeout');
   }
 
   /**
    * ネットワークエラーを作成
    */
-  private createNetworkError(message: string): Error {
-    const error = new Error(`Network error: ${message}`);
-    (error as any).code = 503;
-    (error as any).details = {
-      cause: 'network_error',
-      original_message: message
-    };
-    return error;
+  private createNetworkError(message: string): UpstreamNetworkError {
+    return new UpstreamNetworkError(`Network error: ${message}`, { original_message: message });
+  }
+
+  /**
+   * 上流サイトから取得できないエラーを作成
+   */
+  private createUpstreamUnavailableError(message: string): UpstreamUnavailableError {
+    return new UpstreamUnavailableError(`Upstream service unavailable: ${message}`, { original_message: message });
   }
 
   /**
    * 内部エラーを作成
    */
-  private createInternalError(message: string): Error {
-    const error = new Error(`Internal server error: ${message}`);
-    (error as any).code = 500;
-    (error as any).details = {
-      cause: 'internal_error',
-      original_message: message
-    };
-    return error;
+  private createInternalError(message: string): InternalError {
+    return new InternalError(`Internal server error: ${message}`, { original_message: message });
   }
 
   /**
@@ -206,5 +369,8 @@ export class RouteSearchByNameService {
    */
   dispose(): void {
     this.tokenLimiter.destroy();
+    if (this.ownsStopSearchService) {
+      this.stopSearchService.destroy();
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,222 @@
+import {
+  StopDetailsRequest,
+  StopDetailsResponse,
+  StopDetails,
+  StopGroup,
+  StopLine,
+  SiblingStop,
+  StopRecord,
+  Master,
+  Language,
+} from '../types/index.js';
+import { MasterDataLoader } from './MasterDataLoader.js';
+import { TokenLimiter } from '../utils/TokenLimiter.js';
+import { RequestValidator } from '../utils/RequestValidator.js';
+import { StopNotFoundError } from '../utils/ToolErrors.js';
+
+/**
+ * Tool 5: get_stop_details の実装
+ * 駅・バス停・ランドマークのIDから座標・事業者・同名停留所グループ・経由路線を返すサービス
+ */
+export class StopDetailsService {
+  private masterDataLoader: MasterDataLoader;
+  private tokenLimiter: TokenLimiter;
+  private requestValidator: RequestValidator;
+
+  constructor(masterDataLoader?: MasterDataLoader) {
+    this.masterDataLoader = masterDataLoader || new MasterDataLoader();
+    this.tokenLimiter = new TokenLimiter();
+    this.requestValidator = new RequestValidator();
+  }
+
+  /**
+   * IDから駅・バス停・ランドマークの詳細を取得する
+   * @param request 詳細取得リクエスト
+   * @returns 詳細情報
+   * @throws Error IDに該当する駅・バス停・ランドマークがない場合
+   */
+  async getDetails(request: StopDetailsRequest): Promise<StopDetailsResponse> {
+    // 入力検証
+    this.requestValidator.validateStopDetailsRequest(request);
+
+    const response = request.id.startsWith('LM')
+      ? await this.getLandmarkDetails(request.id, request.language)
+      : await this.getStopDetails(request.id, request.language);
+
+    // トークン制限を適用
+    const limitResult = this.tokenLimiter.applyLimit(response, request.max_tokens);
+    const limited = limitResult.data as StopDetailsResponse;
+
+    const result: StopDetailsResponse = {
+      stop: limited.stop ?? response.stop,
+      lines: limited.lines ?? [],
+      truncated: limitResult.truncated
+    };
+    if (limited.group) {
+      result.group = limited.group;
+    }
+    return result;
+  }
+
+  /**
+   * 駅・バス停の詳細を組み立てる
+   */
+  private async getStopDetails(id: string, language: Language): Promise<StopDetailsResponse> {
+    const [stops, master] = await Promise.all([
+      this.masterDataLoader.loadStops(language),
+      this.masterDataLoader.loadMaster(language)
+    ]);
+
+    const stop = stops.find(record => record.id === id);
+    if (!stop) {
+      throw new StopNotFoundError(`Stop not found: ${id}`, { stop_id: id });
+    }
+
+    const companyId = this.parseCompanyId(id);
+    const company = master.company[companyId.toString()];
+
+    const details: StopDetails = {
+      name: this.displayName(stop, language),
+      kind: stop.kind,
+      id: stop.id,
+      lat: stop.lat,
+      lng: stop.lng
+    };
+    if (stop.yomi) {
+      details.yomi = stop.yomi;
+    }
+    if (company) {
+      details.agency = {
+        id: companyId,
+        name: company.name,
+        type: company.ekidiv === 'R' ? 'rail' : 'bus'
+      };
+    }
+
+    const response: StopDetailsResponse = {
+      stop: details,
+      lines: this.findLines(stop.name_ja, master),
+      truncated: false
+    };
+
+    const group = this.findGroup(stop.name_ja, stops, master, language);
+    if (group) {
+      response.group = group;
+    }
+
+    return response;
+  }
+
+  /**
+   * ランドマークの詳細を組み立てる（事業者・路線は持たない）
+   */
+  private async getLandmarkDetails(id: string, language: Language): Promise<StopDetailsResponse> {
+    const landmarks = await this.masterDataLoader.loadLandmarks(language);
+    const landmark = landmarks.find(record => record.id === id);
+    if (!landmark) {
+      throw new StopNotFoundError(`Stop not found: ${id}`, { stop_id: id });
+    }
+
+    const details: StopDetails = {
+      name: language === 'ja' ? landmark.name_ja : landmark.name_en,
+      kind: 'landmark',
+      id: landmark.id,
+      lat: landmark.lat,
+      lng: landmark.lng,
+      category: landmark.category
+    };
+    if (landmark.yomi) {
+      details.yomi = landmark.yomi;
+    }
+
+    return {
+      stop: details,
+      lines: [],
+      truncated: false
+    };
+  }
+
+  /**
+   * 駅・バス停を経由する路線（Rosen）を列挙する
+   * Rosen.stations は言語によらず日本語の駅名（事業者名付き）で記録されている
+   */
+  private findLines(stationName: string, master: Master): StopLine[] {
+    const rosenIds = master.rosen_byorder?.length
+      ? master.rosen_byorder.map(id => id.toString())
+      : Object.keys(master.rosen);
+
+    const lines: StopLine[] = [];
+    for (const rosenId of rosenIds) {
+      const rosen = master.rosen[rosenId];
+      if (!rosen || !rosen.stations.includes(stationName)) {
+        continue;
+      }
+
+      const line: StopLine = {
+        id: rosenId,
+        name: rosen.name,
+        agency: master.company[rosen.companyid.toString()]?.name ?? ''
+      };
+      if (rosen.dest) {
+        line.dest = rosen.dest;
+      }
+      if (rosen.expl) {
+        line.description = rosen.expl;
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * 駅・バス停が属する StationSelect グループ（同名の事業者違い停留所）を取得する
+   */
+  private findGroup(stationName: string, stops: StopRecord[], master: Master, language: Language): StopGroup | null {
+    const entry = Object.entries(master.stationselect).find(([, select]) =>
+      select.stationnames.some(name => name.stationname === stationName)
+    );
+    if (!entry) {
+      return null;
+    }
+
+    const [groupName, select] = entry;
+    const siblings: SiblingStop[] = [];
+    for (const { stationname } of select.stationnames) {
+      const sibling = stops.find(record => record.name_ja === stationname);
+      if (!sibling) {
+        continue;
+      }
+      const candidate: SiblingStop = {
+        name: this.displayName(sibling, language),
+        kind: sibling.kind,
+        id: sibling.id
+      };
+      const company = master.company[this.parseCompanyId(sibling.id).toString()];
+      if (company) {
+        candidate.agency = company.name;
+      }
+      siblings.push(candidate);
+    }
+
+    return { name: groupName, stops: siblings };
+  }
+
+  /**
+   * ID（"B:200_xxx" / "T:100_xxx"）から会社IDを取り出す
+   */
+  private parseCompanyId(id: string): number {
+    const match = id.match(/^[BT]:(\d+)_/);
+    return match ? parseInt(match[1]) : 0;
+  }
+
+  private displayName(stop: StopRecord, language: Language): string {
+    return language === 'ja' ? stop.name_ja : stop.name_en;
+  }
+
+  /**
+   * リソースのクリーンアップ
+   */
+  destroy(): void {
+    this.tokenLimiter.destroy();
+  }
+}
@@ -0,0 +1,143 @@
+import { StopSearchByGeoRequest, StopSearchByGeoResponse, NearbyStopCandidate, Language } from '../types/index.js';
+import { MasterDataLoader } from './MasterDataLoader.js';
+import { TokenLimiter } from '../utils/TokenLimiter.js';
+import { RequestValidator } from '../utils/RequestValidator.js';
+import { calculateDistanceMeters, estimateWalkingMinutes } from '../utils/GeoDistance.js';
+
+const DEFAULT_RADIUS_M = 1000;
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Tool 4: search_stop_by_geo の実装
+ * 緯度経度から近くの駅・バス停・ランドマークを距離順に検索するサービス
+ */
+export class StopSearchByGeoService {
+  private masterDataLoader: MasterDataLoader;
+  private tokenLimiter: TokenLimiter;
+  private requestValidator: RequestValidator;
+
+  constructor(masterDataLoader?: MasterDataLoader) {
+    this.masterDataLoader = masterDataLoader || new MasterDataLoader();
+    this.tokenLimiter = new TokenLimiter();
+    this.requestValidator = new RequestValidator();
+  }
+
+  /**
+   * 指定地点の近くにある駅・バス停・ランドマークを検索する
+   * @param request 検索リクエスト
+   * @returns 距離の近い順の検索結果
+   */
+  async search(request: StopSearchByGeoRequest): Promise<StopSearchByGeoResponse> {
+    // 入力検証
+    this.requestValidator.validateStopSearchByGeoRequest(request);
+
+    const [lat, lng] = request.latlng.split(',').map(Number);
+    const radius = request.radius_m ?? DEFAULT_RADIUS_M;
+    const limit = request.limit ?? DEFAULT_LIMIT;
+
+    const candidates = (await this.collectCandidates(lat, lng, request.language, request.kind))
+      .filter(candidate => candidate.distance_m <= radius)
+      .sort((a, b) => a.distance_m - b.distance_m)
+      .slice(0, limit);
+
+    // トークン制限を適用
+    const response: StopSearchByGeoResponse = {
+      candidates,
+      truncated: false
+    };
+
+    const limitResult = this.tokenLimiter.applyLimit(response, request.max_tokens);
+
+    return {
+      candidates: (limitResult.data as StopSearchByGeoResponse).candidates,
+      truncated: limitResult.truncated
+    };
+  }
+
+  /**
+   * 種別フィルタを適用して全候補の距離を計算
+   */
+  private async collectCandidates(
+    lat: number,
+    lng: number,
+    language: Language,
+    kind?: NearbyStopCandidate['kind']
+  ): Promise<NearbyStopCandidate[]> {
+    const candidates: NearbyStopCandidate[] = [];
+
+    if (kind !== 'landmark') {
+      const stops = await this.masterDataLoader.loadStops(language);
+      for (const stop of stops) {
+        if (kind && stop.kind !== kind) {
+          continue;
+        }
+        candidates.push(this.createCandidate(
+          language === 'ja' ? stop.name_ja : stop.name_en,
+          stop.kind,
+          stop.id,
+          stop.lat,
+          stop.lng,
+          lat,
+          lng,
+          stop.agency
+        ));
+      }
+    }
+
+    if (!kind || kind === 'landmark') {
+      const landmarks = await this.masterDataLoader.loadLandmarks(language);
+      for (const landmark of landmarks) {
+        if (!landmark.lat || !landmark.lng) {
+          continue;
+        }
+        candidates.push(this.createCandidate(
+          language === 'ja' ? landmark.name_ja : landmark.name_en,
+          'landmark',
+          landmark.id,
+          landmark.lat,
+          landmark.lng,
+          lat,
+          lng
+        ));
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * 距離と徒歩時間付きの候補を作成
+   */
+  private createCandidate(
+    name: string,
+    kind: NearbyStopCandidate['kind'],
+    id: string,
+    stopLat: number,
+    stopLng: number,
+    originLat: number,
+    originLng: number,
+    agency?: string
+  ): NearbyStopCandidate {
+    const distance = Math.round(calculateDistanceMeters(originLat, originLng, stopLat, stopLng));
+    const candidate: NearbyStopCandidate = {
+      name,
+      kind,
+      id,
+      lat: stopLat,
+      lng: stopLng,
+      distance_m: distance,
+      walk_min: estimateWalkingMinutes(distance)
+    };
+    if (agency) {
+      candidate.agency = agency;
+    }
+    return candidate;
+  }
+
+  /**
+   * リソースのクリーンアップ
+   */
+  destroy(): void {
+    this.tokenLimiter.destroy();
+  }
+}
@@ -1,7 +1,47 @@
-import { StopSearchRequest, StopSearchResponse, StopCandidate, StopRecord, LandmarkRecord, Language } from '../types/index.js';
+import { StopSearchRequest, StopSearchResponse, StopCandidate, StopMatchType, StopRecord, LandmarkRecord, Language } from '../types/index.js';
 import { MasterDataLoader } from './MasterDataLoader.js';
 import { TokenLimiter } from '../utils/TokenLimiter.js';
 import { RequestValidator } from '../utils/RequestValidator.js';
+import { toHepburn, normalizeRomaji } from '../utils/Romanizer.js';
+import { fuzzySimilarity } from '../utils/FuzzyMatcher.js';
+import { StopNotFoundError } from '../utils/ToolErrors.js';
+
+/**
+ * 読み（ひらがな）一致のスコア倍率
+ */
+const READING_SCORE_WEIGHT = 0.9;
+
+/**
+ * ローマ字読み一致のスコア倍率
+ */
+const ROMAJI_SCORE_WEIGHT = 0.85;
+
+/**
+ * 曖昧一致の最大スコア（部分一致より低い段階）
+ */
+const FUZZY_MAX_SCORE = 30;
+
+/**
+ * 曖昧一致とみなす類似度のデフォルト閾値
+ */
+export const DEFAULT_FUZZY_THRESHOLD = 0.65;
+
+/**
+ * 見つからない駅・バス停名に添える候補の最大数
+ */
+const MAX_STOP_SUGGESTIONS = 5;
+
+/**
+ * 候補の検索に使うトークン数の上限
+ */
+const STOP_SUGGESTION_MAX_TOKENS = 1000;
+
+/**
+ * StopSearchServiceのオプション
+ */
+export interface StopSearchOptions {
+  fuzzyThreshold?: number; // 0-1、1 で曖昧一致を無効化
+}
 
 /**
  * 検索結果の関連度情報
@@ -11,16 +51,28 @@ interface SearchMatch {
   relevanceScore: number;
 }
 
+/**
+ * 照合用に正規化したクエリ
+ */
+interface NormalizedQuery {
+  text: string;
+  romaji: string | null; // ラテン文字のみのクエリの場合のみ
+}
+
 /**
  * 駅・バス停・ランドマークの部分一致検索サービス
+ * 表示名に加えて、ひらがな読みとそのヘボン式ローマ字でも検索できる
  */
 export class StopSearchService {
   private masterDataLoader: MasterDataLoader;
   private tokenLimiter: TokenLimiter;
   private requestValidator: RequestValidator;
+  private romajiReadings: Map<string, string> = new Map();
+  private fuzzyThreshold: number;
 
-  constructor() {
+  constructor(options: StopSearchOptions = {}) {
     this.masterDataLoader = new MasterDataLoader();
+    this.fuzzyThreshold = options.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD;
     this.tokenLimiter = new TokenLimiter();
     this.requestValidator = new RequestValidator();
   }
@@ -71,6 +123,30 @@ export class StopSearchService {
     };
   }
 
+  /**
+   * 駅・バス停が見つからないエラーに、名前の近い候補を suggestions として添える
+   * 見つからない名前が1つの場合（details.station がある場合）のみ。事業者名を除いた名前で検索する
+   * @param error 駅・バス停が見つからないエラー
+   * @param language 言語
+   * @returns 候補を添えたエラー（添えられない場合は元のエラー）
+   */
+  async addSuggestions(error: StopNotFoundError, language: Language): Promise<StopNotFoundError> {
+    const station = error.details.station;
+    if (typeof station !== 'string' || error.details.suggestions) {
+      return error;
+    }
+
+    const result = await this.search({
+      language,
+      max_tokens: STOP_SUGGESTION_MAX_TOKENS,
+      query: station.replace(/\([^)]+\)$/, '')
+    });
+    return new StopNotFoundError(error.message, {
+      ...error.details,
+      suggestions: result.candidates.slice(0, MAX_STOP_SUGGESTIONS)
+    });
+  }
+
   /**
    * 検索を実行する
    * @param query 検索クエリ
@@ -85,32 +161,27 @@ export class StopSearchService {
     landmarks: LandmarkRecord[], 
     language: Language
   ): SearchMatch[] {
-    const normalizedQuery = this.normalizeSearchTerm(query);
+    const normalizedQuery: NormalizedQuery = {
+      text: this.normalizeSearchTerm(query),
+      romaji: this.isLatinQuery(query) ? normalizeRomaji(query) : null
+    };
     const matches: SearchMatch[] = [];
 
     // 駅・バス停を検索
     for (const stop of stops) {
       const primaryName = language === 'ja' ? stop.name_ja : stop.name_en;
       const secondaryName = language === 'ja' ? stop.name_en : stop.name_ja;
-      
-      // 主要言語での検索
-      const normalizedPrimaryName = this.normalizeSearchTerm(primaryName);
-      const primaryScore = this.calculateRelevanceScore(normalizedQuery, normalizedPrimaryName);
-      
-      // 補助言語での検索（スコアを少し下げる）
-      const normalizedSecondaryName = this.normalizeSearchTerm(secondaryName);
-      const secondaryScore = this.calculateRelevanceScore(normalizedQuery, normalizedSecondaryName) * 0.8;
-      
-      const relevanceScore = Math.max(primaryScore, secondaryScore);
-
-      if (relevanceScore > 0) {
+      const result = this.matchRecord(normalizedQuery, primaryName, secondaryName, stop.yomi);
+
+      if (result) {
         matches.push({
           candidate: {
             name: primaryName,
             kind: stop.kind,
-            id: stop.id
+            id: stop.id,
+            match_type: result.matchType
           },
-          relevanceScore
+          relevanceScore: result.relevanceScore
         });
       }
     }
@@ -119,25 +190,17 @@ export class StopSearchService {
     for (const landmark of landmarks) {
       const primaryName = language === 'ja' ? landmark.name_ja : landmark.name_en;
       const secondaryName = language === 'ja' ? landmark.name_en : landmark.name_ja;
-      
-      // 主要言語での検索
-      const normalizedPrimaryName = this.normalizeSearchTerm(primaryName);
-      const primaryScore = this.calculateRelevanceScore(normalizedQuery, normalizedPrimaryName);
-      
-      // 補助言語での検索（スコアを少し下げる）
-      const normalizedSecondaryName = this.normalizeSearchTerm(secondaryName);
-      const secondaryScore = this.calculateRelevanceScore(normalizedQuery, normalizedSecondaryName) * 0.8;
-      
-      const relevanceScore = Math.max(primaryScore, secondaryScore);
-
-      if (relevanceScore > 0) {
+      const result = this.matchRecord(normalizedQuery, primaryName, secondaryName, landmark.yomi);
+
+      if (result) {
         matches.push({
           candidate: {
             name: primaryName,
             kind: 'landmark',
-            id: landmark.id
+            id: landmark.id,
+            match_type: result.matchType
           },
-          relevanceScore
+          relevanceScore: result.relevanceScore
         });
       }
     }
@@ -145,6 +208,58 @@ export class StopSearchService {
     return matches;
   }
 
+  /**
+   * 1件の駅・バス停・ランドマークとクエリを照合する
+   * 表示名 → 読み → 曖昧一致の順に段階的にスコアを計算する
+   * @param query 正規化されたクエリ
+   * @param primaryName 応答言語での名称
+   * @param secondaryName もう一方の言語での名称
+   * @param yomi ひらがな読み
+   * @returns 関連度スコアと一致種別（一致しない場合はnull）
+   */
+  private matchRecord(
+    query: NormalizedQuery,
+    primaryName: string,
+    secondaryName: string,
+    yomi?: string
+  ): { relevanceScore: number; matchType: StopMatchType } | null {
+    // 主要言語での検索
+    const normalizedPrimaryName = this.normalizeSearchTerm(primaryName);
+    const primaryScore = this.calculateRelevanceScore(query.text, normalizedPrimaryName);
+
+    // 補助言語での検索（スコアを少し下げる）
+    const normalizedSecondaryName = this.normalizeSearchTerm(secondaryName);
+    const secondaryScore = this.calculateRelevanceScore(query.text, normalizedSecondaryName) * 0.8;
+
+    const nameScore = Math.max(primaryScore, secondaryScore);
+    const readingScore = this.calculateReadingScore(query, yomi);
+
+    if (nameScore > 0 && nameScore >= readingScore) {
+      const isExact = query.text === normalizedPrimaryName || query.text === normalizedSecondaryName;
+      return { relevanceScore: nameScore, matchType: isExact ? 'exact' : 'partial' };
+    }
+    if (readingScore > 0) {
+      return { relevanceScore: readingScore, matchType: 'reading' };
+    }
+
+    // 曖昧一致（フォールバック）
+    const pairs: [string, string][] = [
+      [query.text, normalizedPrimaryName],
+      [query.text, normalizedSecondaryName]
+    ];
+    if (yomi) {
+      pairs.push(query.romaji
+        ? [query.romaji, this.getRomajiReading(yomi)]
+        : [query.text, this.normalizeSearchTerm(yomi)]);
+    }
+    const similarity = Math.max(...pairs.map(([q, target]) => fuzzySimilarity(q, target)));
+    if (similarity >= this.fuzzyThreshold) {
+      return { relevanceScore: similarity * FUZZY_MAX_SCORE, matchType: 'fuzzy' };
+    }
+
+    return null;
+  }
+
   /**
    * 検索語を正規化する
    * @param term 検索語
@@ -200,6 +315,49 @@ export class StopSearchService {
     return Math.min(60, positionScore + lengthScore);
   }
 
+  /**
+   * 読みによる関連度スコアを計算する
+   * かなクエリはひらがな読み、ラテン文字クエリはヘボン式ローマ字読みと照合する
+   * @param query 正規化されたクエリ
+   * @param yomi ひらがな読み
+   * @returns 関連度スコア（表示名一致より低い独自の段階）
+   */
+  private calculateReadingScore(query: NormalizedQuery, yomi?: string): number {
+    if (!yomi) {
+      return 0;
+    }
+
+    if (query.romaji) {
+      return this.calculateRelevanceScore(query.romaji, this.getRomajiReading(yomi)) * ROMAJI_SCORE_WEIGHT;
+    }
+
+    return this.calculateRelevanceScore(query.text, this.normalizeSearchTerm(yomi)) * READING_SCORE_WEIGHT;
+  }
+
+  /**
+   * 読みを照合用のローマ字に変換する（結果はキャッシュ）
+   * @param yomi ひらがな読み
+   * @returns 正規化済みローマ字
+   */
+  private getRomajiReading(yomi: string): string {
+    let romaji = this.romajiReadings.get(yomi);
+    if (romaji === undefined) {
+      romaji = normalizeRomaji(toHepburn(yomi));
+      this.romajiReadings.set(yomi, romaji);
+    }
+    return romaji;
+  }
+
+  /**
+   * ラテン文字（ローマ字）のみのクエリか判定する
+   * @param query 検索クエリ
+   * @returns ローマ字として照合すべき場合はtrue
+   */
+  private isLatinQuery(query: string): boolean {
+    const text = query.normalize('NFKC');
+    return /[a-z]/i.test(text) && !/[^\x00-\x7f\u00c0-\u024f]/.test(text);
+  }
+
   /**
    * リソースのクリーンアップ
    */
@@ -0,0 +1,335 @@
+import { MasterDataLoader } from './MasterDataLoader.js';
+import { RouteSearchByNameService } from './RouteSearchByNameService.js';
+import { StopSearchService } from './StopSearchService.js';
+import { TokenLimiter } from '../utils/TokenLimiter.js';
+import { RequestValidator } from '../utils/RequestValidator.js';
+import { calculateDistanceMeters, estimateWalkingMinutes } from '../utils/GeoDistance.js';
+import { addMinutes, formatJstIso, parseJstDateTime, JstDateTime } from '../utils/JstTime.js';
+import { StopNotFoundError } from '../utils/ToolErrors.js';
+import {
+  Language,
+  VisitOrderRequest,
+  VisitOrderResponse,
+  VisitOrderStop
+} from '../types/index.js';
+
+/**
+ * 直線距離に対する道のりの比
+ */
+const ROAD_DETOUR_FACTOR = 1.3;
+
+/**
+ * 徒歩のみで移動するとみなす上限距離（メートル、直線距離）
+ */
+const WALK_ONLY_METERS = 1000;
+
+/**
+ * 公共交通の表定速度（メートル/分、市バス相当で約15km/h）
+ */
+const TRANSIT_METERS_PER_MINUTE = 250;
+
+/**
+ * 公共交通を使う場合の停留所までの徒歩・待ち時間（分）
+ */
+const TRANSIT_OVERHEAD_MINUTES = 15;
+
+/**
+ * 2地点間のルート検索に使うトークン数の上限
+ * 所要時間を求めるための検索のため、呼び出し側の max_tokens ではルートを切り捨てない
+ */
+export const PAIR_SEARCH_MAX_TOKENS = 100000;
+
+/**
+ * 出発地またはランドマーク
+ */
+interface VisitPoint {
+  id: string;
+  name: string;        // 応答言語での名称
+  query: string;       // travel_time: search でのルート検索名
+  lat: number;
+  lng: number;
+}
+
+/**
+ * 2地点間の移動時間
+ */
+interface TravelTime {
+  minutes: number;
+  estimated: boolean;  // travel_time: search で検索できず距離から推定した場合 true
+}
+
+/**
+ * Tool 10: optimize_visit_order の実装
+ * 出発地と順不同のランドマークから、移動時間の合計が最短になる訪問順を求める
+ */
+export class VisitOrderService {
+  private readonly masterDataLoader: MasterDataLoader;
+  private readonly routeSearchService: RouteSearchByNameService;
+  private readonly tokenLimiter: TokenLimiter;
+  private readonly validator: RequestValidator;
+  private readonly stopSearchService: StopSearchService;
+  private readonly ownsStopSearchService: boolean; // 渡された検索サービスは渡した側で破棄する
+
+  constructor(
+    masterDataLoader?: MasterDataLoader,
+    routeSearchService?: RouteSearchByNameService,
+    tokenLimiter?: TokenLimiter,
+    validator?: RequestValidator,
+    stopSearchService?: StopSearchService
+  ) {
+    this.masterDataLoader = masterDataLoader || new MasterDataLoader();
+    this.routeSearchService = routeSearchService || new RouteSearchByNameService();
+    this.tokenLimiter = tokenLimiter || new TokenLimiter();
+    this.validator = validator || new RequestValidator();
+    this.stopSearchService = stopSearchService || new StopSearchService();
+    this.ownsStopSearchService = !stopSearchService;
+  }
+
+  /**
+   * 訪問順を最適化
+   * 移動時間は estimate では直線距離から、search では出発日時での上流サイトのルート検索から求める
+   * @throws Error 出発地・ランドマークが見つからない場合
+   */
+  async optimize(request: VisitOrderRequest): Promise<VisitOrderResponse> {
+    this.validator.validateVisitOrderRequest(request);
+
+    const travelTime = request.travel_time ?? 'estimate';
+    const start = await this.resolveStart(request.start, request.language);
+    const landmarks = await this.resolveLandmarks(request.landmark_ids, request.language);
+
+    // 0 番目が出発地、1 番目以降がランドマーク
+    const points = [start, ...landmarks];
+    const matrix = travelTime === 'search'
+      ? await this.searchTravelTimes(points, request)
+      : this.estimateTravelTimes(points);
+
+    const returnToStart = request.return_to_start ?? false;
+    const order = this.findShortestOrder(matrix, landmarks.length, returnToStart);
+
+    // 訪問順に到着・出発時刻を割り当てる
+    const stayMin = request.stay_min ?? 0;
+    let clock: JstDateTime = parseJstDateTime(request.datetime);
+    let previous = 0;
+    let totalTravelMin = 0;
+    const stops: VisitOrderStop[] = order.map((pointIndex, index) => {
+      const travel = matrix[previous][pointIndex];
+      const arrive = addMinutes(clock, travel.minutes);
+      clock = addMinutes(arrive, stayMin);
+      previous = pointIndex;
+      totalTravelMin += travel.minutes;
+
+      const landmark = points[pointIndex];
+      const stop: VisitOrderStop = {
+        order: index + 1,
+        id: landmark.id,
+        name: landmark.name,
+        lat: landmark.lat,
+        lng: landmark.lng,
+        travel_min: travel.minutes,
+        arrive: formatJstIso(arrive),
+        depart: formatJstIso(clock)
+      };
+      if (travel.estimated) {
+        stop.estimated = true;
+      }
+      return stop;
+    });
+
+    const response: VisitOrderResponse = {
+      start: { name: start.name, lat: start.lat, lng: start.lng },
+      stops,
+      total_travel_min: totalTravelMin,
+      finish: formatJstIso(clock),
+      travel_time: travelTime,
+      truncated: false
+    };
+
+    if (returnToStart) {
+      const travel = matrix[previous][0];
+      clock = addMinutes(clock, travel.minutes);
+      response.return_leg = { travel_min: travel.minutes, arrive: formatJstIso(clock) };
+      if (travel.estimated) {
+        response.return_leg.estimated = true;
+      }
+      response.total_travel_min += travel.minutes;
+      response.finish = formatJstIso(clock);
+    }
+
+    // 出発地・合計・終了時刻は応答スキーマで必須のため、切り詰めるのは stops のみ
+    const limitResult = this.tokenLimiter.applyLimitToArray(response, 'stops', request.max_tokens);
+    return { ...limitResult.data, truncated: limitResult.truncated };
+  }
+
+  /**
+   * 出発地を解決（ランドマーク ID・ランドマーク名・駅名・バス停名の順）
+   * @throws AmbiguousStopError 事業者名なしの駅名に複数の事業者の候補がある場合
+   * @throws StopNotFoundError 見つからない場合（名前の近い候補を添える）
+   */
+  private async resolveStart(name: string, language: Language): Promise<VisitPoint> {
+    const trimmed = name.trim();
+    const landmarks = await this.masterDataLoader.loadLandmarks(language);
+    const landmark = landmarks.find(record =>
+      record.id === trimmed || record.name_ja === trimmed || record.name_en === trimmed
+    );
+    if (landmark) {
+      const landmarkName = language === 'en' ? landmark.name_en : landmark.name_ja;
+      return { id: landmark.id, name: landmarkName, query: landmarkName, lat: landmark.lat, lng: landmark.lng };
+    }
+
+    const stationName = await this.masterDataLoader.resolveStationName(trimmed, language);
+    const stops = await this.masterDataLoader.loadStops(language);
+    const stop = stationName ? stops.find(record => record.name_ja === stationName) : undefined;
+    if (!stop) {
+      // 見つからない駅・バス停名には名前の近い候補を添える
+      throw await this.stopSearchService.addSuggestions(
+        new StopNotFoundError(`Stop not found: ${name}`, { station: name }),
+        language
+      );
+    }
+
+    // 駅名・バス停名は指定された名前のままルート検索に渡す
+    return {
+      id: stop.id,
+      name: language === 'en' ? stop.name_en : stop.name_ja,
+      query: trimmed,
+      lat: stop.lat,
+      lng: stop.lng
+    };
+  }
+
+  /**
+   * ランドマーク ID を解決
+   */
+  private async resolveLandmarks(ids: string[], language: Language): Promise<VisitPoint[]> {
+    const landmarks = await this.masterDataLoader.loadLandmarks(language);
+    const byId = new Map(landmarks.map(landmark => [landmark.id, landmark]));
+
+    return ids.map(id => {
+      const landmark = byId.get(id.trim());
+      if (!landmark) {
+        throw new StopNotFoundError(`Stop not found: ${id}`, { landmark_id: id });
+      }
+      const landmarkName = language === 'en' ? landmark.name_en : landmark.name_ja;
+      return { id: landmark.id, name: landmarkName, query: landmarkName, lat: landmark.lat, lng: landmark.lng };
+    });
+  }
+
+  /**
+   * 直線距離から全地点間の移動時間を推定
+   */
+  private estimateTravelTimes(points: VisitPoint[]): TravelTime[][] {
+    return points.map(from => points.map(to => ({
+      minutes: this.estimateMinutes(from, to),
+      estimated: false
+    })));
+  }
+
+  /**
+   * 上流サイトのルート検索から全地点間の移動時間を求める
+   * 往復で所要時間はほぼ同じとみなし、2地点ごとに1回だけ検索する
+   * 検索できなかった区間は直線距離からの推定で補う
+   */
+  private async searchTravelTimes(points: VisitPoint[], request: VisitOrderRequest): Promise<TravelTime[][]> {
+    const matrix: TravelTime[][] = points.map(() => points.map(() => ({ minutes: 0, estimated: false })));
+
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const travel = await this.searchTravelTime(points[i], points[j], request);
+        matrix[i][j] = travel;
+        matrix[j][i] = travel;
+      }
+    }
+    return matrix;
+  }
+
+  /**
+   * 2地点間の最短所要時間をルート検索で求める
+   */
+  private async searchTravelTime(from: VisitPoint, to: VisitPoint, request: VisitOrderRequest): Promise<TravelTime> {
+    try {
+      const result = await this.routeSearchService.searchRoute({
+        language: request.language,
+        max_tokens: PAIR_SEARCH_MAX_TOKENS,
+        from_station: from.query,
+        to_station: to.query,
+        datetime_type: 'departure',
+        datetime: request.datetime
+      });
+      const durations = result.routes.map(route => route.summary.duration_min);
+      if (durations.length > 0) {
+        return { minutes: Math.min(...durations), estimated: false };
+      }
+    } catch {
+      // 検索できない区間は推定で補う
+    }
+    return { minutes: this.estimateMinutes(from, to), estimated: true };
+  }
+
+  /**
+   * 直線距離から移動時間（分）を推定
+   * 近距離は徒歩、それ以外は公共交通と徒歩の早い方とする
+   */
+  private estimateMinutes(from: VisitPoint, to: VisitPoint): number {
+    const meters = calculateDistanceMeters(from.lat, from.lng, to.lat, to.lng);
+    if (meters === 0) {
+      return 0;
+    }
+
+    const roadMeters = meters * ROAD_DETOUR_FACTOR;
+    const walkMinutes = estimateWalkingMinutes(roadMeters);
+    if (meters <= WALK_ONLY_METERS) {
+      return walkMinutes;
+    }
+    return Math.min(walkMinutes, Math.ceil(TRANSIT_OVERHEAD_MINUTES + roadMeters / TRANSIT_METERS_PER_MINUTE));
+  }
+
+  /**
+   * 移動時間の合計が最短になる訪問順を求める（分枝限定法による全探索）
+   * @param landmarkCount ランドマーク数（地点 1..landmarkCount）
+   * @returns 訪問する地点番号の並び
+   */
+  private findShortestOrder(matrix: TravelTime[][], landmarkCount: number, returnToStart: boolean): number[] {
+    let bestOrder: number[] = [];
+    let bestMinutes = Number.POSITIVE_INFINITY;
+    const visited = new Array<boolean>(landmarkCount + 1).fill(false);
+    const current: number[] = [];
+
+    const visit = (from: number, minutes: number): void => {
+      if (minutes >= bestMinutes) {
+        return;
+      }
+      if (current.length === landmarkCount) {
+        const total = returnToStart ? minutes + matrix[from][0].minutes : minutes;
+        if (total < bestMinutes) {
+          bestMinutes = total;
+          bestOrder = [...current];
+        }
+        return;
+      }
+
+      for (let next = 1; next <= landmarkCount; next++) {
+        if (visited[next]) {
+          continue;
+        }
+        visited[next] = true;
+        current.push(next);
+        visit(next, minutes + matrix[from][next].minutes);
+        current.pop();
+        visited[next] = false;
+      }
+    };
+
+    visit(0, 0);
+    return bestOrder;
+  }
+
+  /**
+   * リソースのクリーンアップ
+   */
+  dispose(): void {
+    this.tokenLimiter.destroy();
+    if (this.ownsStopSearchService) {
+      this.stopSearchService.destroy();
+    }
+  }
+}
@@ -15,10 +15,13 @@ export interface StopSearchRequest {
   query: string;
 }
 
+export type StopMatchType = 'exact' | 'partial' | 'reading' | 'fuzzy';
+
 export interface StopCandidate {
   name: string;
   kind: 'bus_stop' | 'train_station' | 'landmark';
   id: string;
+  match_type?: StopMatchType; // search_stop_by_substring のみ
 }
 
 export interface StopSearchResponse {
@@ -26,31 +29,191 @@ export interface StopSearchResponse {
   truncated: boolean;
 }
 
+// Tool 4: search_stop_by_geo
+export interface StopSearchByGeoRequest {
+  language: Language;
+  max_tokens: number;
+  latlng: string; // "lat,lng"
+  radius_m?: number;
+  limit?: number;
+  kind?: StopCandidate['kind'];
+}
+
+export interface NearbyStopCandidate extends StopCandidate {
+  agency?: string;
+  lat: number;
+  lng: number;
+  distance_m: number;
+  walk_min: number;
+}
+
+export interface StopSearchByGeoResponse {
+  candidates: NearbyStopCandidate[];
+  truncated: boolean;
+}
+
+// Tool 5: get_stop_details
+export interface StopDetailsRequest {
+  language: Language;
+  max_tokens: number;
+  id: string; // search_stop_by_substring が返すID
+}
+
+export interface StopAgency {
+  id: number;
+  name: string;
+  type: 'rail' | 'bus';
+}
+
+export interface StopLine {
+  id: string;
+  name: string;
+  agency: string;
+  dest?: string;
+  description?: string;
+}
+
+export interface SiblingStop extends StopCandidate {
+  agency?: string;
+}
+
+export interface StopDetails {
+  name: string;
+  kind: StopCandidate['kind'];
+  id: string;
+  lat: number;
+  lng: number;
+  yomi?: string;
+  agency?: StopAgency;
+  category?: string; // ランドマークのみ
+}
+
+export interface StopGroup {
+  name: string;
+  stops: SiblingStop[]; // 同名の駅・バス停（事業者違い）
+}
+
+export interface StopDetailsResponse {
+  stop: StopDetails;
+  lines: StopLine[];
+  group?: StopGroup;
+  truncated: boolean;
+}
+
+// Tool 6 & 7: Line (rosen) browsing
+export interface LineSearchRequest {
+  language: Language;
+  max_tokens: number;
+  query?: string;    // 路線名・行先・説明の部分一致
+  operator?: string; // 事業者名の部分一致、または会社ID
+}
+
+export interface LineSummary extends StopLine {
+  agency_id: number;
+  type: 'rail' | 'bus';
+  stop_count: number;
+}
+
+export interface LineSearchResponse {
+  lines: LineSummary[];
+  truncated: boolean;
+}
+
+export interface LineStopsRequest {
+  language: Language;
+  max_tokens: number;
+  line_id: string;
+}
+
+export interface LineStop {
+  order: number; // 1始まりの停車順
+  name: string;
+  id?: string;   // search_stop_by_substring / get_stop_details と共通のID
+  lat?: number;
+  lng?: number;
+}
+
+export interface LineStopsResponse {
+  line: LineSummary;
+  stops: LineStop[];
+  truncated: boolean;
+}
+
+// Tool 8: find_common_lines
+export interface CommonLinesRequest {
+  language: Language;
+  max_tokens: number;
+  from_station: string;
+  to_station: string;
+}
+
+export interface CommonLine extends LineSummary {
+  direction: 'forward' | 'reverse'; // forward: stations の並び順、reverse: 逆順
+  toward: string;                   // 進行方向の終点
+  from_stop: string;
+  to_stop: string;
+  intermediate_stops: number;       // 乗車停留所と降車停留所の間の停留所数
+}
+
+export interface CommonLinesResponse {
+  lines: CommonLine[];
+  truncated: boolean;
+}
+
 // Tool 2 & 3: Route search
-export interface RouteSearchByNameRequest {
+export type RoutePage = 'next' | 'previous';
+export type RouteSortKey = 'duration' | 'fare' | 'transfers' | 'walking' | 'arrival';
+
+// ルートの並べ替え・絞り込み（両方のルート検索で共通）
+export interface RouteRankingOptions {
+  sort_by?: RouteSortKey;  // 並べ替えの基準（デフォルト: 上流サイトの順）
+  max_transfers?: number;
+  max_walk_min?: number;   // 徒歩区間の合計時間の上限
+  max_fare_jpy?: number;   // 運賃を持たない推定ルートは除外しない
+}
+
+// 利用する交通手段・事業者の指定（両方のルート検索で共通）
+export type TransitMode = 'bus' | 'train';
+
+export interface RoutePreferenceOptions {
+  allowed_modes?: TransitMode[];  // 利用する交通手段（徒歩は常に利用可。デフォルト: すべて）
+  excluded_companies?: number[];  // 利用しない事業者（Master.company の ID）
+}
+
+export interface RouteSearchByNameRequest extends RouteRankingOptions, RoutePreferenceOptions {
   language: Language;
   max_tokens: number;
   from_station: string;
   to_station: string;
   datetime_type: DateTimeType;
   datetime: string; // ISO-8601
+  via_station?: string; // 経由地
+  cursor?: string; // 前回の RouteSearchResponse.cursor（指定時は datetime / datetime_type の代わりに使う）
+  page?: RoutePage; // cursor 指定時の取得方向（デフォルト: next）
 }
 
-export interface RouteSearchByGeoRequest {
+export interface RouteSearchByGeoRequest extends RouteRankingOptions, RoutePreferenceOptions {
   language: Language;
   max_tokens: number;
   from_latlng: string; // "lat,lng"
   to_latlng: string;
   datetime_type: DateTimeType;
   datetime: string; // ISO-8601
+  via_station?: string; // 経由地
+  cursor?: string; // 前回の RouteSearchResponse.cursor（指定時は datetime / datetime_type の代わりに使う）
+  page?: RoutePage; // cursor 指定時の取得方向（デフォルト: next）
 }
 
 export interface RouteSummary {
-  depart: string; // ISO-8601
-  arrive: string; // ISO-8601
+  depart?: string; // ISO-8601（推定ルートでは省略）
+  arrive?: string; // ISO-8601（推定ルートでは省略）
   duration_min: number;
   transfers: number;
-  fare_jpy: number;
+  fare_jpy?: number; // 推定ルートでは省略
+  co2_g?: number;              // CO2排出量（g）
+  co2_saved_vs_car_g?: number; // マイカー利用と比べた CO2 削減量（g）
+  walk_kcal?: number;          // 徒歩の消費カロリー（kcal）
+  walk_steps?: number;         // 徒歩の歩数
 }
 
 export interface RouteLeg {
@@ -68,16 +231,197 @@ export interface RouteLeg {
   stops?: number;
   fare_jpy?: number;
   distance_km?: number;
+  from_platform?: string; // 乗車（出発）するのりば・番線（例: "F"、"2"）
+  to_platform?: string;   // 降車（到着）するのりば・番線
+  direction?: string;     // 乗車する方向（例: "東行き"、"Eastbound"）
+  platform_note?: string; // 結果ページの乗車地点の表示（例: "のりばF(東行き)"）
 }
 
 export interface Route {
   summary: RouteSummary;
   legs: RouteLeg[];
+  estimated?: boolean; // マスターデータから推定したルート（時刻表・運賃なし）
+}
+
+// allowed_modes / excluded_companies に合わず除外したルート
+export interface DroppedRoute {
+  depart?: string;
+  arrive?: string;
+  duration_min: number;
+  reason: 'mode' | 'company';
+  line?: string;       // 除外の理由になった区間の路線
+  company_id?: number; // reason: company の場合の事業者 ID
+}
+
+// 結果ページの解析方法（detailed: 詳細表示、table_row: 結果一覧の行、raw: 生データ）
+export type ParseStrategy = 'detailed' | 'table_row' | 'raw';
+
+// 結果ページの解析結果の診断情報
+export interface ParseDiagnostics {
+  strategy: ParseStrategy | null; // ルートを取得できた解析方法（取得できなかった場合は null）
+  missing_anchors: string[];      // 結果ページに見つからなかった要素のセレクタ
+  no_results: boolean;            // 「該当する結果が見つかりませんでした」などの表示があるか
+  errors?: string[];              // 解析中に発生したエラー（ある場合のみ）
+}
+
+// 事業者名なしの駅・バス停名に該当する候補（AmbiguousStopError の details.candidates）
+export interface AmbiguousStopCandidate {
+  name: string; // 事業者名付きの駅・バス停名（from_station / to_station にそのまま指定できる）
+  kind: 'bus_stop' | 'train_station';
+  operator: string;
+  company_id: number;
+  lat: number;
+  lng: number;
 }
 
 export interface RouteSearchResponse {
   routes: Route[];
   truncated: boolean;
+  cursor?: string; // 前後のルートを取得するためのカーソル（時刻付きのルートがある場合のみ）
+  dropped?: DroppedRoute[]; // allowed_modes / excluded_companies で除外したルート（ある場合のみ）
+  parse_diagnostics?: ParseDiagnostics; // 結果ページの解析結果（上流サイトの結果ページを解析した場合のみ）
+}
+
+// Tool 9: Itinerary planning
+export interface ItineraryStop {
+  name: string;      // 駅名・バス停名・ランドマーク名
+  stay_min?: number; // 滞在時間（分、デフォルト: 0）。最初と最後の地点では無視
+}
+
+export interface ItineraryRequest {
+  language: Language;
+  max_tokens: number;
+  datetime: string;        // 最初の地点の出発日時（ISO-8601）
+  stops: ItineraryStop[];  // 訪問順（最初が出発地、最後が到着地）
+}
+
+export interface ItineraryMove {
+  type: 'move';
+  leg: number;          // 区間番号（1 から）
+  from: string;
+  to: string;
+  depart: string;       // ISO-8601（推定ルートでは出発予定時刻）
+  arrive: string;       // ISO-8601（推定ルートでは所要時間から算出）
+  duration_min: number;
+  fare_jpy?: number;    // 推定ルートでは省略
+  walk_min: number;
+  route: Route;
+  estimated?: boolean;  // マスターデータから推定したルート
+}
+
+export interface ItineraryStay {
+  type: 'stay';
+  name: string;
+  arrive: string;       // ISO-8601
+  depart: string;       // ISO-8601（到着 + 滞在時間）
+  stay_min: number;
+}
+
+export type ItineraryEntry = ItineraryMove | ItineraryStay;
+
+export interface ItinerarySummary {
+  depart: string;       // ISO-8601
+  arrive: string;       // ISO-8601
+  duration_min: number; // 滞在時間を含む全体の所要時間
+  travel_min: number;   // 移動時間の合計
+  fare_jpy: number;     // 運賃の合計（推定ルートの区間は含まない）
+  walk_min: number;
+  walk_km: number;
+  transfers: number;
+  estimated: boolean;   // 推定ルートの区間を含む場合 true
+}
+
+export interface ItineraryResponse {
+  summary: ItinerarySummary;
+  timeline: ItineraryEntry[];
+  truncated: boolean;
+}
+
+// Tool 10: Visit order optimization
+export type TravelTimeSource = 'estimate' | 'search';
+
+export interface VisitOrderRequest {
+  language: Language;
+  max_tokens: number;
+  start: string;               // 出発地の駅名・バス停名・ランドマーク名
+  datetime: string;            // 出発日時（ISO-8601）
+  landmark_ids: string[];      // 訪問するランドマークの ID（順不同）
+  stay_min?: number;           // 各ランドマークでの滞在時間（分、デフォルト: 0）
+  return_to_start?: boolean;   // 最後に出発地へ戻る（デフォルト: false）
+  travel_time?: TravelTimeSource; // 移動時間の求め方（デフォルト: estimate）
+}
+
+export interface VisitOrderStop {
+  order: number;        // 訪問順（1 から）
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  travel_min: number;   // 直前の地点からの移動時間
+  arrive: string;       // ISO-8601
+  depart: string;       // ISO-8601（到着 + 滞在時間）
+  estimated?: boolean;  // travel_time: search で検索できず距離から推定した場合
+}
+
+export interface VisitOrderReturnLeg {
+  travel_min: number;
+  arrive: string;       // ISO-8601
+  estimated?: boolean;
+}
+
+export interface VisitOrderResponse {
+  start: {
+    name: string;
+    lat: number;
+    lng: number;
+  };
+  stops: VisitOrderStop[];
+  return_leg?: VisitOrderReturnLeg; // return_to_start 指定時のみ
+  total_travel_min: number;
+  finish: string;                   // ISO-8601（最後の地点の出発、または出発地への到着）
+  travel_time: TravelTimeSource;
+  truncated: boolean;
+}
+
+// Tool 11: Reachability (isochrone)
+export type ReachabilitySampling = 'none' | 'boundary' | 'spread';
+
+export interface ReachabilityRequest {
+  language: Language;
+  max_tokens: number;
+  from_station?: string;        // 出発地の駅名・バス停名・ランドマーク名（from_latlng と排他）
+  from_latlng?: string;         // "lat,lng"
+  datetime: string;             // 出発日時（ISO-8601）
+  budget_min: number;           // 所要時間の上限（分）
+  band_min?: number;            // 時間帯の幅（分、デフォルト: 10）
+  kind?: StopCandidate['kind']; // 指定した種別のみ返す
+  sampling?: ReachabilitySampling; // 上流サイトで検証する停留所の選び方（デフォルト: none）
+  max_searches?: number;        // 上流サイトの検索回数の上限（デフォルト: 10）
+}
+
+export interface ReachableStop extends StopCandidate {
+  agency?: string;
+  lat: number;
+  lng: number;
+  travel_min: number;   // 推定所要時間（待ち時間込み）、verified の場合は検索結果
+  verified?: boolean;   // 上流サイトのルート検索で確認した場合 true
+}
+
+export interface ReachabilityBand {
+  from_min: number;     // この時間帯の下限（分、この値を含まない。最初の時間帯は 0 を含む）
+  to_min: number;       // この時間帯の上限（分、含む）
+  stops: ReachableStop[];
+}
+
+export interface ReachabilityResponse {
+  origin: {
+    lat: number;
+    lng: number;
+  };
+  budget_min: number;
+  bands: ReachabilityBand[];
+  searches: number;     // 実行した上流サイトの検索回数
+  truncated: boolean;
 }
 
 // Route HTML Fetcher Internal Types
@@ -108,6 +452,7 @@ export interface StopRecord {
   lat: number;
   lng: number;
   agency?: string;
+  yomi?: string; // ひらがな読み
 }
 
 export interface LandmarkRecord {
@@ -117,6 +462,7 @@ export interface LandmarkRecord {
   lat: number;
   lng: number;
   category: string;
+  yomi?: string; // ひらがな読み
 }
 
 // LandmarkData Types
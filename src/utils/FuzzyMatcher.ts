@@ -0,0 +1,50 @@
+/**
+ * 編集距離による曖昧一致ユーティリティ
+ * 1文字の誤り・長音や記号の有無（"kinkakuji" と "kinkaku-ji"、"ぎおん" と "ぎをん"）を許容する
+ */
+
+/**
+ * クエリとターゲット中の最も近い部分文字列との編集距離を計算
+ * ターゲット側の前後の文字は無視する（Sellersのアルゴリズム）
+ * @param query 正規化済みクエリ
+ * @param target 正規化済みターゲット文字列
+ * @returns 最小編集距離
+ */
+export function substringEditDistance(query: string, target: string): number {
+  if (query.length === 0) {
+    return 0;
+  }
+
+  // previous[j]: クエリの先頭 i-1 文字とターゲットの j 文字目で終わる部分文字列の最小距離
+  let previous = new Array<number>(target.length + 1).fill(0);
+
+  for (let i = 1; i <= query.length; i++) {
+    const current = new Array<number>(target.length + 1);
+    current[0] = i;
+    for (let j = 1; j <= target.length; j++) {
+      const cost = query[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,        // クエリ側の文字を削除
+        current[j - 1] + 1,     // ターゲット側の文字を挿入
+        previous[j - 1] + cost  // 置換（一致ならコストなし）
+      );
+    }
+    previous = current;
+  }
+
+  return Math.min(...previous);
+}
+
+/**
+ * クエリがターゲットに曖昧一致する度合いを計算
+ * @param query 正規化済みクエリ
+ * @param target 正規化済みターゲット文字列
+ * @returns 類似度（0-1、1 は部分一致）
+ */
+export function fuzzySimilarity(query: string, target: string): number {
+  if (query.length === 0 || target.length === 0) {
+    return 0;
+  }
+  const distance = substringEditDistance(query, target);
+  return Math.max(0, 1 - distance / query.length);
+}
@@ -0,0 +1,31 @@
+/**
+ * 京都付近での緯度と経度の距離比率（元サイトの近隣駅検索と同じ値）
+ */
+export const LAT_LNG_RATIO = 912.8816392747891 / 1109.4063947762538;
+
+/**
+ * 緯度1度あたりの距離（メートル）
+ */
+const METERS_PER_LAT_DEGREE = 111320;
+
+/**
+ * 徒歩の分速（メートル/分、不動産表示規約の80m/分）
+ */
+const WALKING_METERS_PER_MINUTE = 80;
+
+/**
+ * 2地点間の概算距離（メートル）を計算
+ * 京都付近の狭い範囲を前提に、経度方向を LAT_LNG_RATIO で補正した平面近似を用いる
+ */
+export function calculateDistanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = lat1 - lat2;
+  const dLng = (lng1 - lng2) * LAT_LNG_RATIO;
+  return Math.sqrt(dLat * dLat + dLng * dLng) * METERS_PER_LAT_DEGREE;
+}
+
+/**
+ * 距離から徒歩の所要時間（分、切り上げ）を推定
+ */
+export function estimateWalkingMinutes(distanceMeters: number): number {
+  return Math.ceil(distanceMeters / WALKING_METERS_PER_MINUTE);
+}
@@ -0,0 +1,278 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * HTTPトランスポートのオプション
+ */
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+}
+
+/**
+ * セッションごとのトランスポートとサーバー
+ */
+interface Session<T> {
+  transport: T;
+  server: Server;
+}
+
+const MCP_ENDPOINT = '/mcp';
+const SSE_ENDPOINT = '/sse';
+const SSE_MESSAGES_ENDPOINT = '/messages';
+
+/**
+ * リクエストボディの最大サイズ（バイト）
+ */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Streamable HTTP (および旧SSE方式のフォールバック) でMCPサーバーを公開するクラス
+ * セッションごとに新しいServerインスタンスを生成し、サービス層は呼び出し側で共有する
+ *
+ * エンドポイント:
+ * - POST/GET/DELETE /mcp          Streamable HTTP
+ * - GET /sse, POST /messages      HTTP+SSE (2024-11-05 プロトコル互換)
+ */
+export class HttpTransportHost {
+  private readonly createServer: () => Server;
+  private readonly options: HttpTransportOptions;
+  private httpServer: http.Server | null = null;
+  private streamableSessions: Map<string, Session<StreamableHTTPServerTransport>> = new Map();
+  private sseSessions: Map<string, Session<SSEServerTransport>> = new Map();
+
+  constructor(createServer: () => Server, options: HttpTransportOptions) {
+    this.createServer = createServer;
+    this.options = options;
+  }
+
+  /**
+   * HTTPサーバーを起動
+   * @returns 実際に待ち受けているポート番号（port: 0 指定時に有用）
+   */
+  async start(): Promise<number> {
+    if (this.httpServer) {
+      throw new Error('HTTP transport already started');
+    }
+
+    const httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('HTTP transport error:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = httpServer.address();
+    return typeof address === 'object' && address ? address.port : this.options.port;
+  }
+
+  /**
+   * 全セッションを閉じてHTTPサーバーを停止
+   */
+  async close(): Promise<void> {
+    const sessions = [...this.streamableSessions.values(), ...this.sseSessions.values()];
+    this.streamableSessions.clear();
+    this.sseSessions.clear();
+
+    await Promise.all(sessions.map(async (session) => {
+      try {
+        await session.transport.close();
+        await session.server.close();
+      } catch {
+        // 既に閉じられている場合は無視
+      }
+    }));
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      httpServer.closeAllConnections(); // Node.js 18.2 以降
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * 現在のセッション数
+   */
+  get sessionCount(): number {
+    return this.streamableSessions.size + this.sseSessions.size;
+  }
+
+  /**
+   * リクエストをエンドポイントごとに振り分け
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    switch (url.pathname) {
+      case MCP_ENDPOINT:
+        return this.handleStreamableRequest(req, res);
+      case SSE_ENDPOINT:
+        return this.handleSseConnect(req, res);
+      case SSE_MESSAGES_ENDPOINT:
+        return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      default:
+        res.writeHead(404).end('Not Found');
+    }
+  }
+
+  /**
+   * Streamable HTTP リクエストの処理
+   */
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = this.getSessionIdHeader(req);
+    const body = req.method === 'POST' ? await this.readJsonBody(req, res) : undefined;
+    if (req.method === 'POST' && body === undefined) {
+      return;
+    }
+
+    // 既存セッション
+    if (sessionId) {
+      const session = this.streamableSessions.get(sessionId);
+      if (!session) {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // 新規セッションは initialize リクエストでのみ開始できる
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        this.streamableSessions.set(newSessionId, { transport, server });
+      }
+    });
+    transport.onclose = () => {
+      // server.close() からも呼ばれるため、セッションが残っている場合のみ閉じる
+      if (transport.sessionId && this.streamableSessions.delete(transport.sessionId)) {
+        this.closeServer(server);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * SSE接続の開始（旧プロトコル互換）
+   */
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      res.writeHead(405).end('Method Not Allowed');
+      return;
+    }
+
+    const server = this.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    this.sseSessions.set(transport.sessionId, { transport, server });
+
+    res.on('close', () => {
+      if (this.sseSessions.delete(transport.sessionId)) {
+        this.closeServer(server);
+      }
+    });
+
+    await server.connect(transport);
+  }
+
+  /**
+   * SSEセッションへのメッセージ送信（旧プロトコル互換）
+   */
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end('Method Not Allowed');
+      return;
+    }
+
+    const session = sessionId ? this.sseSessions.get(sessionId) : undefined;
+    if (!session) {
+      res.writeHead(404).end('Session not found');
+      return;
+    }
+
+    const body = await this.readJsonBody(req, res);
+    if (body === undefined) {
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * 切断されたセッションのServerを閉じる
+   */
+  private closeServer(server: Server): void {
+    server.close().catch((error) => {
+      console.error('Failed to close MCP server:', error);
+    });
+  }
+
+  /**
+   * mcp-session-id ヘッダーを取得
+   */
+  private getSessionIdHeader(req: IncomingMessage): string | undefined {
+    const header = req.headers['mcp-session-id'];
+    return Array.isArray(header) ? header[0] : header;
+  }
+
+  /**
+   * リクエストボディをJSONとして読み込む
+   * MAX_BODY_BYTES を超える場合（413）や解析に失敗した場合はエラーレスポンスを返し undefined を返す
+   */
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      // 上限を超えた後も接続を保ってレスポンスを返すため、残りは読み捨てる
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+      }
+    }
+
+    if (size > MAX_BODY_BYTES) {
+      this.sendJsonRpcError(res, 413, -32600, `Request body too large (max ${MAX_BODY_BYTES} bytes)`);
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error');
+      return undefined;
+    }
+  }
+
+  /**
+   * JSON-RPC形式のエラーレスポンスを送信
+   */
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    }));
+  }
+}
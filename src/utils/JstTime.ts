@@ -0,0 +1,128 @@
+import { ValidationError } from './ToolErrors.js';
+
+/**
+ * 日本標準時 (Asia/Tokyo) の時刻ユーティリティ
+ * 歩くまち京都の時刻表はすべてJSTで扱われるため、ホストのタイムゾーンに依存せず
+ * JSTの壁時計時刻として日時を扱う（JSTに夏時間はないため固定オフセットで計算する）
+ */
+
+/**
+ * JSTのUTCオフセット表記
+ */
+export const JST_OFFSET = '+09:00';
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/**
+ * JSTの壁時計時刻
+ */
+export interface JstDateTime {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+}
+
+/**
+ * ISO-8601文字列をJSTの壁時計時刻として解釈する
+ * オフセット（Z / ±HH:MM）付きの場合はJSTに変換し、オフセットなしの場合はJSTとみなす
+ * @throws Error 解釈できない形式の場合
+ */
+export function parseJstDateTime(datetime: string): JstDateTime {
+  const match = datetime.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/);
+  if (!match) {
+    throw new ValidationError(`Invalid datetime: ${datetime}`);
+  }
+
+  const wallTime: JstDateTime = {
+    year: parseInt(match[1]),
+    month: parseInt(match[2]),
+    day: parseInt(match[3]),
+    hours: parseInt(match[4]),
+    minutes: parseInt(match[5])
+  };
+
+  const offset = match[6];
+  if (!offset || offset === JST_OFFSET) {
+    return normalize(wallTime);
+  }
+
+  // 指定オフセットの壁時計時刻 → UTC → JST
+  const offsetMinutes = offset === 'Z' ? 0 : parseOffsetMinutes(offset);
+  const utcMs = Date.UTC(wallTime.year, wallTime.month - 1, wallTime.day, wallTime.hours, wallTime.minutes) - offsetMinutes * 60 * 1000;
+  return fromEpochMs(utcMs);
+}
+
+/**
+ * 現在のJST時刻を取得
+ */
+export function nowJst(): JstDateTime {
+  return fromEpochMs(Date.now());
+}
+
+/**
+ * 日数を加算（月末・年末の繰り上がりを考慮）
+ */
+export function addDays(dateTime: JstDateTime, days: number): JstDateTime {
+  return normalize({ ...dateTime, day: dateTime.day + days });
+}
+
+/**
+ * 分数を加算（日付の繰り上がりを考慮）
+ */
+export function addMinutes(dateTime: JstDateTime, minutes: number): JstDateTime {
+  return normalize({ ...dateTime, minutes: dateTime.minutes + minutes });
+}
+
+/**
+ * "YYYY-MM-DDTHH:MM+09:00" 形式にフォーマット
+ */
+export function formatJstIso(dateTime: JstDateTime): string {
+  return `${formatJstDate(dateTime)}T${pad(dateTime.hours)}:${pad(dateTime.minutes)}${JST_OFFSET}`;
+}
+
+/**
+ * "YYYY-MM-DD" 形式にフォーマット
+ */
+export function formatJstDate(dateTime: JstDateTime): string {
+  return `${dateTime.year}-${pad(dateTime.month)}-${pad(dateTime.day)}`;
+}
+
+/**
+ * JST時刻をエポックミリ秒に変換
+ */
+export function toEpochMs(dateTime: JstDateTime): number {
+  return Date.UTC(dateTime.year, dateTime.month - 1, dateTime.day, dateTime.hours, dateTime.minutes) - JST_OFFSET_MS;
+}
+
+/**
+ * エポックミリ秒をJST時刻に変換
+ */
+function fromEpochMs(epochMs: number): JstDateTime {
+  const shifted = new Date(epochMs + JST_OFFSET_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hours: shifted.getUTCHours(),
+    minutes: shifted.getUTCMinutes()
+  };
+}
+
+/**
+ * 範囲外の値（32日、25時など）を正規化
+ */
+function normalize(dateTime: JstDateTime): JstDateTime {
+  return fromEpochMs(toEpochMs(dateTime));
+}
+
+function parseOffsetMinutes(offset: string): number {
+  const sign = offset.startsWith('-') ? -1 : 1;
+  const [hours, minutes] = offset.slice(1).split(':').map(Number);
+  return sign * (hours * 60 + minutes);
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
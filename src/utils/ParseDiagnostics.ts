@@ -0,0 +1,29 @@
+import * as cheerio from 'cheerio';
+import { ParseDiagnostics, ParseStrategy } from '../types/index.js';
+
+/**
+ * 解析方法ごとに結果ページにあるはずの要素
+ * サイトの改修で要素が変わった場合に、どの解析方法が使えなくなったかを特定する
+ */
+export const ROUTE_PAGE_ANCHORS: Record<ParseStrategy, string[]> = {
+  detailed: ['td.time_1', 'td.time_2', 'td.time_3', 'tr.color-gr', '.box-8'],
+  table_row: ['#result_list table tr[data-href]'],
+  raw: ['form#resultInfo', 'form#resultInfo input[name^="rt"]']
+};
+
+/**
+ * 結果ページに見つからない要素のセレクタを返す
+ */
+export function findMissingAnchors($: cheerio.CheerioAPI): string[] {
+  return Object.values(ROUTE_PAGE_ANCHORS)
+    .flat()
+    .filter(selector => $(selector).length === 0);
+}
+
+/**
+ * 上流サイトの結果ページの形式が変わったとみなすかどうか
+ * 「見つかりません」などの表示がないのに、どの解析方法でもルートを取得できなかった場合
+ */
+export function isUpstreamFormatChanged(diagnostics: ParseDiagnostics | undefined): boolean {
+  return diagnostics !== undefined && diagnostics.strategy === null && !diagnostics.no_results;
+}
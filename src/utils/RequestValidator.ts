@@ -1,4 +1,38 @@
-import { Language, DateTimeType, StopSearchRequest, RouteSearchByNameRequest, RouteSearchByGeoRequest } from '../types/index.js';
+import { Language, DateTimeType, RouteSortKey, TransitMode, StopSearchRequest, StopSearchByGeoRequest, StopDetailsRequest, LineSearchRequest, LineStopsRequest, CommonLinesRequest, RouteSearchByNameRequest, RouteSearchByGeoRequest, ItineraryRequest, VisitOrderRequest, ReachabilityRequest } from '../types/index.js';
+import { ValidationError } from './ToolErrors.js';
+
+/**
+ * 旅程に指定できる地点数の上限（出発地・到着地を含む）
+ */
+const MAX_ITINERARY_STOPS = 10;
+
+/**
+ * 1地点あたりの滞在時間の上限（分）
+ */
+const MAX_STAY_MINUTES = 24 * 60;
+
+/**
+ * 訪問順の最適化に指定できるランドマーク数の上限
+ * travel_time: search では2地点ごとに上流サイトを検索するため、さらに少なく制限する
+ */
+const MAX_VISIT_LANDMARKS = 8;
+const MAX_VISIT_LANDMARKS_WITH_SEARCH = 5;
+
+/**
+ * 到達圏検索の所要時間の上限（分）と、上流サイトで検証する検索回数の上限
+ */
+const MAX_REACHABILITY_BUDGET_MINUTES = 120;
+const MAX_REACHABILITY_SEARCHES = 30;
+
+/**
+ * ルート検索の sort_by に指定できる値
+ */
+const ROUTE_SORT_KEYS: RouteSortKey[] = ['duration', 'fare', 'transfers', 'walking', 'arrival'];
+
+/**
+ * ルート検索の allowed_modes に指定できる値
+ */
+const TRANSIT_MODES: TransitMode[] = ['bus', 'train'];
 
 /**
  * MCP仕様に沿ったリクエストパラメータの検証を行う
@@ -13,15 +47,15 @@ export class RequestValidator {
   validateStopSearchRequest(request: StopSearchRequest): void {
     // 必須パラメータのチェック
     if (!request.language) {
-      throw new Error('Missing required parameter: language');
+      throw new ValidationError('Missing required parameter: language');
     }
     
     if (request.max_tokens === undefined || request.max_tokens === null) {
-      throw new Error('Missing required parameter: max_tokens');
+      throw new ValidationError('Missing required parameter: max_tokens');
     }
     
     if (request.query === undefined || request.query === null) {
-      throw new Error('Missing required parameter: query');
+      throw new ValidationError('Missing required parameter: query');
     }
 
     // 言語の検証
@@ -31,6 +65,153 @@ export class RequestValidator {
     this.validateMaxTokens(request.max_tokens);
   }
 
+  /**
+   * StopSearchByGeoRequestの検証
+   * @param request 検証対象のリクエスト
+   * @throws Error 検証エラー時
+   */
+  validateStopSearchByGeoRequest(request: StopSearchByGeoRequest): void {
+    // 必須パラメータのチェック
+    if (!request.language) {
+      throw new ValidationError('Missing required parameter: language');
+    }
+
+    if (request.max_tokens === undefined || request.max_tokens === null) {
+      throw new ValidationError('Missing required parameter: max_tokens');
+    }
+
+    if (!request.latlng) {
+      throw new ValidationError('Missing required parameter: latlng');
+    }
+
+    this.validateLanguage(request.language);
+    this.validateMaxTokens(request.max_tokens);
+    this.validateLatLng(request.latlng);
+
+    // 任意パラメータの検証
+    if (request.radius_m !== undefined && (typeof request.radius_m !== 'number' || !(request.radius_m > 0))) {
+      throw new ValidationError('Invalid radius_m. Must be a positive number');
+    }
+
+    if (request.limit !== undefined && (!Number.isInteger(request.limit) || request.limit <= 0)) {
+      throw new ValidationError('Invalid limit. Must be a positive integer');
+    }
+
+    if (request.kind !== undefined && !['bus_stop', 'train_station', 'landmark'].includes(request.kind)) {
+      throw new ValidationError('Invalid kind. Must be one of: bus_stop, train_station, landmark');
+    }
+  }
+
+  /**
+   * StopDetailsRequestの検証
+   * @param request 検証対象のリクエスト
+   * @throws Error 検証エラー時
+   */
+  validateStopDetailsRequest(request: StopDetailsRequest): void {
+    // 必須パラメータのチェック
+    if (!request.language) {
+      throw new ValidationError('Missing required parameter: language');
+    }
+
+    if (request.max_tokens === undefined || request.max_tokens === null) {
+      throw new ValidationError('Missing required parameter: max_tokens');
+    }
+
+    if (!request.id) {
+      throw new ValidationError('Missing required parameter: id');
+    }
+
+    this.validateLanguage(request.language);
+    this.validateMaxTokens(request.max_tokens);
+
+    // search_stop_by_substring が返すID形式（B:200_xxx / T:100_xxx / LM00000001）
+    if (typeof request.id !== 'string' || !/^([BT]:\d+_.+|LM\d+)$/.test(request.id)) {
+      throw new ValidationError('Invalid id. Expected an ID returned by search_stop_by_substring (e.g., "T:103_京都")');
+    }
+  }
+
+  /**
+   * LineSearchRequestの検証
+   * @param request 検証対象のリクエスト
+   * @throws Error 検証エラー時
+   */
+  validateLineSearchRequest(request: LineSearchRequest): void {
+    // 必須パラメータのチェック
+    if (!request.language) {
+      throw new ValidationError('Missing required parameter: language');
+    }
+
+    if (request.max_tokens === undefined || request.max_tokens === null) {
+      throw new ValidationError('Missing required parameter: max_tokens');
+    }
+
+    this.validateLanguage(request.language);
+    this.validateMaxTokens(request.max_tokens);
+
+    // 任意パラメータの検証
+    if (request.query !== undefined && typeof request.query !== 'string') {
+      throw new ValidationError('Invalid query. Must be a string');
+    }
+
+    if (request.operator !== undefined && typeof request.operator !== 'string') {
+      throw new ValidationError('Invalid operator. Must be a string');
+    }
+  }
+
+  /**
+   * LineStopsRequestの検証
+   * @param request 検証対象のリクエスト
+   * @throws Error 検証エラー時
+   */
+  validateLineStopsRequest(request: LineStopsRequest): void {
+    // 必須パラメータのチェック
+    if (!request.language) {
+      throw new ValidationError('Missing required parameter: language');
+    }
+
+    if (request.max_tokens === undefined || request.max_tokens === null) {
+      throw new ValidationError('Missing required parameter: max_tokens');
+    }
+
+    if (!request.line_id) {
+      throw new ValidationError('Missing required parameter: line_id');
+    }
+
+    this.validateLanguage(request.language);
+    this.validateMaxTokens(request.max_tokens);
+
+    if (typeof request.line_id !== 'string' || !/^\d+$/.test(request.line_id)) {
+      throw new ValidationError('Invalid line_id. Expected an ID returned by search_lines (e.g., "200057")');
+    }
+  }
+
+  /**
+   * CommonLinesRequestの検証
+   * @param request 検証対象のリクエスト
+   * @throws Error 検証エラー時
+   */
+  validateCommonLinesRequest(request: CommonLinesRequest): void {
+    // 必須パラメータのチェック
+    if (!request.language) {
+      throw new ValidationError('Missing required parameter: language');
+    }
+
+    if (request.max_tokens === undefined || request.max_tokens === null) {
+      throw new ValidationError('Missing required parameter: max_tokens');
+    }
+
+    if (!request.from_station) {
+      throw new ValidationError('Missing required parameter: from_station');
+    }
+
+    if (!request.to_station) {
+      throw new ValidationError('Missing required parameter: to_station');
+    }
+
+    this.validateLanguage(request.language);
+    this.validateMaxTokens(request.max_tokens);
+  }
+
   /**
    * RouteSearchByNameRequestの検証
    * @param request 検証対象のリクエスト
@@ -42,11 +223,11 @@ export class RequestValidator {
     
     // 必須パラメータのチェック
     if (!request.from_station) {
-      throw new Error('Missing required parameter: from_station');
+      throw new ValidationError('Missing required parameter: from_station');
     }
     
     if (!request.to_station) {
-      throw new Error('Missing required parameter: to_station');
+      throw new ValidationError('Missing required parameter: to_station');
     }
   }
 
@@ -61,11 +242,11 @@ export class RequestValidator {
     
     // 必須パラメータのチェック
     if (!request.from_latlng) {
-      throw new Error('Missing required parameter: from_latlng');
+      throw new ValidationError('Missing required parameter: from_latlng');
     }
     
     if (!request.to_latlng) {
-      throw new Error('Missing required parameter: to_latlng');
+      throw new ValidationError('Missing required parameter: to_latlng');
     }
 
     // 緯度経度の検証
@@ -73,6 +254,165 @@ export class RequestValidator {
     this.validateLatLng(request.to_latlng);
   }
 
+  /**
+   * ItineraryRequestの検証
+   * @param request 検証対象のリクエスト
+   * @throws Error 検証エラー時
+   */
+  validateItineraryRequest(request: ItineraryRequest): void {
+    // 必須パラメータのチェック
+    if (!request.language) {
+      throw new ValidationError('Missing required parameter: language');
+    }
+
+    if (request.max_tokens === undefined || request.max_tokens === null) {
+      throw new ValidationError('Missing required parameter: max_tokens');
+    }
+
+    if (!request.datetime) {
+      throw new ValidationError('Missing required parameter: datetime');
+    }
+
+    if (!request.stops) {
+      throw new ValidationError('Missing required parameter: stops');
+    }
+
+    this.validateLanguage(request.language);
+    this.validateMaxTokens(request.max_tokens);
+    this.validateDateTime(request.datetime);
+
+    if (!Array.isArray(request.stops) || request.stops.length < 2 || request.stops.length > MAX_ITINERARY_STOPS) {
+      throw new ValidationError(`Invalid stops. Must be an array of 2 to ${MAX_ITINERARY_STOPS} stops`);
+    }
+
+    request.stops.forEach((stop, index) => {
+      if (!stop || typeof stop.name !== 'string' || !stop.name.trim()) {
+        throw new ValidationError(`Invalid stops[${index}].name. Must be a non-empty string`);
+      }
+      if (stop.stay_min !== undefined &&
+          (!Number.isInteger(stop.stay_min) || stop.stay_min < 0 || stop.stay_min > MAX_STAY_MINUTES)) {
+        throw new ValidationError(`Invalid stops[${index}].stay_min. Must be an integer between 0 and ${MAX_STAY_MINUTES}`);
+      }
+    });
+  }
+
+  /**
+   * VisitOrderRequestの検証
+   * @param request 検証対象のリクエスト
+   * @throws Error 検証エラー時
+   */
+  validateVisitOrderRequest(request: VisitOrderRequest): void {
+    // 必須パラメータのチェック
+    if (!request.language) {
+      throw new ValidationError('Missing required parameter: language');
+    }
+
+    if (request.max_tokens === undefined || request.max_tokens === null) {
+      throw new ValidationError('Missing required parameter: max_tokens');
+    }
+
+    if (!request.start) {
+      throw new ValidationError('Missing required parameter: start');
+    }
+
+    if (!request.datetime) {
+      throw new ValidationError('Missing required parameter: datetime');
+    }
+
+    if (!request.landmark_ids) {
+      throw new ValidationError('Missing required parameter: landmark_ids');
+    }
+
+    this.validateLanguage(request.language);
+    this.validateMaxTokens(request.max_tokens);
+    this.validateDateTime(request.datetime);
+
+    if (request.travel_time !== undefined && request.travel_time !== 'estimate' && request.travel_time !== 'search') {
+      throw new ValidationError('Invalid travel_time. Must be "estimate" or "search"');
+    }
+
+    const maxLandmarks = request.travel_time === 'search' ? MAX_VISIT_LANDMARKS_WITH_SEARCH : MAX_VISIT_LANDMARKS;
+    if (!Array.isArray(request.landmark_ids) || request.landmark_ids.length < 2 || request.landmark_ids.length > maxLandmarks) {
+      throw new ValidationError(`Invalid landmark_ids. Must be an array of 2 to ${maxLandmarks} landmark IDs`);
+    }
+    if (request.landmark_ids.some(id => typeof id !== 'string' || !id.trim())) {
+      throw new ValidationError('Invalid landmark_ids. Each ID must be a non-empty string');
+    }
+    if (new Set(request.landmark_ids).size !== request.landmark_ids.length) {
+      throw new ValidationError('Invalid landmark_ids. IDs must not be repeated');
+    }
+
+    if (request.stay_min !== undefined &&
+        (!Number.isInteger(request.stay_min) || request.stay_min < 0 || request.stay_min > MAX_STAY_MINUTES)) {
+      throw new ValidationError(`Invalid stay_min. Must be an integer between 0 and ${MAX_STAY_MINUTES}`);
+    }
+
+    if (request.return_to_start !== undefined && typeof request.return_to_start !== 'boolean') {
+      throw new ValidationError('Invalid return_to_start. Must be a boolean');
+    }
+  }
+
+  /**
+   * ReachabilityRequestの検証
+   * @param request 検証対象のリクエスト
+   * @throws Error 検証エラー時
+   */
+  validateReachabilityRequest(request: ReachabilityRequest): void {
+    // 必須パラメータのチェック
+    if (!request.language) {
+      throw new ValidationError('Missing required parameter: language');
+    }
+
+    if (request.max_tokens === undefined || request.max_tokens === null) {
+      throw new ValidationError('Missing required parameter: max_tokens');
+    }
+
+    if (!request.from_station && !request.from_latlng) {
+      throw new ValidationError('Missing required parameter: from_station or from_latlng');
+    }
+
+    if (!request.datetime) {
+      throw new ValidationError('Missing required parameter: datetime');
+    }
+
+    if (request.budget_min === undefined || request.budget_min === null) {
+      throw new ValidationError('Missing required parameter: budget_min');
+    }
+
+    this.validateLanguage(request.language);
+    this.validateMaxTokens(request.max_tokens);
+    this.validateDateTime(request.datetime);
+
+    if (request.from_station && request.from_latlng) {
+      throw new ValidationError('Invalid origin. Specify either from_station or from_latlng, not both');
+    }
+    if (request.from_latlng) {
+      this.validateLatLng(request.from_latlng);
+    }
+
+    if (!Number.isInteger(request.budget_min) || request.budget_min < 1 || request.budget_min > MAX_REACHABILITY_BUDGET_MINUTES) {
+      throw new ValidationError(`Invalid budget_min. Must be an integer between 1 and ${MAX_REACHABILITY_BUDGET_MINUTES}`);
+    }
+
+    if (request.band_min !== undefined &&
+        (!Number.isInteger(request.band_min) || request.band_min < 1 || request.band_min > request.budget_min)) {
+      throw new ValidationError('Invalid band_min. Must be an integer between 1 and budget_min');
+    }
+
+    if (request.kind !== undefined && !['bus_stop', 'train_station', 'landmark'].includes(request.kind)) {
+      throw new ValidationError('Invalid kind. Must be one of: bus_stop, train_station, landmark');
+    }
+
+    if (request.sampling !== undefined && !['none', 'boundary', 'spread'].includes(request.sampling)) {
+      throw new ValidationError('Invalid sampling. Must be one of: none, boundary, spread');
+    }
+
+    if (request.max_searches !== undefined &&
+        (!Number.isInteger(request.max_searches) || request.max_searches < 1 || request.max_searches > MAX_REACHABILITY_SEARCHES)) {
+      throw new ValidationError(`Invalid max_searches. Must be an integer between 1 and ${MAX_REACHABILITY_SEARCHES}`);
+    }
+  }
+
   /**
    * 緯度経度文字列の検証
    * @param latlng "lat,lng"形式の文字列
@@ -82,7 +422,7 @@ export class RequestValidator {
     // 形式チェック
     const parts = latlng.split(',');
     if (parts.length !== 2) {
-      throw new Error('Invalid lat,lng format. Expected "lat,lng"');
+      throw new ValidationError('Invalid lat,lng format. Expected "lat,lng"');
     }
 
     const lat = parseFloat(parts[0]);
@@ -90,17 +430,17 @@ export class RequestValidator {
 
     // 数値チェック
     if (isNaN(lat) || isNaN(lng)) {
-      throw new Error('Invalid lat,lng format. Values must be numbers');
+      throw new ValidationError('Invalid lat,lng format. Values must be numbers');
     }
 
     // 緯度範囲チェック（-90 ～ 90）
     if (lat < -90 || lat > 90) {
-      throw new Error('Invalid latitude. Must be between -90 and 90');
+      throw new ValidationError('Invalid latitude. Must be between -90 and 90');
     }
 
     // 経度範囲チェック（-180 ～ 180）
     if (lng < -180 || lng > 180) {
-      throw new Error('Invalid longitude. Must be between -180 and 180');
+      throw new ValidationError('Invalid longitude. Must be between -180 and 180');
     }
   }
 
@@ -111,7 +451,7 @@ export class RequestValidator {
    */
   private validateLanguage(language: Language): void {
     if (language !== 'ja' && language !== 'en') {
-      throw new Error('Invalid language. Must be "ja" or "en"');
+      throw new ValidationError('Invalid language. Must be "ja" or "en"');
     }
   }
 
@@ -122,7 +462,7 @@ export class RequestValidator {
    */
   private validateMaxTokens(maxTokens: number): void {
     if (typeof maxTokens !== 'number' || maxTokens <= 0) {
-      throw new Error('max_tokens must be positive');
+      throw new ValidationError('max_tokens must be positive');
     }
   }
 
@@ -134,7 +474,7 @@ export class RequestValidator {
   private validateDateTimeType(datetimeType: DateTimeType): void {
     const validTypes: DateTimeType[] = ['departure', 'arrival', 'first', 'last'];
     if (!validTypes.includes(datetimeType)) {
-      throw new Error('Invalid datetime_type. Must be one of: departure, arrival, first, last');
+      throw new ValidationError('Invalid datetime_type. Must be one of: departure, arrival, first, last');
     }
   }
 
@@ -148,13 +488,13 @@ export class RequestValidator {
     const iso8601Pattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?(\.\d{3})?([+-]\d{2}:\d{2}|Z)?$/;
     
     if (!iso8601Pattern.test(datetime)) {
-      throw new Error('Invalid datetime format. Expected ISO-8601 format (e.g., "2025-07-07T00:43")');
+      throw new ValidationError('Invalid datetime format. Expected ISO-8601 format (e.g., "2025-07-07T00:43")');
     }
 
     // 実際の日付として有効かチェック
     const date = new Date(datetime);
     if (isNaN(date.getTime())) {
-      throw new Error('Invalid datetime. Date is not valid');
+      throw new ValidationError('Invalid datetime. Date is not valid');
     }
   }
 
@@ -166,19 +506,19 @@ export class RequestValidator {
   private validateCommonRouteParams(request: RouteSearchByNameRequest | RouteSearchByGeoRequest): void {
     // 必須パラメータのチェック
     if (!request.language) {
-      throw new Error('Missing required parameter: language');
+      throw new ValidationError('Missing required parameter: language');
     }
     
     if (request.max_tokens === undefined || request.max_tokens === null) {
-      throw new Error('Missing required parameter: max_tokens');
+      throw new ValidationError('Missing required parameter: max_tokens');
     }
     
     if (!request.datetime_type) {
-      throw new Error('Missing required parameter: datetime_type');
+      throw new ValidationError('Missing required parameter: datetime_type');
     }
     
     if (!request.datetime) {
-      throw new Error('Missing required parameter: datetime');
+      throw new ValidationError('Missing required parameter: datetime');
     }
 
     // 各パラメータの検証
@@ -186,5 +526,52 @@ export class RequestValidator {
     this.validateMaxTokens(request.max_tokens);
     this.validateDateTimeType(request.datetime_type);
     this.validateDateTime(request.datetime);
+
+    // 経由地（任意）
+    if (request.via_station !== undefined && (typeof request.via_station !== 'string' || !request.via_station.trim())) {
+      throw new ValidationError('Invalid via_station. Must be a non-empty string');
+    }
+
+    // ページ送り（任意）
+    if (request.cursor !== undefined && (typeof request.cursor !== 'string' || !request.cursor.trim())) {
+      throw new ValidationError('Invalid cursor. Must be a non-empty string');
+    }
+
+    if (request.page !== undefined) {
+      if (request.page !== 'next' && request.page !== 'previous') {
+        throw new ValidationError('Invalid page. Must be "next" or "previous"');
+      }
+      if (request.cursor === undefined) {
+        throw new ValidationError('Missing required parameter: cursor');
+      }
+    }
+
+    // 並べ替え・絞り込み（任意）
+    if (request.sort_by !== undefined && !ROUTE_SORT_KEYS.includes(request.sort_by)) {
+      throw new ValidationError(`Invalid sort_by. Must be one of: ${ROUTE_SORT_KEYS.join(', ')}`);
+    }
+
+    if (request.max_transfers !== undefined && (!Number.isInteger(request.max_transfers) || request.max_transfers < 0)) {
+      throw new ValidationError('Invalid max_transfers. Must be a non-negative integer');
+    }
+
+    if (request.max_walk_min !== undefined && (typeof request.max_walk_min !== 'number' || !(request.max_walk_min >= 0))) {
+      throw new ValidationError('Invalid max_walk_min. Must be a non-negative number');
+    }
+
+    if (request.max_fare_jpy !== undefined && (typeof request.max_fare_jpy !== 'number' || !(request.max_fare_jpy >= 0))) {
+      throw new ValidationError('Invalid max_fare_jpy. Must be a non-negative number');
+    }
+
+    // 交通手段・事業者の指定（任意、事業者 ID の存在はマスターデータで確認）
+    if (request.allowed_modes !== undefined && (!Array.isArray(request.allowed_modes) ||
+        request.allowed_modes.length === 0 || !request.allowed_modes.every(mode => TRANSIT_MODES.includes(mode)))) {
+      throw new ValidationError(`Invalid allowed_modes. Must be a non-empty array of: ${TRANSIT_MODES.join(', ')}`);
+    }
+
+    if (request.excluded_companies !== undefined && (!Array.isArray(request.excluded_companies) ||
+        !request.excluded_companies.every(id => Number.isInteger(id)))) {
+      throw new ValidationError('Invalid excluded_companies. Must be an array of company IDs');
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,121 @@
+/**
+ * ひらがな読みのヘボン式ローマ字変換ユーティリティ
+ * マスターデータの読み（StationSelect.kana / LandmarkInfo.yomi）を
+ * ローマ字入力でも検索できるようにするために使用する
+ */
+
+const BASE_ROMAJI: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+  'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'o', 'ん': 'n',
+  'ゔ': 'vu',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o',
+  'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo', 'ゎ': 'wa',
+};
+
+/**
+ * 拗音・外来音など2文字で1音になる組み合わせ
+ */
+const DIGRAPH_ROMAJI: Record<string, string> = {
+  'きゃ': 'kya', 'きゅ': 'kyu', 'きょ': 'kyo',
+  'ぎゃ': 'gya', 'ぎゅ': 'gyu', 'ぎょ': 'gyo',
+  'しゃ': 'sha', 'しゅ': 'shu', 'しょ': 'sho', 'しぇ': 'she',
+  'じゃ': 'ja', 'じゅ': 'ju', 'じょ': 'jo', 'じぇ': 'je',
+  'ちゃ': 'cha', 'ちゅ': 'chu', 'ちょ': 'cho', 'ちぇ': 'che',
+  'ぢゃ': 'ja', 'ぢゅ': 'ju', 'ぢょ': 'jo',
+  'にゃ': 'nya', 'にゅ': 'nyu', 'にょ': 'nyo',
+  'ひゃ': 'hya', 'ひゅ': 'hyu', 'ひょ': 'hyo',
+  'びゃ': 'bya', 'びゅ': 'byu', 'びょ': 'byo',
+  'ぴゃ': 'pya', 'ぴゅ': 'pyu', 'ぴょ': 'pyo',
+  'みゃ': 'mya', 'みゅ': 'myu', 'みょ': 'myo',
+  'りゃ': 'rya', 'りゅ': 'ryu', 'りょ': 'ryo',
+  'ふぁ': 'fa', 'ふぃ': 'fi', 'ふぇ': 'fe', 'ふぉ': 'fo',
+  'てぃ': 'ti', 'でぃ': 'di', 'とぅ': 'tu', 'どぅ': 'du',
+  'うぃ': 'wi', 'うぇ': 'we', 'うぉ': 'wo',
+  'ゔぁ': 'va', 'ゔぃ': 'vi', 'ゔぇ': 've', 'ゔぉ': 'vo',
+  'つぁ': 'tsa', 'つぇ': 'tse', 'つぉ': 'tso',
+};
+
+/**
+ * カタカナをひらがなに変換
+ */
+export function toHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+/**
+ * ひらがな（カタカナも可）をヘボン式ローマ字に変換
+ * 長音は綴りどおり（"きょうと" → "kyouto"）に出力し、かな以外の文字は小文字にしてそのまま残す
+ */
+export function toHepburn(kana: string): string {
+  const text = toHiragana(kana);
+  let result = '';
+  let pendingSokuon = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === 'っ') {
+      pendingSokuon = true;
+      continue;
+    }
+    if (char === 'ー') {
+      // 長音記号は直前の母音を繰り返す
+      const lastVowel = result.match(/[aiueo]$/);
+      if (lastVowel) {
+        result += lastVowel[0];
+      }
+      continue;
+    }
+
+    const digraph = DIGRAPH_ROMAJI[text.slice(i, i + 2)];
+    let syllable = digraph ?? BASE_ROMAJI[char];
+    if (digraph) {
+      i++;
+    }
+    if (syllable === undefined) {
+      syllable = char.toLowerCase();
+    }
+
+    if (pendingSokuon) {
+      // 促音は次の子音を重ねる（ch の前は t）
+      if (syllable.startsWith('ch')) {
+        result += 't';
+      } else if (/^[bcdfghjkmprstvwyz]/.test(syllable)) {
+        result += syllable[0];
+      }
+      pendingSokuon = false;
+    }
+    result += syllable;
+  }
+
+  return result;
+}
+
+/**
+ * ローマ字を照合用に正規化
+ * 記号・空白・マクロンを除去し、長音（ou / oo / uu）を1文字にまとめる
+ * 例: "Kyōto" / "kyouto" / "Kyo-to" → "kyoto"
+ */
+export function normalizeRomaji(romaji: string): string {
+  return romaji
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // マクロン等の結合文字を除去
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/ou/g, 'o')
+    .replace(/oo/g, 'o')
+    .replace(/uu/g, 'u');
+}
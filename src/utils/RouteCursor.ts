@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import { DateTimeType, Route, RoutePage } from '../types/index.js';
+import { loadMaster } from '../data/index.js';
+import { addMinutes, formatJstIso, parseJstDateTime, toEpochMs } from './JstTime.js';
+import { ValidationError } from './ToolErrors.js';
+
+/**
+ * 前後のルートを探す際に検索時刻をずらす回数の上限
+ * 1回ずらしても新しいルートがない場合は、さらに間隔を広げて再検索する
+ */
+export const MAX_PAGE_SHIFTS = 3;
+
+/**
+ * カーソルに保持する返却済みルートの上限（古いものから破棄）
+ */
+const MAX_SEEN_SIGNATURES = 60;
+
+/**
+ * カーソルの内容（base64url エンコードした JSON としてクライアントに渡す）
+ */
+export interface RouteCursor {
+  v: 1;
+  q: string;                       // 検索条件のフィンガープリント
+  type: 'departure' | 'arrival';   // ページ送りの基準（出発時刻 / 到着時刻）
+  anchor: string;                  // 直前に返したページの基準時刻（出発: 最も早い出発、到着: 最も遅い到着）
+  seen: string[];                  // 返却済みルートの区間シグネチャ（ハッシュ）
+}
+
+/**
+ * ページ送りで再検索する条件
+ */
+export interface RoutePageQuery {
+  datetime: string;
+  datetime_type: 'departure' | 'arrival';
+}
+
+/**
+ * 検索条件のフィンガープリントを作成（日時はページ送りで変わるため含めない）
+ */
+export function createRouteFingerprint(...conditions: (string | undefined)[]): string {
+  return hash(JSON.stringify(conditions.map(condition => condition ?? '')));
+}
+
+/**
+ * ルートの区間シグネチャ（同じ便・同じ乗継ぎなら同じ値）
+ */
+export function routeSignature(route: Route): string {
+  return hash(route.legs
+    .map(leg => [leg.mode, leg.line ?? '', leg.from ?? '', leg.to ?? '', leg.depart_time ?? ''].join('|'))
+    .join('>'));
+}
+
+/**
+ * クライアントから受け取ったカーソルをデコード
+ * @throws Error 不正なカーソル、または別の検索条件のカーソルの場合
+ */
+export function decodeRouteCursor(cursor: string, fingerprint: string): RouteCursor {
+  let state: RouteCursor;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor. Pass the cursor returned by the previous route search unchanged');
+  }
+
+  if (state?.v !== 1 || typeof state.anchor !== 'string' || !Array.isArray(state.seen) ||
+      (state.type !== 'departure' && state.type !== 'arrival')) {
+    throw new ValidationError('Invalid cursor. Pass the cursor returned by the previous route search unchanged');
+  }
+  if (state.q !== fingerprint) {
+    throw new ValidationError('Invalid cursor. It belongs to a route search with different stations or language');
+  }
+
+  return state;
+}
+
+/**
+ * ページ送りの再検索条件を作成
+ * 次のページは基準時刻から SEARCH_NEXT_INTERVAL_TIME 分後、前のページは同じだけ前を検索する
+ * @param shift 何回目のずらしか（1 から）
+ */
+export function resolvePageQuery(cursor: RouteCursor, page: RoutePage, shift: number): RoutePageQuery {
+  const minutes = getPageIntervalMinutes() * shift * (page === 'previous' ? -1 : 1);
+  return {
+    datetime: formatJstIso(addMinutes(parseJstDateTime(cursor.anchor), minutes)),
+    datetime_type: cursor.type
+  };
+}
+
+/**
+ * 返却済みのルートを除外
+ */
+export function excludeSeenRoutes(routes: Route[], cursor: RouteCursor): Route[] {
+  const seen = new Set(cursor.seen);
+  return routes.filter(route => !seen.has(routeSignature(route)));
+}
+
+/**
+ * 返却するルートから次回のカーソルを作成
+ * 時刻を持たない推定ルートのみの場合やルートがない場合は、前回のカーソルを引き継ぐ（初回は undefined）
+ * @param previous 今回の検索で使ったカーソル（初回検索では undefined）
+ */
+export function encodeRouteCursor(
+  routes: Route[],
+  fingerprint: string,
+  datetimeType: DateTimeType,
+  previous?: RouteCursor
+): string | undefined {
+  const type = previous?.type ?? (datetimeType === 'arrival' || datetimeType === 'last' ? 'arrival' : 'departure');
+  const times = routes
+    .map(route => type === 'departure' ? route.summary.depart : route.summary.arrive)
+    .filter((time): time is string => !!time)
+    .map(time => parseJstDateTime(time));
+
+  if (times.length === 0) {
+    return previous ? toBase64Url(previous) : undefined;
+  }
+
+  // 出発時刻基準は最も早い出発、到着時刻基準は最も遅い到着をページの基準とする
+  const sorted = times.sort((a, b) => toEpochMs(a) - toEpochMs(b));
+  const anchor = type === 'departure' ? sorted[0] : sorted[sorted.length - 1];
+
+  const state: RouteCursor = {
+    v: 1,
+    q: fingerprint,
+    type,
+    anchor: formatJstIso(anchor),
+    seen: [...(previous?.seen ?? []), ...routes.map(routeSignature)].slice(-MAX_SEEN_SIGNATURES)
+  };
+  return toBase64Url(state);
+}
+
+let pageIntervalMinutes: number | null = null;
+
+/**
+ * ページ送りの間隔（分）をマスターデータから取得（初回のみ読み込み）
+ */
+function getPageIntervalMinutes(): number {
+  if (pageIntervalMinutes === null) {
+    pageIntervalMinutes = loadMaster('ja').coefficient.SEARCH_NEXT_INTERVAL_TIME || 10;
+  }
+  return pageIntervalMinutes;
+}
+
+function toBase64Url(state: RouteCursor): string {
+  return Buffer.from(JSON.stringify(state), 'utf8').toString('base64url');
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 12);
+}
@@ -0,0 +1,241 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * キャッシュに保存するエントリ
+ */
+export interface RouteHtmlCacheEntry {
+  html: string;
+  storedAt: number; // epoch milliseconds
+}
+
+/**
+ * キャッシュの保存先（差し替え可能）
+ */
+export interface RouteHtmlCacheStore {
+  get(key: string): Promise<RouteHtmlCacheEntry | null>;
+  set(key: string, entry: RouteHtmlCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * キャッシュのヒット・ミス統計
+ */
+export interface RouteHtmlCacheStats {
+  hits: number;
+  misses: number;
+  hit_rate: number;
+}
+
+/**
+ * RouteHtmlCacheのオプション
+ */
+export interface RouteHtmlCacheOptions {
+  stores?: RouteHtmlCacheStore[]; // 先頭から順に参照（デフォルト: メモリLRUのみ）
+  ttlMs?: number;                 // 有効期限（デフォルト: 5分）
+  timeBucketMinutes?: number;     // tm をこの分単位で切り捨ててキーにする（デフォルト: 1 = 丸めなし）
+}
+
+/**
+ * メモリ上のLRUキャッシュ
+ */
+export class MemoryLruCacheStore implements RouteHtmlCacheStore {
+  private entries: Map<string, RouteHtmlCacheEntry> = new Map();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number = 200) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<RouteHtmlCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    // 参照されたエントリを末尾（最新）に移動
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: RouteHtmlCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // 上限を超えた分を古い順に削除
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * ディスク上のキャッシュ（プロセス再起動後も再利用可能）
+ * キーのSHA-256ハッシュをファイル名としてJSONで保存する
+ */
+export class FileCacheStore implements RouteHtmlCacheStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<RouteHtmlCacheEntry | null> {
+    try {
+      const content = await fs.readFile(this.filePath(key), 'utf8');
+      const stored = JSON.parse(content);
+      // ハッシュ衝突・破損ファイル対策としてキーを照合
+      if (stored.key !== key || typeof stored.html !== 'string') {
+        return null;
+      }
+      return { html: stored.html, storedAt: stored.storedAt };
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: RouteHtmlCacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(key), JSON.stringify({ key, ...entry }), 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+    await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => fs.rm(path.join(this.directory, file), { force: true })));
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
+
+/**
+ * ルート検索HTMLのキャッシュ
+ * 単一責任原則：検索パラメータの正規化とキャッシュ参照のみを担当
+ */
+export class RouteHtmlCache {
+  private readonly stores: RouteHtmlCacheStore[];
+  private readonly ttlMs: number;
+  private readonly timeBucketMinutes: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: RouteHtmlCacheOptions = {}) {
+    this.stores = options.stores && options.stores.length > 0 ? options.stores : [new MemoryLruCacheStore()];
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000; // 5分
+    this.timeBucketMinutes = Math.max(1, Math.floor(options.timeBucketMinutes ?? 1));
+  }
+
+  /**
+   * フォーマット済みの検索パラメータからキャッシュキーを生成
+   * パラメータ順序に依存しないようキーをソートし、tm は時間バケットに丸める
+   */
+  buildKey(params: Record<string, string>): string {
+    const normalized = Object.keys(params)
+      .sort()
+      .map(name => {
+        const value = (params[name] ?? '').trim();
+        return `${name}=${name === 'tm' ? this.bucketTime(value) : value}`;
+      });
+    return normalized.join('&');
+  }
+
+  /**
+   * キャッシュを参照（期限切れは削除してミス扱い）
+   * 後段のストアでヒットした場合は前段のストアにも書き戻す
+   */
+  async get(key: string): Promise<string | null> {
+    const now = Date.now();
+
+    for (let i = 0; i < this.stores.length; i++) {
+      const entry = await this.stores[i].get(key);
+      if (!entry) {
+        continue;
+      }
+
+      if (now - entry.storedAt > this.ttlMs) {
+        await this.stores[i].delete(key);
+        continue;
+      }
+
+      for (let j = 0; j < i; j++) {
+        await this.stores[j].set(key, entry);
+      }
+      this.hits++;
+      return entry.html;
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  /**
+   * 全ストアに保存
+   */
+  async set(key: string, html: string): Promise<void> {
+    const entry: RouteHtmlCacheEntry = { html, storedAt: Date.now() };
+    await Promise.all(this.stores.map(store => store.set(key, entry)));
+  }
+
+  /**
+   * 全ストアを消去
+   */
+  async clear(): Promise<void> {
+    await Promise.all(this.stores.map(store => store.clear()));
+  }
+
+  /**
+   * ヒット・ミス統計を取得
+   */
+  getStats(): RouteHtmlCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hit_rate: total === 0 ? 0 : this.hits / total
+    };
+  }
+
+  /**
+   * "HH:MM" を時間バケットの先頭に切り捨てる
+   */
+  private bucketTime(tm: string): string {
+    const match = tm.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match || this.timeBucketMinutes <= 1) {
+      return tm;
+    }
+
+    const totalMinutes = parseInt(match[1]) * 60 + parseInt(match[2]);
+    const bucketed = totalMinutes - (totalMinutes % this.timeBucketMinutes);
+    const hours = Math.floor(bucketed / 60).toString().padStart(2, '0');
+    const minutes = (bucketed % 60).toString().padStart(2, '0');
+    return `${hours}:${minutes}`;
+  }
+}
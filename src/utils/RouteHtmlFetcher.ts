@@ -1,6 +1,12 @@
 import axios, { AxiosRequestConfig } from 'axios';
-import { RouteSearchParams, Master, LandmarkData } from '../types/index.js';
+import { RouteSearchParams, Master, LandmarkData, Station, TransitMode } from '../types/index.js';
 import { loadMaster, loadLandmarkData } from '../data/index.js';
+import { RouteHtmlCache, RouteHtmlCacheStats } from './RouteHtmlCache.js';
+import { RouteHtmlRecorder } from './RouteHtmlRecorder.js';
+import { LAT_LNG_RATIO } from './GeoDistance.js';
+import { parseJstDateTime, formatJstIso } from './JstTime.js';
+import { StopNotFoundError } from './ToolErrors.js';
+import { selectStationName, StationFilter } from './StationSelection.js';
 
 /**
  * HTML取得のオプション
@@ -9,6 +15,17 @@ interface FetchOptions {
   baseUrl?: string;
   timeout?: number;
   retries?: number;
+  cache?: RouteHtmlCache;
+  recorder?: RouteHtmlRecorder;
+}
+
+/**
+ * ルート検索ごとのオプション
+ */
+export interface RouteFetchOptions {
+  viaStation?: string;          // 経由地（駅・バス停名）
+  allowedModes?: TransitMode[]; // 近隣駅リストに含める交通手段
+  excludedCompanies?: number[]; // 近隣駅リストから除く事業者（Master.company の ID）
 }
 
 /**
@@ -31,12 +48,11 @@ export class RouteHtmlFetcher {
   private baseUrl: string;
   private timeout: number;
   private retries: number;
+  private cache: RouteHtmlCache | null;
+  private recorder: RouteHtmlRecorder | null;
   private master: Master | null = null;
   private landmarkData: LandmarkData | null = null;
 
-  // 京都付近での緯度と経度の距離比率
-  private readonly LAT_LNG_RATIO = 912.8816392747891 / 1109.4063947762538;
-  
   // 例外処理用の定数
   private readonly ARASHIYAMA_NEAR_STATIONS = '嵐山(阪急),0,嵐山(京福電気鉄道),0,嵯峨嵐山,0';
   private readonly KIYOMIZUDERA_NEAR_STATIONS = '五条坂(京都市バス),8,五条坂(京阪バス),8,清水道(京都市バス),8,清水道(京阪バス),8';
@@ -51,6 +67,15 @@ export class RouteHtmlFetcher {
     this.baseUrl = options.baseUrl || 'https://arukumachikyoto.jp';
     this.timeout = options.timeout || 30000; // 30秒
     this.retries = options.retries || 3;
+    this.cache = options.cache || null;
+    this.recorder = options.recorder || null;
+  }
+
+  /**
+   * キャッシュのヒット・ミス統計を取得（キャッシュ未設定時は null）
+   */
+  getCacheStats(): RouteHtmlCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
   }
 
   /**
@@ -73,13 +98,14 @@ export class RouteHtmlFetcher {
     toStation: string,
     datetime: string,
     datetimeType: 'departure' | 'arrival' | 'first' | 'last',
-    language: 'ja' | 'en'
+    language: 'ja' | 'en',
+    options: RouteFetchOptions = {}
   ): Promise<string> {
     await this.initMasterData(language);
 
     // 近隣駅リストと緯度経度を生成
-    const { NearbyStations: fromStations, Coords: fromCoords, Type: fromType } = await this.generateNearbyStations(fromStation, language);
-    const { NearbyStations: toStations, Coords: toCoords, Type: toType } = await this.generateNearbyStations(toStation, language);
+    const { NearbyStations: fromStations, Coords: fromCoords, Type: fromType } = await this.generateNearbyStations(fromStation, language, options);
+    const { NearbyStations: toStations, Coords: toCoords, Type: toType } = await this.generateNearbyStations(toStation, language, options);
 
     // 始発・終電の場合の時刻処理
     const { finalDateTime, timeType } = this.processFirstLastTime(datetime, datetimeType);
@@ -96,7 +122,7 @@ export class RouteHtmlFetcher {
       de: 'n',            // delay estimation
       tt: timeType,       // 始発: 'f'、終電: 'l'、それ以外: 'd' または 'a'
       md: 't',            // mode (transit)
-      pn: '',             // pass name (経由地)
+      pn: this.resolveViaStation(options.viaStation, language, options), // pass name (経由地)
       lang: language,
       fi: fromType,       // from type identifier
       ti: toType          // to type identifier
@@ -115,7 +141,8 @@ export class RouteHtmlFetcher {
     toLng: number,
     datetime: string,
     datetimeType: 'departure' | 'arrival' | 'first' | 'last',
-    language: 'ja' | 'en'
+    language: 'ja' | 'en',
+    options: RouteFetchOptions = {}
   ): Promise<string> {
     // Master data を初期化
     await this.initMasterData(language);
@@ -124,12 +151,12 @@ export class RouteHtmlFetcher {
     let toStations = '';
     
     try {
-      fromStations = this.searchNearStations([fromLng, fromLat], '', 'S');
+      fromStations = this.searchNearStations([fromLng, fromLat], '', 'S', options);
     } catch (error) {
     }
     
     try {
-      toStations = this.searchNearStations([toLng, toLat], '', 'S');
+      toStations = this.searchNearStations([toLng, toLat], '', 'S', options);
     } catch (error) {
     }
 
@@ -148,7 +175,7 @@ export class RouteHtmlFetcher {
       de: 'n',
       tt: timeType,      // 始発: 'f'、終電: 'l'、それ以外: 'd' または 'a'
       md: 't',
-      pn: '',
+      pn: this.resolveViaStation(options.viaStation, language, options),
       lang: language,
       fi: 'S', // 座標検索はSpot
       ti: 'S'
@@ -160,8 +187,10 @@ export class RouteHtmlFetcher {
    * 駅名から近隣駅リストと緯度経度を生成
    * 元サイトのget_near_stations_all関数のロジックに基づく実装
    * 一時的に公開
+   * @throws AmbiguousStopError 事業者名なしの駅名に複数の事業者の候補がある場合
+   * @throws StopNotFoundError 駅・バス停・観光スポットが見つからない場合
    */
-  private async generateNearbyStations(stationName: string, language: 'ja' | 'en'): Promise<{
+  private async generateNearbyStations(stationName: string, language: 'ja' | 'en', options: RouteFetchOptions = {}): Promise<{
     NearbyStations: string;
     Coords: string;
     Type: string;
@@ -174,7 +203,7 @@ export class RouteHtmlFetcher {
     const arashiyamaName = language === 'en' ? 'Arashiyama' : '嵐山';
     if (stationName === arashiyamaName) {
       return {
-        NearbyStations: this.ARASHIYAMA_NEAR_STATIONS,
+        NearbyStations: this.filterNearStationList(this.ARASHIYAMA_NEAR_STATIONS, options),
         Coords: '', // 特別ケースでは空
         Type: 'S'
       };
@@ -184,7 +213,7 @@ export class RouteHtmlFetcher {
     const kiyomizuderaLandmark = this.landmarkData.data[this.KIYOMIZUDERA_LANDMARK_CODE];
     if (kiyomizuderaLandmark && stationName === kiyomizuderaLandmark.name) {
       return {
-        NearbyStations: this.KIYOMIZUDERA_NEAR_STATIONS,
+        NearbyStations: this.filterNearStationList(this.KIYOMIZUDERA_NEAR_STATIONS, options),
         Coords: `${kiyomizuderaLandmark.lat},${kiyomizuderaLandmark.lng}`,
         Type: 'S'
       };
@@ -194,7 +223,7 @@ export class RouteHtmlFetcher {
     const ginkakujiLandmark = this.landmarkData.data[this.GINKAKUJI_LANDMARK_CODE];
     if (ginkakujiLandmark && stationName === ginkakujiLandmark.name) {
       return {
-        NearbyStations: this.GINKAKUJI_NEAR_STATIONS,
+        NearbyStations: this.filterNearStationList(this.GINKAKUJI_NEAR_STATIONS, options),
         Coords: `${ginkakujiLandmark.lat},${ginkakujiLandmark.lng}`,
         Type: 'S'
       };
@@ -208,7 +237,7 @@ export class RouteHtmlFetcher {
     const directStation = this.master.station[stationName];
     if (directStation) {
       // 直接検索でヒットした場合
-      const nearStations = this.searchNearStations([directStation.lng, directStation.lat], stationName, directStation.ekidiv);
+      const nearStations = this.searchNearStations([directStation.lng, directStation.lat], stationName, directStation.ekidiv, options);
       
       return {
         NearbyStations: nearStations,
@@ -218,73 +247,23 @@ export class RouteHtmlFetcher {
     }
 
     // 駅・バス停での検索（事業者名なしの駅名で検索）
-    const stationSelect = this.master.stationselect[baseStationName];
-    if (stationSelect) {
-      // 鉄道駅とバス停の種別判定
-      let railStations: any[] = [];
-      let busStations: any[] = [];
-      
-      for (const stationInfo of stationSelect.stationnames) {
-        const station = this.master.station[stationInfo.stationname];
-        if (station) {
-          if (station.ekidiv === 'R') {
-            railStations.push(station);
-          } else if (station.ekidiv === 'B') {
-            busStations.push(station);
-          }
-        }
-      }
-
-      // 元の駅名に事業者名が含まれている場合は、その事業者の駅を優先
-      let targetStations: any[] = [];
-      let stationType: string = 'B';
-      
-      if (stationName !== baseStationName) {
-        // 事業者名が指定されている場合
-        for (const stationInfo of stationSelect.stationnames) {
-          if (stationInfo.stationname === stationName) {
-            const station = this.master.station[stationInfo.stationname];
-            if (station) {
-              targetStations = [station];
-              stationType = station.ekidiv;
-              break;
-            }
-          }
-        }
-      }
-      
-      // 指定された事業者の駅が見つからない場合は従来の優先順位
-      if (targetStations.length === 0) {
-        targetStations = railStations.length > 0 ? railStations : busStations;
-        stationType = railStations.length > 0 ? 'R' : 'B';
-      }
+    const selectedName = selectStationName(this.master, stationName, language, this.createStationFilter(options));
+    if (selectedName) {
+      const station = this.master.station[selectedName];
+      const nearStations = this.searchNearStations([station.lng, station.lat], baseStationName, station.ekidiv, options);
 
-      if (targetStations.length > 0) {
-        // 平均緯度経度を計算
-        let lat = 0, lng = 0;
-        for (const station of targetStations) {
-          lat += station.lat;
-          lng += station.lng;
-        }
-        lat /= targetStations.length;
-        lng /= targetStations.length;
-
-        // 近隣駅を検索
-        const nearStations = this.searchNearStations([lng, lat], baseStationName, stationType);
-        
-        return {
-          NearbyStations: nearStations,
-          Coords: `${lat},${lng}`,
-          Type: stationType
-        };
-      }
+      return {
+        NearbyStations: nearStations,
+        Coords: `${station.lat},${station.lng}`,
+        Type: station.ekidiv
+      };
     }
 
     // 観光スポットでの検索
     for (const code in this.landmarkData.data) {
       const landmark = this.landmarkData.data[code];
       if (landmark.name === stationName && landmark.lat && landmark.lng) {
-        const nearStations = this.searchNearStations([landmark.lng, landmark.lat], '', 'S');
+        const nearStations = this.searchNearStations([landmark.lng, landmark.lat], '', 'S', options);
         
         return {
           NearbyStations: nearStations,
@@ -294,19 +273,79 @@ export class RouteHtmlFetcher {
       }
     }
 
-    // デフォルトパターン（見つからない場合）
-    console.warn(`Station not found in master data: ${stationName}, using default pattern`);
-    return {
-      NearbyStations: `${stationName},0`, // 最低限の形式
-      Coords: '35.0,135.7', // デフォルト京都市内座標
-      Type: 'B' // デフォルトはBus
-    };
+    throw new StopNotFoundError(`Stop not found: ${stationName}`, { station: stationName });
+  }
+
+  /**
+   * 経由地の駅・バス停名をマスターデータの駅名（事業者名付き）に解決
+   * 出発地・到着地と同じく、事業者名なしの場合は allowedModes / excludedCompanies に合う候補が1つの場合に特定できる
+   * @throws AmbiguousStopError 事業者名なしの駅名に複数の事業者の候補がある場合
+   * @throws StopNotFoundError 駅・バス停が見つからない場合
+   */
+  private resolveViaStation(viaStation: string | undefined, language: 'ja' | 'en', options: RouteFetchOptions): string {
+    if (!viaStation) {
+      return '';
+    }
+    if (!this.master) {
+      throw new Error('Master data not initialized');
+    }
+
+    const resolved = selectStationName(this.master, viaStation, language, this.createStationFilter(options));
+    if (!resolved) {
+      throw new StopNotFoundError(`Stop not found: ${viaStation}`, { station: viaStation });
+    }
+    return resolved;
+  }
+
+  /**
+   * 事業者名なしの駅名の候補を allowedModes / excludedCompanies で絞り込む条件
+   */
+  private createStationFilter(options: RouteFetchOptions): StationFilter {
+    return (stationName, station) => this.isStationAllowed(stationName, station, options);
+  }
+
+  /**
+   * 駅・バス停が allowedModes / excludedCompanies に合うかどうか
+   */
+  private isStationAllowed(stationName: string, station: Station, options: RouteFetchOptions): boolean {
+    if (options.allowedModes && !options.allowedModes.includes(station.ekidiv === 'R' ? 'train' : 'bus')) {
+      return false;
+    }
+    if (options.excludedCompanies && options.excludedCompanies.length > 0) {
+      const companyId = this.master!.stationselect[station.selectname]?.stationnames
+        .find(stationInfo => stationInfo.stationname === stationName)?.companyid;
+      if (companyId !== undefined && options.excludedCompanies.includes(companyId)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 固定の近隣駅リスト（"駅名,徒歩分,..."）から allowedModes / excludedCompanies に合わない駅を除く
+   * マスターデータにない駅（JR など）は残し、すべて除かれる場合は元のリストのまま返す
+   */
+  private filterNearStationList(list: string, options: RouteFetchOptions): string {
+    const pairs = list.split(',').reduce<string[][]>((result, value, index) => {
+      if (index % 2 === 0) {
+        result.push([value]);
+      } else {
+        result[result.length - 1].push(value);
+      }
+      return result;
+    }, []);
+    const allowed = pairs.filter(([name]) => {
+      const station = this.master?.station[name];
+      return !station || this.isStationAllowed(name, station, options);
+    });
+    return allowed.length > 0 ? allowed.map(pair => pair.join(',')).join(',') : list;
   }
 
   /**
    * 近隣駅検索（元サイトのsearch_near_stations_all関数のロジック）
+   * allowedModes / excludedCompanies に合わない駅・バス停は候補から除く
    */
-  private searchNearStations(lonLat: [number, number], name: string, type: string): string {
+  private searchNearStations(lonLat: [number, number], name: string, type: string, options: RouteFetchOptions = {}): string {
     if (!this.master) {
       throw new Error('Master data not initialized');
     }
@@ -331,6 +370,9 @@ export class RouteHtmlFetcher {
     // 全駅を検索して距離を計算
     for (const stationName in this.master.station) {
       const sinfo = this.master.station[stationName];
+      if (!this.isStationAllowed(stationName, sinfo, options)) {
+        continue;
+      }
       let len: number;
       let isExactMatch = false;
       
@@ -342,7 +384,7 @@ export class RouteHtmlFetcher {
       } else {
         // 距離計算（元サイトのロジック）
         len = Math.pow(lonLat[1] - sinfo.lat, 2) + 
-              Math.pow(lonLat[0] - sinfo.lng, 2) * Math.pow(this.LAT_LNG_RATIO, 2);
+              Math.pow(lonLat[0] - sinfo.lng, 2) * Math.pow(LAT_LNG_RATIO, 2);
       }
 
       // ランキングに挿入
@@ -425,10 +467,25 @@ export class RouteHtmlFetcher {
     const fullUrl = `${config.url}?${queryString}`;
     let lastError: Error | null = null;
 
+    // 再生モードでは記録済みHTMLのみを返す（ネットワークには接続しない）
+    if (this.recorder?.mode === 'replay') {
+      return this.recorder.load(queryString);
+    }
+
+    // 同一条件の検索はキャッシュから返す
+    const cacheKey = this.cache ? this.cache.buildKey(formattedParams) : '';
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey);
+      if (cached !== null) {
+        return cached;
+      }
+    }
+
     for (let attempt = 1; attempt <= this.retries; attempt++) {
       try {
         const response = await axios(config);
         if (response.status === 200 && response.data) {
+          await this.storeResponse(cacheKey, queryString, response.data);
           return response.data;
         } else {
           throw new Error(`Invalid response: ${response.status}`);
@@ -445,6 +502,23 @@ export class RouteHtmlFetcher {
     throw new Error(`Failed to fetch route HTML after ${this.retries} attempts: ${lastError?.message}`);
   }
 
+  /**
+   * 取得したHTMLをキャッシュ・記録ディレクトリに保存
+   * 保存に失敗しても取得自体は成功として扱う
+   */
+  private async storeResponse(cacheKey: string, queryString: string, html: string): Promise<void> {
+    try {
+      if (this.cache) {
+        await this.cache.set(cacheKey, html);
+      }
+      if (this.recorder?.mode === 'record') {
+        await this.recorder.save(queryString, html);
+      }
+    } catch (error) {
+      console.error('Failed to store route HTML:', error instanceof Error ? error.message : error);
+    }
+  }
+
   /**
    * パラメータをURL用にフォーマット
    */
@@ -471,18 +545,22 @@ export class RouteHtmlFetcher {
     return baseParams;
   }
 
+  /**
+   * 日付をJSTで "YYYY/M/D" 形式にフォーマット
+   */
   private formatDate(datetime: string): string {
-    const date = new Date(datetime);
-    const year = date.getFullYear();
-    const month = (date.getMonth() + 1).toString(); // パディングなし：成功URLは "2025/07/7"
-    const day = date.getDate().toString();
-    return `${year}/${month}/${day}`;
+    const date = parseJstDateTime(datetime);
+    // パディングなし：成功URLは "2025/07/7"
+    return `${date.year}/${date.month}/${date.day}`;
   }
 
+  /**
+   * 時刻をJSTで "HH:MM" 形式にフォーマット
+   */
   private formatTime(datetime: string): string {
-    const date = new Date(datetime);
-    const hours = date.getHours().toString().padStart(2, '0');
-    const minutes = date.getMinutes().toString().padStart(2, '0');
+    const date = parseJstDateTime(datetime);
+    const hours = date.hours.toString().padStart(2, '0');
+    const minutes = date.minutes.toString().padStart(2, '0');
     return `${hours}:${minutes}`;
   }
 
@@ -500,21 +578,20 @@ export class RouteHtmlFetcher {
       return { finalDateTime: datetime, timeType: datetimeType === 'departure' ? 'd' : 'a' };
     }
 
-    const date = new Date(datetime);
+    // 日付はJSTで解釈する（ホストのタイムゾーンに依存しない）
+    const date = parseJstDateTime(datetime);
     
     if (datetimeType === 'first') {
       // 始発の場合：マスターデータから始発時刻を取得、なければデフォルト5:00
       const firstTime = this.master.coefficient.SEARCH_FIRST_DEPARTURE_TIME || '05:00';
       const [hours, minutes] = firstTime.split(':').map(Number);
-      date.setHours(hours, minutes, 0, 0);
-      const finalDateTime = date.toISOString().slice(0, 16); // YYYY-MM-DDTHH:MM形式
+      const finalDateTime = formatJstIso({ ...date, hours, minutes }); // YYYY-MM-DDTHH:MM+09:00形式
       return { finalDateTime, timeType: 'f' };
     } else if (datetimeType === 'last') {
       // 終電の場合：マスターデータから終電時刻を取得、なければデフォルト23:30
       const lastTime = this.master.coefficient.SESRCH_LAST_ARRIVAL_TIME || '23:30';
       const [hours, minutes] = lastTime.split(':').map(Number);
-      date.setHours(hours, minutes, 0, 0);
-      const finalDateTime = date.toISOString().slice(0, 16); // YYYY-MM-DDTHH:MM形式
+      const finalDateTime = formatJstIso({ ...date, hours, minutes }); // YYYY-MM-DDTHH:MM+09:00形式
       return { finalDateTime, timeType: 'l' }; // 終電の場合は tt=l を使用
     } else {
       // 通常の出発・到着時刻
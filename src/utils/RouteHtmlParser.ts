@@ -1,6 +1,11 @@
 import * as cheerio from 'cheerio';
-import { Route, RouteLeg, RouteSearchResponse } from '../types/index.js';
+import { Coefficient, ParseDiagnostics, Route, RouteLeg, RouteSearchResponse } from '../types/index.js';
+import { loadMaster } from '../data/index.js';
 import { StationCoordinateResolver } from './StationCoordinateResolver.js';
+import { estimateRouteMetrics, parseRouteMetrics, RouteMetrics } from './RouteMetrics.js';
+import { getRoutePagePatterns, matchNumber, RoutePagePatterns } from './RoutePageLocale.js';
+import { findMissingAnchors } from './ParseDiagnostics.js';
+import { JstDateTime, nowJst, addDays, formatJstIso, parseJstDateTime } from './JstTime.js';
 
 /**
  * HTMLからルート情報を解析してJSONに変換するクラス
@@ -8,6 +13,7 @@ import { StationCoordinateResolver } from './StationCoordinateResolver.js';
  */
 export class RouteHtmlParser {
   private coordinateResolver: StationCoordinateResolver;
+  private coefficient: Coefficient | null = null;
 
   constructor() {
     this.coordinateResolver = new StationCoordinateResolver();
@@ -15,10 +21,13 @@ export class RouteHtmlParser {
   
   /**
    * HTMLからルート検索結果を解析
+   * parse_diagnostics に使用した解析方法と見つからなかった要素を記録する
    */
   parseHtml(html: string, language: 'ja' | 'en' = 'ja'): RouteSearchResponse {
+    const diagnostics: ParseDiagnostics = { strategy: null, missing_anchors: [], no_results: false };
     try {
       const $ = cheerio.load(html);
+      diagnostics.missing_anchors = findMissingAnchors($);
       
       // エラーメッセージの検出
       const bodyText = $('body').text();
@@ -31,42 +40,54 @@ export class RouteHtmlParser {
       ].some(msg => bodyText.includes(msg));
 
       if (hasErrorMessage) {
-
+        diagnostics.no_results = true;
         return {
           routes: [],
-          truncated: false
+          truncated: false,
+          parse_diagnostics: diagnostics
         };
       }
 
-      const routes = this.extractRoutes($, language);
+      const routes = this.extractRoutes($, language, diagnostics).map(route => this.withMetrics(route, language));
       
 
       return {
         routes,
-        truncated: false // トークン制限は上位層で処理
+        truncated: false, // トークン制限は上位層で処理
+        parse_diagnostics: diagnostics
       };
     } catch (error) {
-
+      diagnostics.strategy = null;
+      this.recordError(diagnostics, 'page', error);
       return {
         routes: [],
-        truncated: false
+        truncated: false,
+        parse_diagnostics: diagnostics
       };
     }
   }
 
+  /**
+   * 解析中のエラーを診断情報に記録
+   */
+  private recordError(diagnostics: ParseDiagnostics, source: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    (diagnostics.errors ??= []).push(`${source}: ${message}`);
+  }
+
   /**
    * HTMLからルート一覧を抽出
    */
-  private extractRoutes($: cheerio.CheerioAPI, language: 'ja' | 'en' = 'ja'): Route[] {
+  private extractRoutes($: cheerio.CheerioAPI, language: 'ja' | 'en', diagnostics: ParseDiagnostics): Route[] {
     const routes: Route[] = [];
     
     // デバッグログをstderrに出力（MCPプロトコルを破壊しないように）
     // まずHTMLから正確な時刻情報を取得
-    const htmlRoutes = this.extractRoutesFromHtml($);
+    const htmlRoutes = this.extractRoutesFromHtml($, getRoutePagePatterns(language), diagnostics);
 
     
     // 次に生データから詳細な区間情報を取得
-    const rawRoutes = this.extractRawRoutes($, language);
+    const rawRoutes = this.extractRawRoutes($, language, diagnostics);
 
     
     // HTMLと生データの情報を統合
@@ -88,7 +109,9 @@ export class RouteHtmlParser {
             duration_min: htmlRoutes[i].summary.duration_min,
             transfers: htmlRoutes[i].summary.transfers,
             // HTMLから正確な運賃を使用（生データには運賃情報なし）
-            fare_jpy: htmlRoutes[i].summary.fare_jpy
+            fare_jpy: htmlRoutes[i].summary.fare_jpy,
+            // 結果ページの CO2・消費カロリー・歩数
+            ...this.pickMetrics(htmlRoutes[i].summary)
           },
           // HTMLに運賃情報があればHTMLのlegsを使用、なければ生データと座標情報をマージ
           legs: htmlHasFareInfo ? htmlLegs : this.mergeLegsWithCoordinates(htmlLegs, rawLegs)
@@ -99,10 +122,8 @@ export class RouteHtmlParser {
 
       routes.push(...htmlRoutes);
     } else if (rawRoutes.length > 0) {
-
+      diagnostics.strategy = 'raw';
       routes.push(...rawRoutes);
-    } else {
-
     }
     
 
@@ -134,7 +155,7 @@ export class RouteHtmlParser {
   /**
    * form#resultInfo の生データから解析（高精度）
    */
-  private extractRawRoutes($: cheerio.CheerioAPI, language: 'ja' | 'en' = 'ja'): Route[] {
+  private extractRawRoutes($: cheerio.CheerioAPI, language: 'ja' | 'en', diagnostics: ParseDiagnostics): Route[] {
     const routes: Route[] = [];
     const elements = $('form#resultInfo input[name^="rt"]');
 
@@ -150,10 +171,10 @@ export class RouteHtmlParser {
 
             routes.push(route);
           } else {
-
+            this.recordError(diagnostics, `rt${index}`, 'no legs in raw data');
           }
         } catch (error) {
-
+          this.recordError(diagnostics, `rt${index}`, error);
         }
       }
     });
@@ -179,6 +200,7 @@ export class RouteHtmlParser {
     let i = 0;
     let currentType = '';
     let currentName = '';
+    let currentPlatform = '';
 
     while (i < segments.length) {
       const segment = segments[i];
@@ -186,6 +208,7 @@ export class RouteHtmlParser {
       if (segment === 'busstop' || segment === 'station' || segment === 'spot') {
         currentType = segment;
         currentName = segments[i + 1] || '';
+        currentPlatform = segments[i + 2] || '';
         i += 4; // type, name, platform, id をスキップ
       } else if (segment === 'bus' || segment === 'train') {
         // バス・電車セグメント: mode$line$$fare$duration1$duration2$hash$flag$stops$stationId
@@ -200,10 +223,12 @@ export class RouteHtmlParser {
 
         // 次の停留所名を取得
         let toName = '';
+        let toPlatform = '';
         let j = i + 10;
         while (j < segments.length && segments[j] !== 'walk' && segments[j] !== 'bus' && segments[j] !== 'train') {
           if (segments[j] === 'busstop' || segments[j] === 'station' || segments[j] === 'spot') {
             toName = segments[j + 1] || '';
+            toPlatform = segments[j + 2] || '';
             break;
           }
           j++;
@@ -226,6 +251,7 @@ export class RouteHtmlParser {
           stops,
           fare_jpy: fare
         };
+        this.applyPlatforms(leg, currentPlatform, toPlatform);
 
         legs.push(leg);
         totalFare += fare;
@@ -273,8 +299,9 @@ export class RouteHtmlParser {
 
   /**
    * HTML構造から解析（フォールバック）
+   * 表示言語の解析パターンで日本語・英語の結果ページを同じように扱う
    */
-  private extractRoutesFromHtml($: cheerio.CheerioAPI): Route[] {
+  private extractRoutesFromHtml($: cheerio.CheerioAPI, patterns: RoutePagePatterns, diagnostics: ParseDiagnostics): Route[] {
     const routes: Route[] = [];
     // 詳細表示の時刻情報を取得（より正確）
     const detailElements = $('td.time_1');
@@ -294,20 +321,25 @@ export class RouteHtmlParser {
         const $parentRow = $(element).closest('tr');
         const durationText = $parentRow.find('td.time_2').text(); // "所要時間：38分 (バス 31分、電車 0分、徒歩 7分）"
         const fareTransferText = $parentRow.find('td.time_3').text(); // "乗換：0回　運賃：230円"
+        // "CO2排出量：312g（マイカーに比べ 473g減）" "消費カロリー：6.3kcal" "徒歩：約200歩"
+        const metricsText = $parentRow.closest('table').find('ul.time_sub1').first().text();
         
 
         
-        const route = this.parseDetailedRoute(timeText, durationText, fareTransferText, $, routeContainerId);
+        const route = this.parseDetailedRoute(timeText, durationText, fareTransferText, metricsText, patterns, $, routeContainerId);
         if (route) {
 
           routes.push(route);
         } else {
-
+          this.recordError(diagnostics, `td.time_1[${index}]`, `unrecognized times "${timeText.trim()}"`);
         }
       } catch (error) {
-
+        this.recordError(diagnostics, `td.time_1[${index}]`, error);
       }
     });
+    if (routes.length > 0) {
+      diagnostics.strategy = 'detailed';
+    }
 
     // 詳細表示がない場合はテーブル行から抽出（フォールバック）
     if (routes.length === 0) {
@@ -322,17 +354,20 @@ export class RouteHtmlParser {
           const timeText = $row.find('.time').text();
 
           
-          const route = this.parseRouteFromTableRow($, $row);
+          const route = this.parseRouteFromTableRow($, $row, patterns);
           if (route) {
 
             routes.push(route);
           } else {
-
+            this.recordError(diagnostics, `tr[data-href][${index}]`, `unrecognized times "${depArrText.trim()}"`);
           }
         } catch (error) {
-
+          this.recordError(diagnostics, `tr[data-href][${index}]`, error);
         }
       });
+      if (routes.length > 0) {
+        diagnostics.strategy = 'table_row';
+      }
     }
 
 
@@ -342,9 +377,9 @@ export class RouteHtmlParser {
   /**
    * 詳細表示から正確なルート情報を解析
    */
-  private parseDetailedRoute(timeText: string, durationText: string, fareTransferText: string, $: cheerio.CheerioAPI, routeContainerId?: string): Route | null {
+  private parseDetailedRoute(timeText: string, durationText: string, fareTransferText: string, metricsText: string, patterns: RoutePagePatterns, $: cheerio.CheerioAPI, routeContainerId?: string): Route | null {
     // 時刻解析: "05:31発 →06:09着"
-    const timeMatch = timeText.match(/(\d{2}:\d{2})発.*?(\d{2}:\d{2})着/);
+    const timeMatch = timeText.match(patterns.departArrive);
     if (!timeMatch) {
       return null;
     }
@@ -354,18 +389,15 @@ export class RouteHtmlParser {
     const departTime = this.formatTimeWithDateCrossing(timeMatch[1], baseDate);
     const arriveTime = this.formatTimeWithDateCrossing(timeMatch[2], baseDate, departTime);
     // 所要時間解析: "所要時間：38分 (バス 31分、電車 0分、徒歩 7分）"
-    const durationMatch = durationText.match(/所要時間[：:](\d+)分/);
-    const duration = durationMatch ? parseInt(durationMatch[1]) : 0;
+    const duration = matchNumber(durationText, patterns.totalDuration) ?? 0;
     // 乗換回数解析: "乗換：0回　運賃：230円"
-    const transferMatch = fareTransferText.match(/乗換[：:](\d+)回/);
-    const transfers = transferMatch ? parseInt(transferMatch[1]) : 0;
+    const transfers = matchNumber(fareTransferText, patterns.totalTransfers) ?? 0;
 
     // 運賃解析: "乗換：0回　運賃：230円"
-    const fareMatch = fareTransferText.match(/運賃[：:](\d+)円/);
-    const fare = fareMatch ? parseInt(fareMatch[1]) : 0;
+    const fare = matchNumber(fareTransferText, patterns.totalFare) ?? 0;
 
     // 詳細なセグメント情報を抽出（特定のルートに限定）
-    const legs = this.extractDetailedLegs($, routeContainerId);
+    const legs = this.extractDetailedLegs($, patterns, routeContainerId);
 
     // legsが空の場合はフォールバック実装を使用
     const finalLegs = legs.length > 0 ? legs : [{
@@ -380,16 +412,121 @@ export class RouteHtmlParser {
         arrive: arriveTime,
         duration_min: duration,
         transfers,
-        fare_jpy: fare
+        fare_jpy: fare,
+        ...parseRouteMetrics(metricsText)
       },
       legs: finalLegs
     };
   }
 
+  /**
+   * 駅名に続く表示からのりば・番線・方向の部分を取り出す（span.platform がないページ向け）
+   */
+  private extractPlatformFromName(stationText: string): string {
+    const match = stationText.match(
+      /(のりば|おりば|[０-９\d]+番線|(北|南|東|西)行き|(Bus\s*)?Stop\s+[A-Z0-9]+\b|Platform\s*\d+|Track\s*\d+|(North|South|East|West)bound)[\s\S]*$/i
+    );
+    return match ? match[0] : '';
+  }
+
+  /**
+   * のりば・番線・方向の表示を解析
+   * 例: "のりばF(東行き)" → F / 東行き、"2番線" → 2、"Stop F (Eastbound)" → F / Eastbound
+   */
+  private parsePlatform(text: string): { platform?: string; direction?: string } {
+    const result: { platform?: string; direction?: string } = {};
+    const normalized = text.normalize('NFKC');
+
+    const platformMatch = normalized.match(/のりば\s*([A-Za-z0-9]+)|([0-9]+)\s*番線|\b(?:Stop|Platform|Track)\s*([A-Za-z0-9]+)\b/i);
+    if (platformMatch) {
+      result.platform = (platformMatch[1] || platformMatch[2] || platformMatch[3]).toUpperCase();
+    }
+
+    const directionMatch = normalized.match(/(北|南|東|西)行き|上り|下り|\b(North|South|East|West)bound\b/i);
+    if (directionMatch) {
+      result.direction = directionMatch[0];
+    }
+    return result;
+  }
+
+  /**
+   * 区間に出発・到着地点ののりば情報を設定
+   * 方向と乗車地点の表示は乗車区間のみに設定する
+   */
+  private applyPlatforms(leg: RouteLeg, fromText: string, toText: string): void {
+    const from = this.parsePlatform(fromText);
+    const to = this.parsePlatform(toText);
+
+    if (from.platform) {
+      leg.from_platform = from.platform;
+    }
+    if (to.platform) {
+      leg.to_platform = to.platform;
+    }
+    if (leg.mode !== 'walk') {
+      if (from.direction) {
+        leg.direction = from.direction;
+      }
+      if (fromText.trim()) {
+        leg.platform_note = fromText.trim();
+      }
+    }
+  }
+
+  /**
+   * 結果ページにない CO2・消費カロリー・歩数をマスターデータの係数から補う
+   * 乗車区間の距離を求めるため、座標のない停留所はマスターデータから解決する
+   */
+  private withMetrics(route: Route, language: 'ja' | 'en'): Route {
+    const parsed = this.pickMetrics(route.summary);
+    if (Object.keys(parsed).length === 4) {
+      return route;
+    }
+    if (!this.coefficient) {
+      // 係数は言語によらず同じ
+      this.coefficient = loadMaster('ja').coefficient;
+    }
+
+    const legs = route.legs.map(leg => {
+      if (leg.mode === 'walk' || leg.from_lat !== undefined || !leg.from || !leg.to) {
+        return leg;
+      }
+      const fromCoords = this.coordinateResolver.resolveCoordinates(leg.from, language);
+      const toCoords = this.coordinateResolver.resolveCoordinates(leg.to, language);
+      return fromCoords && toCoords
+        ? { ...leg, from_lat: fromCoords.lat, from_lng: fromCoords.lng, to_lat: toCoords.lat, to_lng: toCoords.lng }
+        : leg;
+    });
+    return {
+      ...route,
+      summary: { ...route.summary, ...estimateRouteMetrics(legs, this.coefficient), ...parsed }
+    };
+  }
+
+  /**
+   * summary から値のある指標のみを取り出す
+   */
+  private pickMetrics(summary: RouteMetrics): RouteMetrics {
+    const metrics: RouteMetrics = {};
+    if (summary.co2_g !== undefined) {
+      metrics.co2_g = summary.co2_g;
+    }
+    if (summary.co2_saved_vs_car_g !== undefined) {
+      metrics.co2_saved_vs_car_g = summary.co2_saved_vs_car_g;
+    }
+    if (summary.walk_kcal !== undefined) {
+      metrics.walk_kcal = summary.walk_kcal;
+    }
+    if (summary.walk_steps !== undefined) {
+      metrics.walk_steps = summary.walk_steps;
+    }
+    return metrics;
+  }
+
   /**
    * 詳細表示からセグメント別の正確な情報を抽出
    */
-  private extractDetailedLegs($: cheerio.CheerioAPI, routeContainerId?: string): RouteLeg[] {
+  private extractDetailedLegs($: cheerio.CheerioAPI, patterns: RoutePagePatterns, routeContainerId?: string): RouteLeg[] {
     const legs: RouteLeg[] = [];
     
     // 特定のルートが指定されている場合はそのルートの詳細のみを検索
@@ -410,6 +547,7 @@ export class RouteHtmlParser {
     }
     
     let currentFromStation = '';
+    let currentFromPlatform = '';
     let currentFromFare = 0;
     let currentFromTime = '';
     let pendingTransportInfo: { mode: string; line: string; duration: number; stops: number } | null = null;
@@ -429,19 +567,21 @@ export class RouteHtmlParser {
         // platform要素を除去
         $stationBox.find('.platform').remove();
         const stationFullText = $stationBox.text();
+        // のりば・番線・方向（span.platform がない場合は駅名に続く表示から取り出す）
+        const platformText = ($row.find('.box-2 .platform').text() || this.extractPlatformFromName(stationFullText)).trim();
         const stationName = stationFullText
-          .replace(/出発地|目的地|乗換|の印/g, '')
+          .replace(patterns.pointLabels, '')
           .replace(/\([^)]*\)$/, '') // 末尾の括弧内情報を除去 (例: "(のりばA(東行き))")
-          .replace(/\s*(のりば[^\s]*|[０-９\d]+番線[^\s]*)/g, '') // プラットフォーム情報を除去
-          .replace(/\s*(北行き|南行き|東行き|西行き|上り|下り)$/, '') // 方向情報を除去
+          .replace(/\s*(のりば[^\s]*|おりば[^\s]*|[０-９\d]+番線[^\s]*)/g, '') // プラットフォーム情報を除去
+          .replace(/\s*((Bus\s*)?Stop\s+[A-Z0-9]+\b|Platform\s*\d+|Track\s*\d+)(\s*\([^)]*\))?/gi, '') // 英語ページのプラットフォーム情報を除去
+          .replace(/\s*(北行き|南行き|東行き|西行き|上り|下り|(North|South|East|West)bound)$/i, '') // 方向情報を除去
           .trim();
         
         const fareText = $row.find('.box-3 b').text();
-        const fareMatch = fareText.match(/(\d+)円/);
-        const stationFare = fareMatch ? parseInt(fareMatch[1]) : 0;
+        const stationFare = matchNumber(fareText, patterns.yen) ?? 0;
         
         // 時刻情報を抽出
-        const stationTimes = this.extractTimesFromStationRow($, $row);
+        const stationTimes = this.extractTimesFromStationRow($, $row, patterns);
         let arrivalTime = '';
         let departureTime = '';
         
@@ -474,6 +614,7 @@ export class RouteHtmlParser {
             // 出発駅の運賃をこのセグメントに適用
             fare_jpy: pendingTransportInfo.mode === 'walk' ? 0 : currentFromFare
           };
+          this.applyPlatforms(leg, currentFromPlatform, platformText);
           
           legs.push(leg);
           pendingTransportInfo = null;
@@ -481,34 +622,33 @@ export class RouteHtmlParser {
         
         // 現在の駅を次のセグメントの出発駅として設定
         currentFromStation = stationName;
+        currentFromPlatform = platformText;
         currentFromFare = stationFare;
         // 出発時刻を更新（次のセグメントの開始時刻として使用）
         currentFromTime = departureTime || arrivalTime;
       }
       // 移動行: 交通手段情報
       else if ($row.find('.box-8').length > 0) {
-        const transportText = $row.find('.box-8').text();
+        const transportText = $row.find('.box-8').text().trim();
         const durationText = $row.find('.box-6 span').text() || $row.find('.box-6').text();
         const stopsText = $row.find('.box-9').text();
         
 
         
         // 所要時間を抽出
-        const durationMatch = durationText.match(/(\d+)分/);
-        const duration = durationMatch ? parseInt(durationMatch[1]) : 0;
+        const duration = matchNumber(durationText, patterns.minutes) ?? 0;
         
         // 停留所数・駅数を抽出
-        const stopsMatch = stopsText.match(/(\d+)(停留所|駅)乗車/);
-        const stops = stopsMatch ? parseInt(stopsMatch[1]) : 0;
+        const stops = matchNumber(stopsText, patterns.stops) ?? 0;
         
         // 交通手段を判定
         let mode: string;
         let line = '';
         
-        if (transportText.includes('徒歩')) {
+        if (patterns.walk.test(transportText)) {
           mode = 'walk';
-          line = '徒歩';
-        } else if (transportText.includes('バス') || transportText.includes('市バス')) {
+          line = patterns.walkLine;
+        } else if (patterns.bus.test(transportText)) {
           mode = 'bus';
           line = transportText;
         } else {
@@ -530,13 +670,13 @@ export class RouteHtmlParser {
   /**
    * テーブル行からルート情報を解析
    */
-  private parseRouteFromTableRow($: cheerio.CheerioAPI, $row: cheerio.Cheerio<any>): Route | null {
+  private parseRouteFromTableRow($: cheerio.CheerioAPI, $row: cheerio.Cheerio<any>, patterns: RoutePagePatterns): Route | null {
     const depArrText = $row.find('.dep_arr').text();
     const timeText = $row.find('.time').text();
     const xferText = $row.find('.xfer').text();
     const fareText = $row.find('.fare').text();
     // 時刻解析
-    const timeMatch = depArrText.match(/(\d{2}:\d{2})発.*?(\d{2}:\d{2})着/);
+    const timeMatch = depArrText.match(patterns.departArrive);
     if (!timeMatch) {
       return null;
     }
@@ -544,16 +684,13 @@ export class RouteHtmlParser {
     const departTime = this.formatTime(timeMatch[1], $);
     const arriveTime = this.formatTime(timeMatch[2], $);
     // 所要時間解析
-    const durationMatch = timeText.match(/(\d+)分/);
-    const duration = durationMatch ? parseInt(durationMatch[1]) : 0;
+    const duration = matchNumber(timeText, patterns.minutes) ?? 0;
 
     // 乗換回数解析
-    const transferMatch = xferText.match(/(\d+)回/);
-    const transfers = transferMatch ? parseInt(transferMatch[1]) : 0;
+    const transfers = matchNumber(xferText, patterns.count) ?? 0;
 
     // 運賃解析
-    const fareMatch = fareText.match(/(\d+)円/);
-    const fare = fareMatch ? parseInt(fareMatch[1]) : 0;
+    const fare = matchNumber(fareText, patterns.yen) ?? 0;
 
     // 簡易的な区間情報（詳細は取得困難）
     const legs: RouteLeg[] = [{
@@ -575,62 +712,39 @@ export class RouteHtmlParser {
   }
 
   /**
-   * 時刻を ISO-8601 形式にフォーマット
+   * 時刻を ISO-8601 形式（JSTオフセット付き）にフォーマット
    */
   private formatTime(timeStr: string, $?: cheerio.CheerioAPI): string {
-    let year: number, month: string, day: string;
-    
-    // HTMLから検索日付を取得（dt フィールドから "2025/07/7" 形式）
-    if ($ && $('input[name="dt"]').length > 0) {
-      const dtValue = $('input[name="dt"]').attr('value');
-      if (dtValue && dtValue.includes('/')) {
-        const [yearStr, monthStr, dayStr] = dtValue.split('/');
-        year = parseInt(yearStr);
-        month = monthStr.padStart(2, '0');
-        day = dayStr.padStart(2, '0');
-      } else {
-        // フォールバック：今日の日付
-        const today = new Date();
-        year = today.getFullYear();
-        month = String(today.getMonth() + 1).padStart(2, '0');
-        day = String(today.getDate()).padStart(2, '0');
-      }
-    } else {
-      // フォールバック：今日の日付
-      const today = new Date();
-      year = today.getFullYear();
-      month = String(today.getMonth() + 1).padStart(2, '0');
-      day = String(today.getDate()).padStart(2, '0');
-    }
+    // HTMLから検索日付を取得（dt フィールドから "2025/07/7" 形式）、なければ今日の日付（JST）
+    const baseDate = $ ? this.getSearchDateFromHtml($) : nowJst();
     
     // HH:MM 形式の時刻を抽出
     const timeMatch = timeStr.match(/(\d{2}):(\d{2})/);
-    if (timeMatch) {
-      const formattedTime = `${year}-${month}-${day}T${timeMatch[1]}:${timeMatch[2]}`;
-      return formattedTime;
+    if (!timeMatch) {
+      return '';
     }
-    
-    const fallbackTime = `${year}-${month}-${day}T${timeStr}`;
-    return fallbackTime;
+
+    return formatJstIso({ ...baseDate, hours: parseInt(timeMatch[1]), minutes: parseInt(timeMatch[2]) });
   }
 
   /**
-   * HTMLから検索基準日付を取得
+   * HTMLから検索基準日付（JST）を取得
    */
-  private getSearchDateFromHtml($: cheerio.CheerioAPI): Date {
+  private getSearchDateFromHtml($: cheerio.CheerioAPI): JstDateTime {
     const dtValue = $('input[name="dt"]').attr('value');
     if (dtValue && dtValue.includes('/')) {
       const [yearStr, monthStr, dayStr] = dtValue.split('/');
-      return new Date(parseInt(yearStr), parseInt(monthStr) - 1, parseInt(dayStr));
+      return { year: parseInt(yearStr), month: parseInt(monthStr), day: parseInt(dayStr), hours: 0, minutes: 0 };
     }
-    // フォールバック：今日の日付
-    return new Date();
+    // フォールバック：今日の日付（JST）
+    return { ...nowJst(), hours: 0, minutes: 0 };
   }
 
   /**
    * 日付跨ぎを考慮した時刻フォーマット
+   * 返り値は JST オフセット付きの ISO-8601 形式（例: "2025-07-07T23:45+09:00"）
    */
-  private formatTimeWithDateCrossing(timeStr: string, baseDate: Date, previousTime?: string): string {
+  private formatTimeWithDateCrossing(timeStr: string, baseDate: JstDateTime, previousTime?: string): string {
     const timeMatch = timeStr.match(/(\d{2}):(\d{2})/);
     if (!timeMatch) {
       return '';
@@ -640,25 +754,24 @@ export class RouteHtmlParser {
     const minutes = parseInt(timeMatch[2]);
     
     // 現在の日付から開始
-    const currentDate = new Date(baseDate);
+    let currentDate: JstDateTime = baseDate;
     
     // 前の時刻がある場合、日付跨ぎを判定
     if (previousTime) {
-      const prevMatch = previousTime.match(/(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
-      if (prevMatch) {
-        const prevYear = parseInt(prevMatch[1]);
-        const prevMonth = parseInt(prevMatch[2]) - 1; // Dateは0ベース
-        const prevDay = parseInt(prevMatch[3]);
-        const prevHours = parseInt(prevMatch[4]);
-        const prevMinutes = parseInt(prevMatch[5]);
-        
-        // 前の時刻の日付を設定
-        const prevDate = new Date(prevYear, prevMonth, prevDay);
+      let prevDate: JstDateTime | null = null;
+      try {
+        prevDate = parseJstDateTime(previousTime);
+      } catch {
+        // 解析できない場合は基準日付のまま
+      }
+
+      if (prevDate) {
+        const prevHours = prevDate.hours;
+        const prevMinutes = prevDate.minutes;
         
         // 深夜（0-5時）で前の時刻が夜（18時以降）の場合は翌日とみなす
         if (hours >= 0 && hours <= 5 && prevHours >= 18) {
-          currentDate.setTime(prevDate.getTime());
-          currentDate.setDate(currentDate.getDate() + 1);
+          currentDate = addDays(prevDate, 1);
         }
         // 通常の時刻比較による日付跨ぎ判定
         else {
@@ -667,34 +780,29 @@ export class RouteHtmlParser {
           
           // 現在の時刻が前の時刻より小さく、差が大きい場合（日付跨ぎ）
           if (currentTotalMinutes < prevTotalMinutes && (prevTotalMinutes - currentTotalMinutes) > 60) {
-            currentDate.setTime(prevDate.getTime());
-            currentDate.setDate(currentDate.getDate() + 1);
+            currentDate = addDays(prevDate, 1);
           } else {
             // 同日の場合は前の時刻の日付を使用
-            currentDate.setTime(prevDate.getTime());
+            currentDate = prevDate;
           }
         }
       }
     }
     
-    const year = currentDate.getFullYear();
-    const month = String(currentDate.getMonth() + 1).padStart(2, '0');
-    const day = String(currentDate.getDate()).padStart(2, '0');
-    
-    return `${year}-${month}-${day}T${timeMatch[1]}:${timeMatch[2]}`;
+    return formatJstIso({ ...currentDate, hours, minutes });
   }
 
   /**
    * color-gr行から時刻情報を抽出
    */
-  private extractTimesFromStationRow($: cheerio.CheerioAPI, $row: cheerio.Cheerio<any>): { departureTime?: string; arrivalTime?: string } {
+  private extractTimesFromStationRow($: cheerio.CheerioAPI, $row: cheerio.Cheerio<any>, patterns: RoutePagePatterns): { departureTime?: string; arrivalTime?: string } {
     const timeElements = $row.find('.box-1 span');
     const times: { departureTime?: string; arrivalTime?: string } = {};
     
     timeElements.each((i, el) => {
       const timeText = $(el).text();
-      const departureMatch = timeText.match(/(\d{2}:\d{2})発/);
-      const arrivalMatch = timeText.match(/(\d{2}:\d{2})着/);
+      const departureMatch = timeText.match(patterns.departure);
+      const arrivalMatch = timeText.match(patterns.arrival);
       
       if (departureMatch) {
         times.departureTime = departureMatch[1];
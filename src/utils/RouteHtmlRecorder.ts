@@ -0,0 +1,80 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * 記録・再生モード
+ * record: 上流から取得したHTMLをディレクトリに保存する
+ * replay: 保存済みHTMLのみを返し、ネットワークには接続しない
+ */
+export type RecorderMode = 'record' | 'replay';
+
+/**
+ * RouteHtmlRecorderのオプション
+ */
+export interface RouteHtmlRecorderOptions {
+  mode: RecorderMode;
+  directory: string;
+}
+
+const INDEX_FILE = 'index.json';
+
+/**
+ * 上流HTMLの記録・再生を行うクラス
+ * クエリ文字列のSHA-256ハッシュをファイル名として保存し、
+ * index.json にファイル名とクエリ文字列の対応を記録する
+ */
+export class RouteHtmlRecorder {
+  readonly mode: RecorderMode;
+  readonly directory: string;
+
+  constructor(options: RouteHtmlRecorderOptions) {
+    this.mode = options.mode;
+    this.directory = options.directory;
+  }
+
+  /**
+   * 記録済みHTMLを読み込む
+   * @param queryString fetchHtml が組み立てるクエリ文字列
+   * @throws Error 記録が存在しない場合
+   */
+  async load(queryString: string): Promise<string> {
+    const filePath = path.join(this.directory, this.fileName(queryString));
+    try {
+      return await fs.readFile(filePath, 'utf8');
+    } catch {
+      throw new Error(`No recorded response for query: ${queryString} (expected ${filePath})`);
+    }
+  }
+
+  /**
+   * HTMLを記録する
+   * @param queryString fetchHtml が組み立てるクエリ文字列
+   * @param html 上流から取得したHTML
+   */
+  async save(queryString: string, html: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = this.fileName(queryString);
+    await fs.writeFile(path.join(this.directory, fileName), html, 'utf8');
+
+    const index = await this.readIndex();
+    index[fileName] = queryString;
+    await fs.writeFile(path.join(this.directory, INDEX_FILE), JSON.stringify(index, null, 2), 'utf8');
+  }
+
+  /**
+   * ファイル名とクエリ文字列の対応表を読み込む
+   */
+  private async readIndex(): Promise<Record<string, string>> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, INDEX_FILE), 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private fileName(queryString: string): string {
+    return `${createHash('sha256').update(queryString).digest('hex').slice(0, 16)}.html`;
+  }
+}
@@ -0,0 +1,84 @@
+import { Coefficient, RouteLeg, RouteSummary } from '../types/index.js';
+import { calculateDistanceMeters } from './GeoDistance.js';
+
+/**
+ * ルートの環境・健康指標
+ */
+export type RouteMetrics = Pick<RouteSummary, 'co2_g' | 'co2_saved_vs_car_g' | 'walk_kcal' | 'walk_steps'>;
+
+/**
+ * 結果ページの指標テキストを解析
+ * 例: "CO2排出量：312g（マイカーに比べ 473g減）" "消費カロリー：6.3kcal" "徒歩：約200歩"
+ * @returns 見つかった指標のみ
+ */
+export function parseRouteMetrics(text: string): RouteMetrics {
+  const metrics: RouteMetrics = {};
+  const normalized = text.replace(/,/g, '');
+
+  const co2Match = normalized.match(/CO2[^\d]*?(\d+(?:\.\d+)?)\s*g/i);
+  if (co2Match) {
+    metrics.co2_g = Number(co2Match[1]);
+  }
+
+  const savedMatch = normalized.match(/(\d+(?:\.\d+)?)\s*g\s*(?:減|less|reduction)/i);
+  if (savedMatch) {
+    metrics.co2_saved_vs_car_g = Number(savedMatch[1]);
+  }
+
+  const kcalMatch = normalized.match(/(\d+(?:\.\d+)?)\s*kcal/i);
+  if (kcalMatch) {
+    metrics.walk_kcal = Number(kcalMatch[1]);
+  }
+
+  const stepsMatch = normalized.match(/(\d+)\s*(?:歩|steps?\b)/i);
+  if (stepsMatch) {
+    metrics.walk_steps = Number(stepsMatch[1]);
+  }
+
+  return metrics;
+}
+
+/**
+ * マスターデータの係数から指標を計算（結果ページに指標がない場合の代替）
+ * - CO2: 乗車区間の距離（km）× 交通手段ごとの排出係数（g/km）。マイカーとの差を削減量とする
+ * - 消費カロリー・歩数: 徒歩の合計時間（分）× WALK_CALORIE_RATE / WALK_STEPS_RATE
+ * 乗車区間の距離は distance_km、なければ乗降停留所間の直線距離とし、
+ * 距離が分からない区間がある場合は CO2 を計算しない
+ */
+export function estimateRouteMetrics(legs: RouteLeg[], coefficient: Coefficient): RouteMetrics {
+  const walkMinutes = legs
+    .filter(leg => leg.mode === 'walk')
+    .reduce((total, leg) => total + leg.duration_min, 0);
+  const metrics: RouteMetrics = {
+    walk_kcal: Math.round(walkMinutes * coefficient.WALK_CALORIE_RATE * 10) / 10,
+    walk_steps: Math.round(walkMinutes * coefficient.WALK_STEPS_RATE)
+  };
+
+  let co2 = 0;
+  let carCo2 = 0;
+  for (const leg of legs) {
+    if (leg.mode === 'walk') {
+      continue;
+    }
+    const km = legDistanceKm(leg);
+    if (km === undefined) {
+      return metrics;
+    }
+    co2 += km * (leg.mode === 'train' ? coefficient.TRAIN_CO2_EMISSION_RATE : coefficient.BUS_CO2_EMISSION_RATE);
+    carCo2 += km * coefficient.CAR_CO2_EMISSION_RATE;
+  }
+
+  metrics.co2_g = Math.round(co2);
+  metrics.co2_saved_vs_car_g = Math.round(carCo2 - co2);
+  return metrics;
+}
+
+function legDistanceKm(leg: RouteLeg): number | undefined {
+  if (leg.distance_km !== undefined) {
+    return leg.distance_km;
+  }
+  if (leg.from_lat === undefined || leg.from_lng === undefined || leg.to_lat === undefined || leg.to_lng === undefined) {
+    return undefined;
+  }
+  return calculateDistanceMeters(leg.from_lat, leg.from_lng, leg.to_lat, leg.to_lng) / 1000;
+}
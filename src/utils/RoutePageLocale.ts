@@ -0,0 +1,85 @@
+/**
+ * 結果ページの表示言語ごとの解析パターン
+ * 数値を取り出すパターンは、最初に一致したキャプチャグループを値とする
+ */
+export interface RoutePagePatterns {
+  /** 発着時刻 例: "05:31発 →06:09着" / "05:31 dep. → 06:09 arr." */
+  departArrive: RegExp;
+  /** 出発時刻 例: "17:30発" / "17:30 dep." */
+  departure: RegExp;
+  /** 到着時刻 例: "17:30着" / "17:30 arr." */
+  arrival: RegExp;
+  /** ルート全体の所要時間 例: "所要時間：38分" / "Time required: 38 min" */
+  totalDuration: RegExp;
+  /** ルート全体の乗換回数 例: "乗換：0回" / "Transfers: 0" */
+  totalTransfers: RegExp;
+  /** ルート全体の運賃 例: "運賃：230円" / "Fare: 230 yen" */
+  totalFare: RegExp;
+  /** 分 例: "31分" / "31 min" */
+  minutes: RegExp;
+  /** 回数（一覧表の乗換欄） 例: "乗換：1回" / "1 transfer" / "Transfers: 1" */
+  count: RegExp;
+  /** 金額 例: "230円" / "230 yen" / "¥230" */
+  yen: RegExp;
+  /** 乗車停留所・駅数 例: "18停留所乗車" / "18 stops" */
+  stops: RegExp;
+  /** 徒歩区間の交通手段表示 */
+  walk: RegExp;
+  /** バス区間の交通手段表示 */
+  bus: RegExp;
+  /** 徒歩区間の路線表示 */
+  walkLine: string;
+  /** 地点名に付くラベル（出発地・目的地など） */
+  pointLabels: RegExp;
+}
+
+const JA_PATTERNS: RoutePagePatterns = {
+  departArrive: /(\d{2}:\d{2})発.*?(\d{2}:\d{2})着/,
+  departure: /(\d{2}:\d{2})発/,
+  arrival: /(\d{2}:\d{2})着/,
+  totalDuration: /所要時間[：:](\d+)分/,
+  totalTransfers: /乗換[：:](\d+)回/,
+  totalFare: /運賃[：:](\d+)円/,
+  minutes: /(\d+)分/,
+  count: /(\d+)回/,
+  yen: /(\d+)円/,
+  stops: /(\d+)(?:停留所|駅)乗車/,
+  walk: /徒歩/,
+  bus: /バス/,
+  walkLine: '徒歩',
+  pointLabels: /出発地|目的地|乗換|の印/g
+};
+
+const EN_PATTERNS: RoutePagePatterns = {
+  departArrive: /(\d{2}:\d{2})\s*dep(?:\.|art(?:ure)?)?.*?(\d{2}:\d{2})\s*arr(?:\.|ive|ival)?/is,
+  departure: /(\d{2}:\d{2})\s*dep(?:\.|art(?:ure)?)?/i,
+  arrival: /(\d{2}:\d{2})\s*arr(?:\.|ive|ival)?/i,
+  totalDuration: /(?:Time required|Travel time|Total time)\s*[：:]\s*(\d+)\s*min/i,
+  totalTransfers: /Transfers?\s*[：:]\s*(\d+)/i,
+  totalFare: /Fare\s*[：:]\s*(?:[¥￥]\s*(\d+)|(\d+)\s*yen)/i,
+  minutes: /(\d+)\s*min/i,
+  count: /(\d+)\s*transfers?\b|Transfers?\s*[：:]\s*(\d+)/i,
+  yen: /[¥￥]\s*(\d+)|(\d+)\s*yen/i,
+  stops: /(\d+)\s*(?:stops?|stations?)\b/i,
+  walk: /\bwalk(?:ing)?\b/i,
+  bus: /\bbus\b/i,
+  walkLine: 'Walk',
+  pointLabels: /\b(?:Departure|Destination|Transfer|Origin)(?:\s+point)?\b/gi
+};
+
+/**
+ * 表示言語の解析パターンを取得
+ */
+export function getRoutePagePatterns(language: 'ja' | 'en'): RoutePagePatterns {
+  return language === 'en' ? EN_PATTERNS : JA_PATTERNS;
+}
+
+/**
+ * パターンに一致した数値を取り出す（カンマ区切りの桁区切りは除去）
+ * @returns 一致しない場合は undefined
+ */
+export function matchNumber(text: string, pattern: RegExp): number | undefined {
+  const match = text.replace(/(\d),(?=\d{3})/g, '$1').match(pattern);
+  const value = match?.slice(1).find(group => group !== undefined);
+  return value === undefined ? undefined : parseInt(value);
+}
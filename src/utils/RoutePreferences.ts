@@ -0,0 +1,126 @@
+import { DroppedRoute, Master, Route, RouteLeg, RoutePreferenceOptions } from '../types/index.js';
+import { ValidationError } from './ToolErrors.js';
+
+/**
+ * 路線表示に含まれる事業者の略称（事業者名そのものは常に照合する）
+ */
+const COMPANY_LINE_ALIASES: Record<number, string[]> = {
+  200: ['市バス', 'City Bus'],
+  103: ['地下鉄', 'Subway']
+};
+
+/**
+ * 利用する交通手段・事業者の指定があるかどうか
+ */
+export function hasRoutePreferences(options: RoutePreferenceOptions): boolean {
+  return options.allowed_modes !== undefined || (options.excluded_companies?.length ?? 0) > 0;
+}
+
+/**
+ * excluded_companies の ID がマスターデータの事業者に存在するかを検証
+ * @throws Error 存在しない事業者 ID がある場合
+ */
+export function validateCompanyIds(companyIds: number[] | undefined, master: Master): void {
+  const unknown = (companyIds ?? []).filter(id => !master.company[id.toString()]);
+  if (unknown.length > 0) {
+    throw new ValidationError(`Invalid excluded_companies. Unknown company ID: ${unknown.join(', ')}`);
+  }
+}
+
+/**
+ * 乗車区間を運行する事業者の候補を推定
+ * 路線表示に事業者名（または略称）があればそれを、なければ乗車・降車停留所を
+ * 両方通る路線の事業者（路線名が路線表示に含まれるものを優先）を返す
+ * @returns 事業者 ID の一覧（推定できない場合は空）
+ */
+export function identifyLegCompanies(leg: RouteLeg, master: Master): number[] {
+  if (leg.mode === 'walk') {
+    return [];
+  }
+
+  const ekidiv = leg.mode === 'train' ? 'R' : 'B';
+  const line = leg.line ?? '';
+  const companyIds = Object.keys(master.company)
+    .map(Number)
+    .filter(id => master.company[id.toString()].ekidiv === ekidiv);
+
+  const named = companyIds.filter(id =>
+    [master.company[id.toString()].name, ...(COMPANY_LINE_ALIASES[id] ?? [])].some(name => line.includes(name))
+  );
+  if (named.length > 0) {
+    return named;
+  }
+
+  if (!leg.from || !leg.to) {
+    return [];
+  }
+  const from = leg.from;
+  const to = leg.to;
+  const serving = Object.values(master.rosen ?? {}).filter(rosen =>
+    companyIds.includes(rosen.companyid) && servesStop(rosen.stations, from) && servesStop(rosen.stations, to)
+  );
+  const byLine = serving.filter(rosen => line.includes(rosen.name));
+  return [...new Set((byLine.length > 0 ? byLine : serving).map(rosen => rosen.companyid))];
+}
+
+/**
+ * allowed_modes / excluded_companies に合わないルートを除外
+ * 事業者は推定した候補がすべて除外対象の場合のみ除外し、推定できない区間は残す
+ */
+export function applyRoutePreferences(
+  routes: Route[],
+  options: RoutePreferenceOptions,
+  master: Master
+): { routes: Route[]; dropped: DroppedRoute[] } {
+  const excluded = new Set(options.excluded_companies ?? []);
+  const kept: Route[] = [];
+  const dropped: DroppedRoute[] = [];
+
+  for (const route of routes) {
+    const reason = findDropReason(route, options, excluded, master);
+    if (!reason) {
+      kept.push(route);
+      continue;
+    }
+
+    const entry: DroppedRoute = { duration_min: route.summary.duration_min, ...reason };
+    if (route.summary.depart) {
+      entry.depart = route.summary.depart;
+    }
+    if (route.summary.arrive) {
+      entry.arrive = route.summary.arrive;
+    }
+    dropped.push(entry);
+  }
+  return { routes: kept, dropped };
+}
+
+/**
+ * 路線の駅・バス停に含まれるか（"祇園四条 (京阪本線)" のような括弧付きの名前も照合）
+ */
+function servesStop(stations: string[], name: string): boolean {
+  return stations.includes(name) || stations.includes(name.replace(/\s*\([^)]+\)$/, ''));
+}
+
+function findDropReason(
+  route: Route,
+  options: RoutePreferenceOptions,
+  excluded: Set<number>,
+  master: Master
+): Pick<DroppedRoute, 'reason' | 'line' | 'company_id'> | null {
+  for (const leg of route.legs) {
+    if (leg.mode === 'walk') {
+      continue;
+    }
+    if (options.allowed_modes && !options.allowed_modes.includes(leg.mode)) {
+      return { reason: 'mode', line: leg.line };
+    }
+    if (excluded.size > 0) {
+      const companies = identifyLegCompanies(leg, master);
+      if (companies.length > 0 && companies.every(id => excluded.has(id))) {
+        return { reason: 'company', line: leg.line, company_id: companies[0] };
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,71 @@
+import { Route, RouteRankingOptions, RouteSortKey } from '../types/index.js';
+import { parseJstDateTime, toEpochMs } from './JstTime.js';
+
+/**
+ * ルートの徒歩区間の合計時間（分）
+ */
+export function walkingMinutes(route: Route): number {
+  return route.legs
+    .filter(leg => leg.mode === 'walk')
+    .reduce((total, leg) => total + leg.duration_min, 0);
+}
+
+/**
+ * 絞り込み条件に合うルートを並べ替えて返す
+ * トークン制限で切り捨てる前に適用し、条件に最も合うルートが残るようにする
+ * 並べ替えの値を持たないルート（推定ルートの運賃・到着時刻）は末尾に置き、
+ * 同じ値のルートは所要時間、上流サイトの順の順に並べる
+ */
+export function rankRoutes(routes: Route[], options: RouteRankingOptions): Route[] {
+  const filtered = routes.filter(route => matchesFilters(route, options));
+  if (!options.sort_by) {
+    return filtered;
+  }
+
+  const sortBy = options.sort_by;
+  return filtered
+    .map((route, index) => ({ route, index, value: sortValue(route, sortBy) }))
+    .sort((a, b) =>
+      compareValues(a.value, b.value) ||
+      a.route.summary.duration_min - b.route.summary.duration_min ||
+      a.index - b.index
+    )
+    .map(entry => entry.route);
+}
+
+function matchesFilters(route: Route, options: RouteRankingOptions): boolean {
+  if (options.max_transfers !== undefined && route.summary.transfers > options.max_transfers) {
+    return false;
+  }
+  if (options.max_walk_min !== undefined && walkingMinutes(route) > options.max_walk_min) {
+    return false;
+  }
+  // 運賃を持たない推定ルートは判定できないため残す
+  if (options.max_fare_jpy !== undefined && route.summary.fare_jpy !== undefined &&
+      route.summary.fare_jpy > options.max_fare_jpy) {
+    return false;
+  }
+  return true;
+}
+
+function sortValue(route: Route, sortBy: RouteSortKey): number | undefined {
+  switch (sortBy) {
+    case 'duration':
+      return route.summary.duration_min;
+    case 'fare':
+      return route.summary.fare_jpy;
+    case 'transfers':
+      return route.summary.transfers;
+    case 'walking':
+      return walkingMinutes(route);
+    case 'arrival':
+      return route.summary.arrive ? toEpochMs(parseJstDateTime(route.summary.arrive)) : undefined;
+  }
+}
+
+function compareValues(a: number | undefined, b: number | undefined): number {
+  if (a === undefined || b === undefined) {
+    return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+  }
+  return a - b;
+}
@@ -0,0 +1,151 @@
+/**
+ * サーバー起動時のトランスポート種別
+ */
+export type TransportType = 'stdio' | 'http';
+
+/**
+ * ルート検索HTMLキャッシュの設定
+ */
+export interface CacheOptions {
+  ttlSeconds: number;        // 0 でキャッシュ無効
+  timeBucketMinutes: number;
+  maxEntries: number;
+  directory?: string;        // 指定時はディスクにも保存
+}
+
+/**
+ * 上流HTMLの記録・再生の設定
+ */
+export interface RecorderOptions {
+  mode: 'record' | 'replay';
+  directory: string;
+}
+
+/**
+ * 上流サイトを使わない概算ルート検索の利用方法
+ * never: 使わない / fallback: 上流に接続できない場合のみ / always: 常に使う（オフライン環境向け）
+ */
+export type OfflineRoutingMode = 'never' | 'fallback' | 'always';
+
+/**
+ * サーバー起動オプション
+ */
+export interface ServerOptions {
+  transport: TransportType;
+  host: string;
+  port: number;
+  cache: CacheOptions;
+  recorder?: RecorderOptions;
+  fuzzyThreshold?: number;   // 駅・バス停検索の曖昧一致閾値（0-1）
+  offlineRouting?: OfflineRoutingMode; // 省略時は fallback
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+const DEFAULT_CACHE_TIME_BUCKET_MINUTES = 1;
+const DEFAULT_CACHE_MAX_ENTRIES = 200;
+
+/**
+ * CLI引数と環境変数からサーバー起動オプションを解決する
+ * 優先順位: CLI引数 > 環境変数 (MCP_TRANSPORT / MCP_HOST / MCP_PORT / MCP_CACHE_* / MCP_RECORD_DIR / MCP_REPLAY_DIR / MCP_FUZZY_THRESHOLD / MCP_OFFLINE_ROUTING) > デフォルト値
+ * @param argv process.argv.slice(2) 相当の引数配列
+ * @param env 環境変数
+ * @returns 解決済みのサーバー起動オプション
+ * @throws Error 不正な値が指定された場合
+ */
+export function parseServerOptions(argv: string[], env: NodeJS.ProcessEnv = {}): ServerOptions {
+  const args = parseArgs(argv);
+
+  const transport = args['transport'] ?? (args['http'] !== undefined ? 'http' : undefined) ?? env.MCP_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Invalid transport: ${transport}. Must be "stdio" or "http"`);
+  }
+
+  const host = args['host'] ?? env.MCP_HOST ?? DEFAULT_HOST;
+  const port = parseInteger('port', args['port'] ?? env.MCP_PORT, DEFAULT_PORT, 0, 65535);
+
+  const cache: CacheOptions = {
+    ttlSeconds: parseInteger('cache-ttl', args['cache-ttl'] ?? env.MCP_CACHE_TTL, DEFAULT_CACHE_TTL_SECONDS, 0),
+    timeBucketMinutes: parseInteger('cache-bucket', args['cache-bucket'] ?? env.MCP_CACHE_BUCKET, DEFAULT_CACHE_TIME_BUCKET_MINUTES, 1, 60),
+    maxEntries: parseInteger('cache-max-entries', args['cache-max-entries'] ?? env.MCP_CACHE_MAX_ENTRIES, DEFAULT_CACHE_MAX_ENTRIES, 1)
+  };
+  const cacheDirectory = args['cache-dir'] ?? env.MCP_CACHE_DIR;
+  if (cacheDirectory) {
+    cache.directory = cacheDirectory;
+  }
+
+  const options: ServerOptions = { transport, host, port, cache };
+
+  const recordDirectory = args['record'] ?? env.MCP_RECORD_DIR;
+  const replayDirectory = args['replay'] ?? env.MCP_REPLAY_DIR;
+  if (recordDirectory && replayDirectory) {
+    throw new Error('Cannot use record and replay modes at the same time');
+  }
+  if (recordDirectory) {
+    options.recorder = { mode: 'record', directory: recordDirectory };
+  } else if (replayDirectory) {
+    options.recorder = { mode: 'replay', directory: replayDirectory };
+  }
+
+  const fuzzyThreshold = args['fuzzy-threshold'] ?? env.MCP_FUZZY_THRESHOLD;
+  if (fuzzyThreshold !== undefined && fuzzyThreshold !== '') {
+    const parsed = Number(fuzzyThreshold);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+      throw new Error(`Invalid fuzzy-threshold: ${fuzzyThreshold}. Must be a number between 0 and 1`);
+    }
+    options.fuzzyThreshold = parsed;
+  }
+
+  const offlineRouting = args['offline-routing'] ?? env.MCP_OFFLINE_ROUTING;
+  if (offlineRouting !== undefined && offlineRouting !== '') {
+    if (offlineRouting !== 'never' && offlineRouting !== 'fallback' && offlineRouting !== 'always') {
+      throw new Error(`Invalid offline-routing: ${offlineRouting}. Must be "never", "fallback" or "always"`);
+    }
+    options.offlineRouting = offlineRouting;
+  }
+
+  return options;
+}
+
+/**
+ * 整数オプションを解析して範囲を検証
+ */
+function parseInteger(name: string, value: string | undefined, defaultValue: number, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Invalid ${name}: ${value}. Must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+/**
+ * "--key value" / "--key=value" / "--flag" 形式の引数を解析
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+
+    const body = arg.slice(2);
+    const eqIndex = body.indexOf('=');
+    if (eqIndex >= 0) {
+      result[body.slice(0, eqIndex)] = body.slice(eqIndex + 1);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      result[body] = argv[i + 1];
+      i++;
+    } else {
+      result[body] = '';
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,77 @@
+import { Language, Master, Station } from '../types/index.js';
+import { AmbiguousStopError } from './ToolErrors.js';
+
+/**
+ * 事業者名なしの駅名から候補を絞り込む条件（交通手段・事業者の指定など）
+ */
+export type StationFilter = (stationName: string, station: Station) => boolean;
+
+/**
+ * 駅・バス停名をマスターデータの駅名（事業者名付き）1つに特定する
+ * 1. 駅名の完全一致 2. 事業者名なしの駅名（stationselect）の候補から1つに絞り込む の順に試す
+ * 事業者名付きの場合はその事業者の駅・バス停、それ以外は filter に合う候補が1つの場合に特定できる
+ * 事業者名はマスターデータの駅名の表記（例: "京都駅前(京都市バス)"）と事業者名（例: "Kyoto Sta.(Kyoto City Bus)"）のどちらでもよい
+ * @param master マスターデータ（stationselect のキーはこの言語の名称）
+ * @param stationName 駅・バス停名
+ * @param language 応答言語（曖昧な場合の候補名の表記に使う）
+ * @param filter 候補の絞り込み条件（合う候補がない場合はすべての候補から選ぶ）
+ * @returns 見つからない場合は null
+ * @throws AmbiguousStopError 複数の事業者の候補があり特定できない場合
+ */
+export function selectStationName(
+  master: Master,
+  stationName: string,
+  language: Language,
+  filter: StationFilter = () => true
+): string | null {
+  if (master.station[stationName]) {
+    return stationName;
+  }
+
+  const baseStationName = stationName.replace(/\([^)]+\)$/, '');
+  const stationSelect = master.stationselect[baseStationName];
+  if (!stationSelect) {
+    return null;
+  }
+
+  const candidates = stationSelect.stationnames
+    .filter(stationInfo => master.station[stationInfo.stationname])
+    .map(stationInfo => ({
+      stationName: stationInfo.stationname,
+      companyId: stationInfo.companyid,
+      operator: master.company[stationInfo.companyid.toString()]?.name ?? '',
+      station: master.station[stationInfo.stationname]
+    }));
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  if (stationName !== baseStationName) {
+    const specified = candidates.find(candidate =>
+      candidate.stationName === stationName || `${baseStationName}(${candidate.operator})` === stationName
+    );
+    if (specified) {
+      return specified.stationName;
+    }
+  }
+
+  const allowed = candidates.filter(candidate => filter(candidate.stationName, candidate.station));
+  const choices = allowed.length > 0 ? allowed : candidates;
+  // 複数の事業者が同じ駅を共有している場合（例: 地下鉄と近鉄の "京都"）は1つの駅とみなす
+  if (new Set(choices.map(candidate => candidate.stationName)).size === 1) {
+    return choices[0].stationName;
+  }
+
+  throw new AmbiguousStopError(
+    `Ambiguous stop: ${stationName} matches ${choices.length} stops of different operators`,
+    stationName,
+    choices.map(candidate => ({
+      name: language === 'ja' ? candidate.stationName : `${baseStationName}(${candidate.operator})`,
+      kind: candidate.station.ekidiv === 'R' ? 'train_station' : 'bus_stop',
+      operator: candidate.operator,
+      company_id: candidate.companyId,
+      lat: candidate.station.lat,
+      lng: candidate.station.lng
+    }))
+  );
+}
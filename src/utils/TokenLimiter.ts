@@ -45,6 +45,32 @@ export class TokenLimiter {
     };
   }
 
+  /**
+   * 指定した配列プロパティのみを切り詰めてトークン制限を適用する
+   * ほかのプロパティ（応答スキーマで必須の集計値など）は制限を超える場合も残す
+   * @param data 対象データ
+   * @param key 切り詰める配列プロパティ
+   * @param maxTokens 最大トークン数
+   * @returns 制限適用後の結果
+   */
+  applyLimitToArray<T extends object, K extends keyof T>(data: T, key: K, maxTokens: number): TokenLimitResult<T> {
+    if (this.calculateTokens(data) <= maxTokens) {
+      return {
+        data,
+        truncated: false
+      };
+    }
+
+    const items = data[key] as unknown as unknown[];
+    const baselineTokens = this.calculateTokens({ ...data, [key]: [] });
+    const truncatedItems = baselineTokens < maxTokens ? this.truncateArray(items, maxTokens - baselineTokens) : [];
+
+    return {
+      data: { ...data, [key]: truncatedItems },
+      truncated: true
+    };
+  }
+
   /**
    * データのトークン数を計算する
    * @param data 対象データ
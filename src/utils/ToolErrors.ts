@@ -0,0 +1,132 @@
+import { AmbiguousStopCandidate, ParseDiagnostics } from '../types/index.js';
+
+/**
+ * エラーの詳細情報（cause はエラーの種類を表す識別子）
+ */
+export interface ToolErrorDetails {
+  cause?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * ツール実行エラーの基底クラス
+ * code は HTTP ステータスに倣った値で、MCP の応答に変換する際の分類に使う
+ */
+export class ToolError extends Error {
+  readonly code: number;
+  readonly details: ToolErrorDetails;
+
+  constructor(message: string, code: number, cause: string, details: ToolErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.details = { ...details, cause };
+  }
+}
+
+/**
+ * 駅・バス停名に複数の事業者の候補があり特定できない（300）
+ */
+export class AmbiguousStopError extends ToolError {
+  constructor(message: string, station: string, candidates: AmbiguousStopCandidate[]) {
+    super(message, 300, 'ambiguous_stop', { station, candidates });
+  }
+}
+
+/**
+ * 入力パラメータが不正（400）
+ */
+export class ValidationError extends ToolError {
+  constructor(message: string, details: ToolErrorDetails = {}) {
+    super(message, 400, 'invalid_request', details);
+  }
+}
+
+/**
+ * 駅・バス停・ランドマークが見つからない（404）
+ */
+export class StopNotFoundError extends ToolError {
+  constructor(message: string, details: ToolErrorDetails = {}) {
+    super(message, 404, 'stop_not_found', details);
+  }
+}
+
+/**
+ * 座標の周辺に駅・バス停が見つからない（404）
+ */
+export class LocationNotFoundError extends ToolError {
+  constructor(message: string, details: ToolErrorDetails = {}) {
+    super(message, 404, 'location_not_found', details);
+  }
+}
+
+/**
+ * 路線が見つからない（404）
+ */
+export class LineNotFoundError extends ToolError {
+  constructor(message: string, details: ToolErrorDetails = {}) {
+    super(message, 404, 'line_not_found', details);
+  }
+}
+
+/**
+ * 終バス・終電後で移動できない（404）
+ */
+export class NoServiceError extends ToolError {
+  constructor(message: string, details: ToolErrorDetails = {}) {
+    super(message, 404, 'no_service', details);
+  }
+}
+
+/**
+ * 上流サイトの結果ページの形式が変わり解析できない（502）
+ */
+export class UpstreamFormatError extends ToolError {
+  constructor(message: string, diagnostics: ParseDiagnostics) {
+    super(message, 502, 'upstream_format_changed', { parse_diagnostics: diagnostics });
+  }
+}
+
+/**
+ * 上流サイトへの問い合わせがタイムアウトした（503）
+ */
+export class UpstreamTimeoutError extends ToolError {
+  constructor(message: string, details: ToolErrorDetails = {}) {
+    super(message, 503, 'upstream_timeout', details);
+  }
+}
+
+/**
+ * 上流サイトに接続できない（503）
+ */
+export class UpstreamNetworkError extends ToolError {
+  constructor(message: string, details: ToolErrorDetails = {}) {
+    super(message, 503, 'network_error', details);
+  }
+}
+
+/**
+ * 上流サイトがエラーを返し続けた（503）
+ */
+export class UpstreamUnavailableError extends ToolError {
+  constructor(message: string, details: ToolErrorDetails = {}) {
+    super(message, 503, 'upstream_unavailable', details);
+  }
+}
+
+/**
+ * 想定外のエラー（500）
+ */
+export class InternalError extends ToolError {
+  constructor(message: string, details: ToolErrorDetails = {}) {
+    super(message, 500, 'internal_error', details);
+  }
+}
+
+/**
+ * Node.js・axios のエラーコード（ECONNABORTED など）を取得
+ * @returns コードを持たないエラーの場合は undefined
+ */
+export function getErrorCode(error: Error): string | undefined {
+  return 'code' in error && typeof error.code === 'string' ? error.code : undefined;
+}
@@ -0,0 +1,722 @@
+import { CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  StopSearchResponse,
+  StopSearchByGeoResponse,
+  StopDetailsResponse,
+  LineSearchResponse,
+  LineStopsResponse,
+  CommonLinesResponse,
+  RouteSearchResponse,
+  ItineraryResponse,
+  VisitOrderResponse,
+  ReachabilityResponse,
+  Route,
+  RouteLeg,
+  RouteSummary,
+} from '../types/index.js';
+import { ToolError } from './ToolErrors.js';
+
+/**
+ * ツール定義の outputSchema（JSON Schema）
+ * src/types/index.ts のレスポンス型と対応させること
+ */
+export type ToolOutputSchema = {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required: string[];
+};
+
+const STOP_KIND_SCHEMA = {
+  type: 'string',
+  enum: ['bus_stop', 'train_station', 'landmark'],
+};
+
+const STOP_CANDIDATE_PROPERTIES = {
+  name: { type: 'string' },
+  kind: STOP_KIND_SCHEMA,
+  id: { type: 'string' },
+};
+
+/**
+ * StopSearchResponse の outputSchema
+ */
+export const STOP_SEARCH_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    candidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...STOP_CANDIDATE_PROPERTIES,
+          match_type: { type: 'string', enum: ['exact', 'partial', 'reading', 'fuzzy'] },
+        },
+        required: ['name', 'kind', 'id'],
+      },
+    },
+    truncated: { type: 'boolean' },
+  },
+  required: ['candidates', 'truncated'],
+};
+
+/**
+ * StopSearchByGeoResponse の outputSchema
+ */
+export const STOP_SEARCH_BY_GEO_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    candidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...STOP_CANDIDATE_PROPERTIES,
+          agency: { type: 'string' },
+          lat: { type: 'number' },
+          lng: { type: 'number' },
+          distance_m: { type: 'number' },
+          walk_min: { type: 'number' },
+        },
+        required: ['name', 'kind', 'id', 'lat', 'lng', 'distance_m', 'walk_min'],
+      },
+    },
+    truncated: { type: 'boolean' },
+  },
+  required: ['candidates', 'truncated'],
+};
+
+/**
+ * StopDetailsResponse の outputSchema
+ */
+export const STOP_DETAILS_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    stop: {
+      type: 'object',
+      properties: {
+        ...STOP_CANDIDATE_PROPERTIES,
+        lat: { type: 'number' },
+        lng: { type: 'number' },
+        yomi: { type: 'string' },
+        agency: {
+          type: 'object',
+          properties: {
+            id: { type: 'number' },
+            name: { type: 'string' },
+            type: { type: 'string', enum: ['rail', 'bus'] },
+          },
+          required: ['id', 'name', 'type'],
+        },
+        category: { type: 'string' },
+      },
+      required: ['name', 'kind', 'id', 'lat', 'lng'],
+    },
+    lines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          agency: { type: 'string' },
+          dest: { type: 'string' },
+          description: { type: 'string' },
+        },
+        required: ['id', 'name', 'agency'],
+      },
+    },
+    group: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        stops: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ...STOP_CANDIDATE_PROPERTIES,
+              agency: { type: 'string' },
+            },
+            required: ['name', 'kind', 'id'],
+          },
+        },
+      },
+      required: ['name', 'stops'],
+    },
+    truncated: { type: 'boolean' },
+  },
+  required: ['stop', 'lines', 'truncated'],
+};
+
+const LINE_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    agency: { type: 'string' },
+    agency_id: { type: 'number' },
+    type: { type: 'string', enum: ['rail', 'bus'] },
+    dest: { type: 'string' },
+    description: { type: 'string' },
+    stop_count: { type: 'number' },
+  },
+  required: ['id', 'name', 'agency', 'agency_id', 'type', 'stop_count'],
+};
+
+/**
+ * LineSearchResponse の outputSchema
+ */
+export const LINE_SEARCH_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    lines: {
+      type: 'array',
+      items: LINE_SUMMARY_SCHEMA,
+    },
+    truncated: { type: 'boolean' },
+  },
+  required: ['lines', 'truncated'],
+};
+
+/**
+ * LineStopsResponse の outputSchema
+ */
+export const LINE_STOPS_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    line: LINE_SUMMARY_SCHEMA,
+    stops: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          order: { type: 'number' },
+          name: { type: 'string' },
+          id: { type: 'string' },
+          lat: { type: 'number' },
+          lng: { type: 'number' },
+        },
+        required: ['order', 'name'],
+      },
+    },
+    truncated: { type: 'boolean' },
+  },
+  required: ['line', 'stops', 'truncated'],
+};
+
+/**
+ * CommonLinesResponse の outputSchema
+ */
+export const COMMON_LINES_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    lines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...LINE_SUMMARY_SCHEMA.properties,
+          direction: { type: 'string', enum: ['forward', 'reverse'] },
+          toward: { type: 'string' },
+          from_stop: { type: 'string' },
+          to_stop: { type: 'string' },
+          intermediate_stops: { type: 'number' },
+        },
+        required: [
+          ...LINE_SUMMARY_SCHEMA.required,
+          'direction', 'toward', 'from_stop', 'to_stop', 'intermediate_stops',
+        ],
+      },
+    },
+    truncated: { type: 'boolean' },
+  },
+  required: ['lines', 'truncated'],
+};
+
+const ROUTE_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'object',
+      properties: {
+        depart: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+        arrive: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+        duration_min: { type: 'number' },
+        transfers: { type: 'number' },
+        fare_jpy: { type: 'number' },
+        co2_g: { type: 'number', description: 'CO2 emissions in grams' },
+        co2_saved_vs_car_g: { type: 'number', description: 'CO2 saved compared with driving, in grams' },
+        walk_kcal: { type: 'number', description: 'Calories burned walking' },
+        walk_steps: { type: 'number', description: 'Walking steps' },
+      },
+      required: ['duration_min', 'transfers'],
+    },
+    legs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          mode: { type: 'string', enum: ['bus', 'train', 'walk'] },
+          line: { type: 'string' },
+          from: { type: 'string' },
+          to: { type: 'string' },
+          from_lat: { type: 'number' },
+          from_lng: { type: 'number' },
+          to_lat: { type: 'number' },
+          to_lng: { type: 'number' },
+          depart_time: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+          arrive_time: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+          from_platform: { type: 'string', description: 'Boarding stop letter or platform number' },
+          to_platform: { type: 'string', description: 'Alighting stop letter or platform number' },
+          direction: { type: 'string', description: 'Direction of travel shown at the boarding point' },
+          platform_note: { type: 'string', description: 'Boarding point as shown on the result page' },
+          duration_min: { type: 'number' },
+          stops: { type: 'number' },
+          fare_jpy: { type: 'number' },
+          distance_km: { type: 'number' },
+        },
+        required: ['mode', 'duration_min'],
+      },
+    },
+    estimated: {
+      type: 'boolean',
+      description: 'Approximate route from master data (no timetable times or fares)',
+    },
+  },
+  required: ['summary', 'legs'],
+};
+
+/**
+ * RouteSearchResponse の outputSchema
+ */
+export const ROUTE_SEARCH_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    routes: {
+      type: 'array',
+      items: ROUTE_SCHEMA,
+    },
+    truncated: { type: 'boolean' },
+    cursor: {
+      type: 'string',
+      description: 'Pass back with page "next" or "previous" to fetch later or earlier routes',
+    },
+    dropped: {
+      type: 'array',
+      description: 'Routes removed because they use a mode outside allowed_modes or an excluded company',
+      items: {
+        type: 'object',
+        properties: {
+          depart: { type: 'string' },
+          arrive: { type: 'string' },
+          duration_min: { type: 'number' },
+          reason: { type: 'string', enum: ['mode', 'company'] },
+          line: { type: 'string' },
+          company_id: { type: 'number' },
+        },
+        required: ['duration_min', 'reason'],
+      },
+    },
+    parse_diagnostics: {
+      type: 'object',
+      description: 'How the upstream result page was parsed. "table_row" and "raw" are fallbacks that give fewer leg details',
+      properties: {
+        strategy: { type: ['string', 'null'], enum: ['detailed', 'table_row', 'raw', null] },
+        missing_anchors: { type: 'array', items: { type: 'string' } },
+        no_results: { type: 'boolean' },
+        errors: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['strategy', 'missing_anchors', 'no_results'],
+    },
+  },
+  required: ['routes', 'truncated'],
+};
+
+/**
+ * ItineraryResponse の outputSchema
+ */
+export const ITINERARY_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'object',
+      properties: {
+        depart: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+        arrive: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+        duration_min: { type: 'number', description: 'Whole day including stays' },
+        travel_min: { type: 'number' },
+        fare_jpy: { type: 'number', description: 'Total fare (estimated legs excluded)' },
+        walk_min: { type: 'number' },
+        walk_km: { type: 'number' },
+        transfers: { type: 'number' },
+        estimated: { type: 'boolean' },
+      },
+      required: ['depart', 'arrive', 'duration_min', 'travel_min', 'fare_jpy', 'walk_min', 'walk_km', 'transfers', 'estimated'],
+    },
+    timeline: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['move', 'stay'] },
+          leg: { type: 'number' },
+          from: { type: 'string' },
+          to: { type: 'string' },
+          name: { type: 'string' },
+          depart: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+          arrive: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+          duration_min: { type: 'number' },
+          stay_min: { type: 'number' },
+          fare_jpy: { type: 'number' },
+          walk_min: { type: 'number' },
+          route: ROUTE_SCHEMA,
+          estimated: { type: 'boolean' },
+        },
+        required: ['type', 'depart', 'arrive'],
+      },
+    },
+    truncated: { type: 'boolean' },
+  },
+  required: ['summary', 'timeline', 'truncated'],
+};
+
+/**
+ * VisitOrderResponse の outputSchema
+ */
+export const VISIT_ORDER_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    start: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        lat: { type: 'number' },
+        lng: { type: 'number' },
+      },
+      required: ['name', 'lat', 'lng'],
+    },
+    stops: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          order: { type: 'number' },
+          id: { type: 'string' },
+          name: { type: 'string' },
+          lat: { type: 'number' },
+          lng: { type: 'number' },
+          travel_min: { type: 'number', description: 'Travel time from the previous place' },
+          arrive: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+          depart: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+          estimated: { type: 'boolean', description: 'Route search failed; travel time estimated from distance' },
+        },
+        required: ['order', 'id', 'name', 'lat', 'lng', 'travel_min', 'arrive', 'depart'],
+      },
+    },
+    return_leg: {
+      type: 'object',
+      properties: {
+        travel_min: { type: 'number' },
+        arrive: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+        estimated: { type: 'boolean' },
+      },
+      required: ['travel_min', 'arrive'],
+    },
+    total_travel_min: { type: 'number' },
+    finish: { type: 'string', description: 'ISO-8601 with +09:00 offset' },
+    travel_time: { type: 'string', enum: ['estimate', 'search'] },
+    truncated: { type: 'boolean' },
+  },
+  required: ['start', 'stops', 'total_travel_min', 'finish', 'travel_time', 'truncated'],
+};
+
+/**
+ * ReachabilityResponse の outputSchema
+ */
+export const REACHABILITY_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    origin: {
+      type: 'object',
+      properties: {
+        lat: { type: 'number' },
+        lng: { type: 'number' },
+      },
+      required: ['lat', 'lng'],
+    },
+    budget_min: { type: 'number' },
+    bands: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from_min: { type: 'number' },
+          to_min: { type: 'number' },
+          stops: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                ...STOP_CANDIDATE_PROPERTIES,
+                agency: { type: 'string' },
+                lat: { type: 'number' },
+                lng: { type: 'number' },
+                travel_min: { type: 'number', description: 'Estimated minutes including waiting' },
+                verified: { type: 'boolean', description: 'Travel time confirmed by a route search' },
+              },
+              required: ['name', 'kind', 'id', 'lat', 'lng', 'travel_min'],
+            },
+          },
+        },
+        required: ['from_min', 'to_min', 'stops'],
+      },
+    },
+    searches: { type: 'number', description: 'Upstream route searches made for sampling' },
+    truncated: { type: 'boolean' },
+  },
+  required: ['origin', 'budget_min', 'bands', 'searches', 'truncated'],
+};
+
+/**
+ * structuredContent と簡潔なテキスト表現からCallToolの結果を作成
+ */
+export function toStructuredToolResult(result: object, text: string): CallToolResult {
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent: result as Record<string, unknown>,
+  };
+}
+
+/**
+ * ツール実行中のエラーをMCPの応答に変換
+ * - 入力不正（400）: InvalidParams エラーとしてスロー
+ * - 見つからない・上流サイトの障害など: isError のツール結果（details.cause でエラーの種類を判別できる）
+ * - 想定外のエラー: InternalError としてスロー
+ * isError の結果は outputSchema の検証対象にならないよう、structuredContent を付けず JSON のテキストで返す
+ */
+export function toToolErrorResult(error: unknown): CallToolResult {
+  if (error instanceof McpError) {
+    throw error;
+  }
+  if (error instanceof ToolError && error.code === 400) {
+    throw new McpError(ErrorCode.InvalidParams, error.message, { code: error.code, details: error.details });
+  }
+  if (error instanceof ToolError && error.code !== 500) {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ code: error.code, message: error.message, details: error.details }) }],
+      isError: true,
+    };
+  }
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  const data = error instanceof ToolError ? { code: error.code, details: error.details } : undefined;
+  throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${errorMessage}`, data);
+}
+
+/**
+ * 駅・バス停検索結果の簡潔なテキスト表現
+ * 例: "- 京都駅 [train_station] T:京都"
+ */
+export function renderStopSearchText(result: StopSearchResponse): string {
+  const lines = result.candidates.map(candidate => {
+    const fuzzy = candidate.match_type === 'fuzzy' ? ' (fuzzy)' : '';
+    return `- ${candidate.name} [${candidate.kind}] ${candidate.id}${fuzzy}`;
+  });
+  return withHeader(`${result.candidates.length} candidate(s)`, lines, result.truncated);
+}
+
+/**
+ * 近隣検索結果の簡潔なテキスト表現
+ * 例: "- 京都駅前 [bus_stop] 120m, 2 min walk, 京都市営バス"
+ */
+export function renderStopSearchByGeoText(result: StopSearchByGeoResponse): string {
+  const lines = result.candidates.map(candidate => {
+    const agency = candidate.agency ? `, ${candidate.agency}` : '';
+    return `- ${candidate.name} [${candidate.kind}] ${candidate.distance_m}m, ${candidate.walk_min} min walk${agency}`;
+  });
+  return withHeader(`${result.candidates.length} candidate(s)`, lines, result.truncated);
+}
+
+/**
+ * 駅・バス停詳細の簡潔なテキスト表現
+ * 概要行・路線一覧・同名停留所一覧を出力する
+ */
+export function renderStopDetailsText(result: StopDetailsResponse): string {
+  const { stop } = result;
+  const agency = stop.agency ? `, ${stop.agency.name}` : '';
+  const lines = [`${stop.name} [${stop.kind}] ${stop.id} (${stop.lat},${stop.lng}${agency})`];
+
+  if (result.lines.length > 0) {
+    lines.push(`Lines: ${result.lines.map(line => line.name).join(', ')}`);
+  }
+  if (result.group && result.group.stops.length > 1) {
+    lines.push(`Same-name stops: ${result.group.stops.map(sibling => sibling.id).join(', ')}`);
+  }
+  if (result.truncated) {
+    lines.push('(truncated)');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 路線検索結果の簡潔なテキスト表現
+ * 例: "- 200057 206系統 (京都市バス) → 時計周り循環, 56 stops"
+ */
+export function renderLineSearchText(result: LineSearchResponse): string {
+  const lines = result.lines.map(line => {
+    const dest = line.dest ? ` → ${line.dest}` : '';
+    return `- ${line.id} ${line.name} (${line.agency})${dest}, ${line.stop_count} stops`;
+  });
+  return withHeader(`${result.lines.length} line(s)`, lines, result.truncated);
+}
+
+/**
+ * 路線の停留所一覧の簡潔なテキスト表現
+ * 停車順に1行ずつ出力する
+ */
+export function renderLineStopsText(result: LineStopsResponse): string {
+  const { line } = result;
+  const dest = line.dest ? ` → ${line.dest}` : '';
+  const lines = result.stops.map(stop => `${stop.order}. ${stop.name}`);
+  return withHeader(`${line.name} (${line.agency})${dest}`, lines, result.truncated);
+}
+
+/**
+ * 共通路線の簡潔なテキスト表現
+ * 例: "- 200057 206系統 (京都市バス) toward 北大路バスターミナル[地下鉄北大路駅](京都市バス), 3 stops between"
+ */
+export function renderCommonLinesText(result: CommonLinesResponse): string {
+  const lines = result.lines.map(line =>
+    `- ${line.id} ${line.name} (${line.agency}) toward ${line.toward}, ${line.intermediate_stops} stops between`
+  );
+  return withHeader(`${result.lines.length} common line(s)`, lines, result.truncated);
+}
+
+/**
+ * ルート検索結果の簡潔なテキスト表現
+ * ルートごとに概要行と区間行を出力する
+ */
+export function renderRouteSearchText(result: RouteSearchResponse): string {
+  const lines = result.routes.flatMap((route, index) => renderRoute(route, index + 1));
+  for (const dropped of result.dropped ?? []) {
+    const times = dropped.depart && dropped.arrive ? `${clockTime(dropped.depart)} → ${clockTime(dropped.arrive)} ` : '';
+    const company = dropped.company_id !== undefined ? ` #${dropped.company_id}` : '';
+    lines.push(`Dropped: ${times}(${dropped.duration_min} min) ${dropped.reason}${company}: ${dropped.line ?? '-'}`);
+  }
+  if (result.cursor) {
+    lines.push(`cursor: ${result.cursor}`);
+  }
+  return withHeader(`${result.routes.length} route(s)`, lines, result.truncated);
+}
+
+/**
+ * 旅程の簡潔なテキスト表現
+ * 概要行に続けて、移動は区間行、滞在は時刻と滞在時間を出力する
+ */
+export function renderItineraryText(result: ItineraryResponse): string {
+  const { summary } = result;
+  const fare = summary.estimated ? `¥${summary.fare_jpy}+ (estimated legs excluded)` : `¥${summary.fare_jpy}`;
+  const header = `Itinerary: ${clockTime(summary.depart)} → ${clockTime(summary.arrive)} ` +
+    `(${summary.duration_min} min, ${fare}, walk ${summary.walk_min} min / ${summary.walk_km}km)`;
+
+  const lines = result.timeline.flatMap(entry => {
+    if (entry.type === 'stay') {
+      return [`${clockTime(entry.arrive)}-${clockTime(entry.depart)} stay at ${entry.name} (${entry.stay_min} min)`];
+    }
+    const estimated = entry.estimated ? ' (estimated)' : '';
+    return [
+      `${clockTime(entry.depart)}-${clockTime(entry.arrive)} ${entry.from} → ${entry.to}${estimated}`,
+      ...entry.route.legs.map(renderLeg)
+    ];
+  });
+  return withHeader(header, lines, result.truncated);
+}
+
+/**
+ * 訪問順の簡潔なテキスト表現
+ * 例: "1. 清水寺 LM00000001 (+12 min) 09:12-10:12"
+ */
+export function renderVisitOrderText(result: VisitOrderResponse): string {
+  const header = `Visit order from ${result.start.name}: ${result.total_travel_min} min travel ` +
+    `(${result.travel_time}), finish ${clockTime(result.finish)}`;
+  const lines = result.stops.map(stop => {
+    const estimated = stop.estimated ? ', estimated' : '';
+    return `${stop.order}. ${stop.name} ${stop.id} (+${stop.travel_min} min${estimated}) ` +
+      `${clockTime(stop.arrive)}-${clockTime(stop.depart)}`;
+  });
+  if (result.return_leg) {
+    lines.push(`back to ${result.start.name} (+${result.return_leg.travel_min} min) ${clockTime(result.return_leg.arrive)}`);
+  }
+  return withHeader(header, lines, result.truncated);
+}
+
+/**
+ * 到達圏の簡潔なテキスト表現
+ * 時間帯ごとに見出し行と停留所行を出力する
+ * 例: "  12 min 烏丸御池 [train_station] T:103_烏丸御池 (verified)"
+ */
+export function renderReachabilityText(result: ReachabilityResponse): string {
+  const total = result.bands.reduce((count, band) => count + band.stops.length, 0);
+  const searches = result.searches > 0 ? `, ${result.searches} search(es)` : '';
+  const lines = result.bands.flatMap(band => [
+    `${band.from_min}-${band.to_min} min: ${band.stops.length} place(s)`,
+    ...band.stops.map(stop =>
+      `  ${stop.travel_min} min ${stop.name} [${stop.kind}] ${stop.id}${stop.verified ? ' (verified)' : ''}`
+    )
+  ]);
+  return withHeader(`${total} place(s) within ${result.budget_min} min${searches}`, lines, result.truncated);
+}
+
+function renderRoute(route: Route, index: number): string[] {
+  const { summary } = route;
+  // 推定ルートは時刻・運賃を持たない
+  const header = route.estimated
+    ? `Route ${index} (estimated): ${summary.duration_min} min, ${summary.transfers} transfer(s)`
+    : `Route ${index}: ${clockTime(summary.depart ?? '')} → ${clockTime(summary.arrive ?? '')} ` +
+      `(${summary.duration_min} min, ${summary.transfers} transfer(s), ¥${summary.fare_jpy})`;
+  const metrics = renderMetrics(summary);
+  return [header, ...(metrics ? [metrics] : []), ...route.legs.map(renderLeg)];
+}
+
+function renderMetrics(summary: RouteSummary): string | null {
+  const parts: string[] = [];
+  if (summary.co2_g !== undefined) {
+    const saved = summary.co2_saved_vs_car_g !== undefined ? ` (${summary.co2_saved_vs_car_g}g less than car)` : '';
+    parts.push(`CO2 ${summary.co2_g}g${saved}`);
+  }
+  if (summary.walk_kcal !== undefined) {
+    parts.push(`${summary.walk_kcal}kcal`);
+  }
+  if (summary.walk_steps !== undefined) {
+    parts.push(`${summary.walk_steps} steps`);
+  }
+  return parts.length > 0 ? `  ${parts.join(', ')}` : null;
+}
+
+function renderLeg(leg: RouteLeg): string {
+  if (leg.mode === 'walk') {
+    const distance = leg.distance_km !== undefined ? `, ${leg.distance_km}km` : '';
+    return `  walk ${leg.duration_min} min${distance}`;
+  }
+
+  const line = leg.line ? ` ${leg.line}` : '';
+  const times = leg.depart_time && leg.arrive_time
+    ? ` ${clockTime(leg.depart_time)}-${clockTime(leg.arrive_time)}`
+    : '';
+  const from = `${leg.from ?? '?'}${leg.from_platform ? ` [${leg.from_platform}]` : ''}`;
+  const to = `${leg.to ?? '?'}${leg.to_platform ? ` [${leg.to_platform}]` : ''}`;
+  const direction = leg.direction ? `, ${leg.direction}` : '';
+  return `  ${leg.mode}${line}: ${from} → ${to}${times} (${leg.duration_min} min${direction})`;
+}
+
+/**
+ * ISO-8601文字列から "HH:MM" を取り出す（取り出せない場合はそのまま返す）
+ */
+function clockTime(datetime: string): string {
+  const match = datetime.match(/T(\d{2}:\d{2})/);
+  return match ? match[1] : datetime;
+}
+
+function withHeader(header: string, lines: string[], truncated: boolean): string {
+  return [truncated ? `${header} (truncated)` : header, ...lines].join('\n');
+}
@@ -0,0 +1,49 @@
+import path from 'path';
+import { RouteHtmlFetcher } from '../../src/utils/RouteHtmlFetcher.js';
+import { RouteHtmlParser } from '../../src/utils/RouteHtmlParser.js';
+import { RouteHtmlRecorder } from '../../src/utils/RouteHtmlRecorder.js';
+import { Route } from '../../src/types/index.js';
+
+/**
+ * E2E: 実際の英語の結果ページ（lang=en）の解析
+ * 同じ条件の日本語ページと同じ時刻・所要時間・乗換回数・運賃になることを確認する
+ * 取得したページは tests/fixtures/recorded/{ja,en} に記録する（コミットした記録は englishPages.integration.test.ts がオフラインで再生する）
+ *
+ * 注意: 外部サービスに依存するため、ネットワークの状況やサービスの可用性によって結果が変わる可能性があります
+ */
+jest.setTimeout(60000);
+
+const RECORDING_DIR = path.join(__dirname, '..', 'fixtures', 'recorded');
+
+const search = async (language: 'ja' | 'en'): Promise<Route[]> => {
+  const fetcher = new RouteHtmlFetcher({
+    recorder: new RouteHtmlRecorder({ mode: 'record', directory: path.join(RECORDING_DIR, language) })
+  });
+  // 事業者名付きの駅名はどちらの言語のマスターデータでも同じ停留所に解決される
+  const html = await fetcher.fetchByName('浄土寺(京都市バス)', '四条河原町(京都市バス)', '2025-07-07T09:00:00', 'departure', language);
+  const result = new RouteHtmlParser().parseHtml(html, language);
+
+  expect(result.parse_diagnostics?.strategy).toBe('detailed');
+  return result.routes;
+};
+
+describe('E2E English result pages', () => {
+  it('should parse the same times, transfers and fares as the Japanese page', async () => {
+    const ja = await search('ja');
+    const en = await search('en');
+
+    const summary = (route: Route) => ({
+      depart: route.summary.depart,
+      arrive: route.summary.arrive,
+      duration_min: route.summary.duration_min,
+      transfers: route.summary.transfers,
+      fare_jpy: route.summary.fare_jpy
+    });
+    const legTimes = (route: Route) => route.legs.map(leg => [leg.mode, leg.depart_time, leg.arrive_time, leg.duration_min, leg.stops]);
+
+    expect(en.length).toBeGreaterThan(0);
+    expect(en.map(summary)).toEqual(ja.map(summary));
+    expect(en.map(legTimes)).toEqual(ja.map(legTimes));
+    expect(en.every(route => route.summary.fare_jpy !== undefined && route.summary.duration_min > 0)).toBe(true);
+  });
+});
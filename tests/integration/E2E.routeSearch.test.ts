@@ -41,7 +41,7 @@ describe('E2E Route Search Tests', () => {
         // 実際のHTMLを取得
         const html = await fetcher.fetchByName(
           '浄土寺',
-          '京都駅前',
+          '京都駅前(京都市バス)',
           '2025-07-07T07:35:00',
           'departure',
           'ja'
@@ -156,7 +156,7 @@ describe('E2E Route Search Tests', () => {
         language: 'ja',
         max_tokens: 8000,
         from_station: '京都駅',
-        to_station: '銀閣寺道',
+        to_station: '銀閣寺道(京都市バス)',
         datetime_type: 'departure',
         datetime: '2025-07-07T15:00:00'
       };
@@ -266,8 +266,8 @@ describe('E2E Route Search Tests', () => {
       const request: RouteSearchByNameRequest = {
         language: 'ja',
         max_tokens: 8000,
-        from_station: '京都駅前',
-        to_station: '清水道',
+        from_station: '京都駅前(京都市バス)',
+        to_station: '清水道(京都市バス)',
         datetime_type: 'departure',
         datetime: '2025-07-07T09:00:00'
       };
@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RouteHtmlFetcher } from '../../src/utils/RouteHtmlFetcher.js';
+import { RouteHtmlParser } from '../../src/utils/RouteHtmlParser.js';
+import { RouteHtmlRecorder } from '../../src/utils/RouteHtmlRecorder.js';
+import { Route } from '../../src/types/index.js';
+
+/**
+ * 記録済みの実際の結果ページ（lang=ja / lang=en）を再生して解析する
+ * 記録は tests/integration/E2E.englishPages.test.ts の実行時に tests/fixtures/recorded/{ja,en} に保存される
+ * 記録がない場合（まだ E2E を実行していない場合）はスキップする
+ */
+const RECORDING_DIR = path.join(__dirname, '..', 'fixtures', 'recorded');
+
+const hasRecordings = ['ja', 'en'].every(language =>
+  fs.existsSync(path.join(RECORDING_DIR, language, 'index.json'))
+);
+
+const parseRecorded = async (language: 'ja' | 'en'): Promise<Route[]> => {
+  const fetcher = new RouteHtmlFetcher({
+    recorder: new RouteHtmlRecorder({ mode: 'replay', directory: path.join(RECORDING_DIR, language) })
+  });
+  // E2E.englishPages.test.ts と同じ検索条件（クエリが一致する記録のみ再生できる）
+  const html = await fetcher.fetchByName('浄土寺(京都市バス)', '四条河原町(京都市バス)', '2025-07-07T09:00:00', 'departure', language);
+  const result = new RouteHtmlParser().parseHtml(html, language);
+
+  expect(result.parse_diagnostics?.strategy).toBe('detailed');
+  return result.routes;
+};
+
+(hasRecordings ? describe : describe.skip)('Recorded English result pages', () => {
+  it('should parse the same times, transfers and fares as the recorded Japanese page', async () => {
+    const ja = await parseRecorded('ja');
+    const en = await parseRecorded('en');
+
+    const summary = (route: Route) => ({
+      depart: route.summary.depart,
+      arrive: route.summary.arrive,
+      duration_min: route.summary.duration_min,
+      transfers: route.summary.transfers,
+      fare_jpy: route.summary.fare_jpy
+    });
+    const legTimes = (route: Route) => route.legs.map(leg => [leg.mode, leg.depart_time, leg.arrive_time, leg.duration_min, leg.stops]);
+
+    expect(en.length).toBeGreaterThan(0);
+    expect(en.map(summary)).toEqual(ja.map(summary));
+    expect(en.map(legTimes)).toEqual(ja.map(legTimes));
+  });
+});
@@ -0,0 +1,173 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportHost } from '../../src/utils/HttpTransportHost.js';
+
+const createTestServer = (): Server => {
+  const server = new Server(
+    { name: 'test-server', version: '0.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'ping', inputSchema: { type: 'object' as const } }]
+  }));
+  return server;
+};
+
+const HEADERS = {
+  'Content-Type': 'application/json',
+  'Accept': 'application/json, text/event-stream'
+};
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '0.0.0' }
+  }
+};
+
+/**
+ * SSE形式のレスポンスボディからJSON-RPCメッセージを取り出す
+ */
+const parseSseMessage = (body: string): any => {
+  const dataLine = body.split('\n').find(line => line.startsWith('data: '));
+  return dataLine ? JSON.parse(dataLine.slice('data: '.length)) : null;
+};
+
+describe('HTTP Transport Integration', () => {
+  let host: HttpTransportHost;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    host = new HttpTransportHost(createTestServer, { host: '127.0.0.1', port: 0 });
+    const port = await host.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await host.close();
+  });
+
+  it('should initialize a session and serve requests on it', async () => {
+    const initResponse = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify(initializeRequest)
+    });
+
+    expect(initResponse.status).toBe(200);
+    const sessionId = initResponse.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    expect(parseSseMessage(await initResponse.text()).result.serverInfo.name).toBe('test-server');
+    expect(host.sessionCount).toBe(1);
+
+    const listResponse = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...HEADERS, 'mcp-session-id': sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+    });
+
+    expect(listResponse.status).toBe(200);
+    expect(parseSseMessage(await listResponse.text()).result.tools[0].name).toBe('ping');
+  });
+
+  it('should keep sessions isolated', async () => {
+    const responses = await Promise.all([1, 2].map(() => fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify(initializeRequest)
+    })));
+    await Promise.all(responses.map(response => response.text()));
+
+    const sessionIds = responses.map(response => response.headers.get('mcp-session-id'));
+    expect(new Set(sessionIds).size).toBe(2);
+    expect(host.sessionCount).toBe(2);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...HEADERS, 'mcp-session-id': 'unknown-session' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 for malformed JSON bodies', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: '{not json'
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('should return 413 for request bodies over 1 MB', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify({ ...initializeRequest, padding: 'x'.repeat(1024 * 1024) })
+    });
+
+    expect(response.status).toBe(413);
+    expect(host.sessionCount).toBe(0);
+  });
+
+  it('should close the session server when the session is deleted', async () => {
+    const servers: Server[] = [];
+    await host.close();
+    host = new HttpTransportHost(() => {
+      const server = createTestServer();
+      servers.push(server);
+      return server;
+    }, { host: '127.0.0.1', port: 0 });
+    baseUrl = `http://127.0.0.1:${await host.start()}`;
+
+    const initResponse = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify(initializeRequest)
+    });
+    await initResponse.text();
+    const close = jest.spyOn(servers[0], 'close');
+
+    const deleteResponse = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { ...HEADERS, 'mcp-session-id': initResponse.headers.get('mcp-session-id')! }
+    });
+
+    expect(deleteResponse.status).toBe(200);
+    expect(host.sessionCount).toBe(0);
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close all sessions on close', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify(initializeRequest)
+    });
+    await response.text();
+    expect(host.sessionCount).toBe(1);
+
+    await host.close();
+
+    expect(host.sessionCount).toBe(0);
+  });
+});
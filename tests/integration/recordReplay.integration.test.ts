@@ -0,0 +1,61 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RouteSearchByNameService } from '../../src/services/RouteSearchByNameService.js';
+import { RouteHtmlFetcher } from '../../src/utils/RouteHtmlFetcher.js';
+import { RouteHtmlRecorder } from '../../src/utils/RouteHtmlRecorder.js';
+import { RouteSearchByNameRequest } from '../../src/types/index.js';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.MockedFunction<typeof axios>;
+
+describe('Record / Replay Integration', () => {
+  let directory: string;
+  let fixtureHtml: string;
+
+  const request: RouteSearchByNameRequest = {
+    language: 'ja',
+    max_tokens: 4096,
+    from_station: '京都駅前(京都市バス)',
+    to_station: '銀閣寺道(京都市バス)',
+    datetime_type: 'departure',
+    datetime: '2025-07-07T09:00'
+  };
+
+  beforeAll(() => {
+    fixtureHtml = fs.readFileSync(path.join(__dirname, '../fixtures/response.html'), 'utf8');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'route-replay-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should run the full search pipeline from a recording', async () => {
+    // 記録: 上流の応答としてフィクスチャを返す
+    mockedAxios.mockResolvedValue({ status: 200, data: fixtureHtml });
+    const recordingService = new RouteSearchByNameService(
+      new RouteHtmlFetcher({ recorder: new RouteHtmlRecorder({ mode: 'record', directory }) })
+    );
+    const recorded = await recordingService.searchRoute(request);
+    recordingService.dispose();
+
+    // 再生: ネットワークに接続せず同じ結果になる
+    mockedAxios.mockReset();
+    mockedAxios.mockRejectedValue(new Error('network disabled'));
+    const replayingService = new RouteSearchByNameService(
+      new RouteHtmlFetcher({ recorder: new RouteHtmlRecorder({ mode: 'replay', directory }) })
+    );
+    const replayed = await replayingService.searchRoute(request);
+    replayingService.dispose();
+
+    expect(mockedAxios).not.toHaveBeenCalled();
+    expect(replayed.routes.length).toBeGreaterThan(0);
+    expect(replayed).toEqual(recorded);
+  });
+});
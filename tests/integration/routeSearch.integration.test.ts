@@ -180,7 +180,7 @@ describe('Route Search Integration Tests', () => {
 
       expect(result.routes).toHaveLength(1);
       expect(result.routes[0].summary.arrive).toBe('2025-07-07T06:30');
-      expect(new Date(result.routes[0].summary.arrive) >= new Date(result.routes[0].summary.depart)).toBe(true);
+      expect(new Date(result.routes[0].summary.arrive!) >= new Date(result.routes[0].summary.depart!)).toBe(true);
     });
   });
 
@@ -1,6 +1,12 @@
 import axios from 'axios';
 import { RouteHtmlFetcher } from '../../src/utils/RouteHtmlFetcher.js';
 import { loadMaster, loadLandmarkData } from '../../src/data/index.js';
+import { RouteHtmlCache } from '../../src/utils/RouteHtmlCache.js';
+import { RouteHtmlRecorder } from '../../src/utils/RouteHtmlRecorder.js';
+import { AmbiguousStopError, StopNotFoundError } from '../../src/utils/ToolErrors.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // モックの設定
 jest.mock('axios');
@@ -42,27 +48,62 @@ const mockMasterData = {
       lng: 135.7930,
       ekidiv: 'B',
       selectname: '銀閣寺前'
+    },
+    '京都駅前(京都市バス)': {
+      lat: 34.9873,
+      lng: 135.7590,
+      ekidiv: 'B',
+      selectname: '京都駅前'
+    },
+    '京都駅前(京都バス)': {
+      lat: 34.9870,
+      lng: 135.7585,
+      ekidiv: 'B',
+      selectname: '京都駅前'
     }
   },
   stationselect: {
     '浄土寺': {
       stationnames: [
-        { stationname: '浄土寺(京都市バス)' }
+        { stationname: '浄土寺(京都市バス)', companyid: 200 }
       ]
     },
     '烏丸御池': {
       stationnames: [
-        { stationname: '烏丸御池(京都バス)' },
-        { stationname: '烏丸御池(西日本JRバス)' },
-        { stationname: '烏丸御池(京都市バス)' }
+        { stationname: '烏丸御池(京都バス)', companyid: 203 },
+        { stationname: '烏丸御池(西日本JRバス)', companyid: 208 },
+        { stationname: '烏丸御池(京都市バス)', companyid: 200 }
       ]
     },
     '京都': {
       stationnames: [
-        { stationname: '京都(西日本旅客鉄道)' }
+        { stationname: '京都(西日本旅客鉄道)', companyid: 300 }
+      ]
+    },
+    '京都駅前': {
+      stationnames: [
+        { stationname: '京都駅前(京都市バス)', companyid: 200 },
+        { stationname: '京都駅前(京都バス)', companyid: 203 }
+      ]
+    },
+    // 英語のマスターデータでは英語表記の駅名がキーになる
+    'Jodoji': {
+      stationnames: [
+        { stationname: '浄土寺(京都市バス)', companyid: 200 }
+      ]
+    },
+    'Karasuma Oike': {
+      stationnames: [
+        { stationname: '烏丸御池(京都バス)', companyid: 203 }
       ]
     }
   },
+  company: {
+    '200': { ekidiv: 'B', name: '京都市バス' },
+    '203': { ekidiv: 'B', name: '京都バス' },
+    '208': { ekidiv: 'B', name: '西日本JRバス' },
+    '300': { ekidiv: 'R', name: 'JR西日本' }
+  },
   coefficient: {
     SEARCH_NEAR_SPOTS_NUMBER: 10
   }
@@ -324,20 +365,57 @@ describe('RouteHtmlFetcher', () => {
        expect(axiosCall.params.fl).toBeDefined();
     });
 
-    it('should handle unknown station names gracefully', async () => {
-      await fetcher.fetchByName(
+    it('should reject unknown station names without calling upstream', async () => {
+      const error = await fetcher.fetchByName(
         '存在しない駅',
         '烏丸御池(京都バス)',
         '2025-01-15T09:30:00',
         'departure',
         'ja'
-      );
+      ).catch(e => e);
 
-             // デフォルトパターンが適用されることを確認
-       const axiosCall = (mockedAxios as any).mock.calls[0][0];
-       expect(axiosCall.params.fs).toBe('存在しない駅,0');
-       expect(axiosCall.params.fl).toBe('35.0,135.7');
-       expect(axiosCall.params.fi).toBe('B');
+      expect(error).toBeInstanceOf(StopNotFoundError);
+      expect(error.details).toEqual({ station: '存在しない駅', cause: 'stop_not_found' });
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+
+    it('should list the candidates when a base name matches stops of several operators', async () => {
+      const error = await fetcher.fetchByName(
+        '京都駅前',
+        '烏丸御池(京都バス)',
+        '2025-01-15T09:30:00',
+        'departure',
+        'ja'
+      ).catch(e => e);
+
+      expect(error).toBeInstanceOf(AmbiguousStopError);
+      expect(error.code).toBe(300);
+      expect(error.details).toEqual({
+        station: '京都駅前',
+        cause: 'ambiguous_stop',
+        candidates: [
+          { name: '京都駅前(京都市バス)', kind: 'bus_stop', operator: '京都市バス', company_id: 200, lat: 34.9873, lng: 135.7590 },
+          { name: '京都駅前(京都バス)', kind: 'bus_stop', operator: '京都バス', company_id: 203, lat: 34.9870, lng: 135.7585 }
+        ]
+      });
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a base name when the excluded companies leave a single candidate', async () => {
+      await fetcher.fetchByName('京都駅前', '浄土寺(京都市バス)', '2025-01-15T09:30:00', 'departure', 'ja', {
+        excludedCompanies: [203]
+      });
+
+      const axiosCall = (mockedAxios as any).mock.calls[0][0];
+      expect(axiosCall.params.fl).toBe('34.9873,135.759');
+    });
+
+    it('should accept the operator name as the suffix', async () => {
+      await fetcher.fetchByName('京都(JR西日本)', '浄土寺(京都市バス)', '2025-01-15T09:30:00', 'departure', 'ja');
+
+      const axiosCall = (mockedAxios as any).mock.calls[0][0];
+      expect(axiosCall.params.fl).toBe('34.9858,135.7581');
+      expect(axiosCall.params.fi).toBe('R');
     });
   });
 
@@ -510,6 +588,210 @@ describe('RouteHtmlFetcher', () => {
     });
   });
 
+  describe('Via station (経由地)', () => {
+    const fetchWithVia = (viaStation?: string) => fetcher.fetchByName(
+      '浄土寺(京都市バス)',
+      '烏丸御池(京都バス)',
+      '2025-01-15T09:30:00',
+      'departure',
+      'ja',
+      { viaStation }
+    );
+
+    it('should send an empty pn when no via station is given', async () => {
+      await fetchWithVia(undefined);
+
+      expect(mockedAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ params: expect.objectContaining({ pn: '' }) })
+      );
+    });
+
+    it('should pass station names with company suffix through', async () => {
+      await fetchWithVia('京都(西日本旅客鉄道)');
+
+      expect(mockedAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ params: expect.objectContaining({ pn: '京都(西日本旅客鉄道)' }) })
+      );
+    });
+
+    it('should resolve base names through stationselect', async () => {
+      await fetchWithVia('烏丸御池');
+
+      expect(mockedAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ params: expect.objectContaining({ pn: '烏丸御池(京都バス)' }) })
+      );
+    });
+
+    it('should reject unknown via stations without calling upstream', async () => {
+      const error = await fetchWithVia('存在しない駅').catch(e => e);
+
+      expect(error).toBeInstanceOf(StopNotFoundError);
+      expect(error.details).toEqual({ station: '存在しない駅', cause: 'stop_not_found' });
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+
+    it('should list the candidates when a via base name matches stops of several operators', async () => {
+      const error = await fetchWithVia('京都駅前').catch(e => e);
+
+      expect(error).toBeInstanceOf(AmbiguousStopError);
+      expect(error.details.station).toBe('京都駅前');
+      expect(error.details.candidates.map((candidate: { name: string }) => candidate.name))
+        .toEqual(['京都駅前(京都市バス)', '京都駅前(京都バス)']);
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a via base name when the excluded companies leave a single candidate', async () => {
+      await fetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:30:00', 'departure', 'ja', {
+        viaStation: '京都駅前',
+        excludedCompanies: [203]
+      });
+
+      expect(mockedAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ params: expect.objectContaining({ pn: '京都駅前(京都市バス)' }) })
+      );
+    });
+
+    it('should support via stations in coordinate searches', async () => {
+      await fetcher.fetchByCoordinates(
+        35.0252705,
+        135.7918895,
+        35.01070068,
+        135.7597217,
+        '2025-01-15T09:30:00',
+        'departure',
+        'ja',
+        { viaStation: '京都' }
+      );
+
+      expect(mockedAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ params: expect.objectContaining({ pn: '京都(西日本旅客鉄道)' }) })
+      );
+    });
+  });
+
+  describe('Mode and operator preferences', () => {
+    const nearStations = (param: 'fs' | 'ts'): string[] => {
+      const value: string = (mockedAxios as any).mock.calls[0][0].params[param];
+      return value.split(',').filter((_, index) => index % 2 === 0);
+    };
+
+    it('should list only stations of the allowed modes', async () => {
+      await fetcher.fetchByCoordinates(
+        35.0252705,
+        135.7918895,
+        35.01070068,
+        135.7597217,
+        '2025-01-15T09:30:00',
+        'departure',
+        'ja',
+        { allowedModes: ['train'] }
+      );
+
+      expect(nearStations('fs')).toEqual(['京都(西日本旅客鉄道)']);
+      expect(nearStations('ts')).toEqual(['京都(西日本旅客鉄道)']);
+    });
+
+    it('should leave out stops of excluded companies', async () => {
+      await fetcher.fetchByName(
+        '浄土寺(京都市バス)',
+        '烏丸御池(京都バス)',
+        '2025-01-15T09:30:00',
+        'departure',
+        'ja',
+        { excludedCompanies: [203] }
+      );
+
+      expect(nearStations('fs')).toContain('浄土寺(京都市バス)');
+      expect(nearStations('ts')).not.toContain('烏丸御池(京都バス)');
+    });
+
+    it('should keep the fixed landmark lists when every entry would be removed', async () => {
+      await fetcher.fetchByName('銀閣寺', '浄土寺(京都市バス)', '2025-01-15T09:30:00', 'departure', 'ja', {
+        allowedModes: ['train']
+      });
+
+      expect(nearStations('fs')).toEqual(['銀閣寺前(京都市バス)', '銀閣寺道(京都市バス)']);
+    });
+  });
+
+  describe('Response cache', () => {
+    it('should serve repeated searches from the cache', async () => {
+      const cachedFetcher = new RouteHtmlFetcher({ cache: new RouteHtmlCache() });
+
+      const first = await cachedFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:30:00', 'departure', 'ja');
+      const second = await cachedFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:30:00', 'departure', 'ja');
+
+      expect(first).toBe(mockHtmlResponse);
+      expect(second).toBe(mockHtmlResponse);
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+      expect(cachedFetcher.getCacheStats()).toEqual({ hits: 1, misses: 1, hit_rate: 0.5 });
+    });
+
+    it('should share cache entries within the same time bucket', async () => {
+      const cachedFetcher = new RouteHtmlFetcher({ cache: new RouteHtmlCache({ timeBucketMinutes: 10 }) });
+
+      await cachedFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:31:00', 'departure', 'ja');
+      await cachedFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:38:00', 'departure', 'ja');
+      await cachedFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:41:00', 'departure', 'ja');
+
+      expect(mockedAxios).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed responses', async () => {
+      const cachedFetcher = new RouteHtmlFetcher({ cache: new RouteHtmlCache(), retries: 1 });
+      mockedAxios.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(
+        cachedFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:30:00', 'departure', 'ja')
+      ).rejects.toThrow('Network error');
+      await cachedFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:30:00', 'departure', 'ja');
+
+      expect(mockedAxios).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report no stats without a cache', () => {
+      expect(fetcher.getCacheStats()).toBeNull();
+    });
+  });
+
+  describe('Record / replay', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'route-html-recordings-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should record responses and replay them without network access', async () => {
+      const recordingFetcher = new RouteHtmlFetcher({ recorder: new RouteHtmlRecorder({ mode: 'record', directory }) });
+      await recordingFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:30:00', 'departure', 'ja');
+
+      const index = JSON.parse(fs.readFileSync(path.join(directory, 'index.json'), 'utf8'));
+      const [recordedFile] = Object.keys(index);
+      expect(index[recordedFile]).toContain('tm=09%3A30');
+      expect(fs.readFileSync(path.join(directory, recordedFile), 'utf8')).toBe(mockHtmlResponse);
+
+      mockedAxios.mockClear();
+      const replayingFetcher = new RouteHtmlFetcher({ recorder: new RouteHtmlRecorder({ mode: 'replay', directory }) });
+      const result = await replayingFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:30:00', 'departure', 'ja');
+
+      expect(result).toBe(mockHtmlResponse);
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+
+    it('should fail clearly when no recording exists in replay mode', async () => {
+      const replayingFetcher = new RouteHtmlFetcher({ recorder: new RouteHtmlRecorder({ mode: 'replay', directory }) });
+
+      await expect(
+        replayingFetcher.fetchByName('浄土寺(京都市バス)', '烏丸御池(京都バス)', '2025-01-15T09:30:00', 'departure', 'ja')
+      ).rejects.toThrow('No recorded response for query');
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Master data initialization', () => {
     it('should load master data only once', async () => {
       // 複数回呼び出し
@@ -522,7 +804,7 @@ describe('RouteHtmlFetcher', () => {
     });
 
     it('should load data for correct language', async () => {
-      await fetcher.fetchByName('Station', 'Station2', '2025-01-15T09:30:00', 'departure', 'en');
+      await fetcher.fetchByName('Jodoji', 'Karasuma Oike', '2025-01-15T09:30:00', 'departure', 'en');
 
       expect(mockedLoadMaster).toHaveBeenCalledWith('en');
       expect(mockedLoadLandmarkData).toHaveBeenCalledWith('en');
@@ -3,6 +3,9 @@ import { RouteHtmlFetcher } from '../../src/utils/RouteHtmlFetcher.js';
 import { RouteHtmlParser } from '../../src/utils/RouteHtmlParser.js';
 import { TokenLimiter } from '../../src/utils/TokenLimiter.js';
 import { RequestValidator } from '../../src/utils/RequestValidator.js';
+import { OfflineRoutePlanner } from '../../src/services/OfflineRoutePlanner.js';
+import { StopSearchService } from '../../src/services/StopSearchService.js';
+import { InternalError, StopNotFoundError, UpstreamUnavailableError, ValidationError } from '../../src/utils/ToolErrors.js';
 import { RouteSearchByGeoRequest } from '../../src/types/index.js';
 
 // モックの設定
@@ -168,14 +171,16 @@ describe('RouteSearchByGeoService', () => {
         135.75972,
         '2025-01-15T09:30:00',
         'departure',
-        'ja'
+        'ja',
+        {}
       );
       expect(mockParser.parseHtml).toHaveBeenCalledWith(mockHtmlResponse, 'ja');
       expect(mockTokenLimiter.applyLimit).toHaveBeenCalledWith(mockParseResult, 1024);
 
       expect(result).toEqual({
         routes: mockParseResult.routes,
-        truncated: false
+        truncated: false,
+        cursor: expect.any(String)
       });
     });
 
@@ -191,7 +196,8 @@ describe('RouteSearchByGeoService', () => {
         135.75972,
         '2025-01-15T09:30:00',
         'arrival',
-        'ja'
+        'ja',
+        {}
       );
     });
 
@@ -207,7 +213,8 @@ describe('RouteSearchByGeoService', () => {
         135.75972,
         '2025-01-15T09:30:00',
         'first',
-        'ja'
+        'ja',
+        {}
       );
     });
 
@@ -223,7 +230,8 @@ describe('RouteSearchByGeoService', () => {
         135.75972,
         '2025-01-15T09:30:00',
         'last',
-        'ja'
+        'ja',
+        {}
       );
     });
 
@@ -238,17 +246,18 @@ describe('RouteSearchByGeoService', () => {
 
       expect(result).toEqual({
         routes: truncatedResult.data.routes,
-        truncated: true
+        truncated: true,
+        cursor: expect.any(String)
       });
     });
 
     it('should throw validation error from validator', async () => {
-      const validationError = new Error('Invalid coordinates');
+      const validationError = new ValidationError('Invalid coordinates');
       mockValidator.validateRouteSearchByGeoRequest.mockImplementation(() => {
         throw validationError;
       });
 
-      await expect(service.searchRoute(validRequest)).rejects.toThrow('Invalid coordinates');
+      await expect(service.searchRoute(validRequest)).rejects.toBe(validationError);
     });
 
     it('should throw location not found error when no routes and HTML indicates not found', async () => {
@@ -267,6 +276,29 @@ describe('RouteSearchByGeoService', () => {
       });
     });
 
+    it('should report how the result page was parsed', async () => {
+      const parse_diagnostics = { strategy: 'raw' as const, missing_anchors: ['td.time_1', '#result_list table tr[data-href]'], no_results: false };
+      mockParser.parseHtml.mockReturnValue({ ...mockParseResult, parse_diagnostics });
+
+      const result = await service.searchRoute(validRequest);
+
+      expect(result.parse_diagnostics).toEqual(parse_diagnostics);
+    });
+
+    it('should throw upstream format error when the result page cannot be parsed', async () => {
+      const parse_diagnostics = { strategy: null, missing_anchors: ['td.time_1'], no_results: false };
+      mockParser.parseHtml.mockReturnValue({ routes: [], truncated: false, parse_diagnostics });
+
+      await expect(service.searchRoute(validRequest)).rejects.toMatchObject({
+        code: 502,
+        message: 'Upstream format changed: no routes could be parsed from the result page (missing: td.time_1)',
+        details: {
+          cause: 'upstream_format_changed',
+          parse_diagnostics
+        }
+      });
+    });
+
     it('should handle timeout error', async () => {
       const timeoutError = new Error('timeout');
       mockFetcher.fetchByCoordinates.mockRejectedValue(timeoutError);
@@ -294,11 +326,50 @@ describe('RouteSearchByGeoService', () => {
       });
     });
 
-    it('should re-throw known errors (400, 404, 503)', async () => {
-      const knownError = new Error('Service error 404');
-      mockFetcher.fetchByCoordinates.mockRejectedValue(knownError);
+    it('should re-throw typed errors unchanged', async () => {
+      const cursorError = new ValidationError('Invalid cursor. Pass the cursor returned by the previous route search unchanged');
+      mockFetcher.fetchByCoordinates.mockRejectedValue(cursorError);
 
-      await expect(service.searchRoute(validRequest)).rejects.toThrow('Service error 404');
+      await expect(service.searchRoute(validRequest)).rejects.toBe(cursorError);
+    });
+
+    it('should suggest similar stops when the via station is unknown', async () => {
+      const suggestions = [
+        { name: '四条河原町(京都市バス)', kind: 'bus_stop' as const, id: 'B:200_四条河原町(京都市バス)', match_type: 'fuzzy' as const }
+      ];
+      const stopSearchService = new StopSearchService();
+      jest.spyOn(stopSearchService, 'search').mockResolvedValue({ candidates: suggestions, truncated: false });
+      const suggestingService = new RouteSearchByGeoService(
+        mockFetcher, mockParser, mockTokenLimiter, mockValidator, undefined, undefined, stopSearchService
+      );
+      mockFetcher.fetchByCoordinates.mockRejectedValue(new StopNotFoundError('Stop not found: 四条河原丁', { station: '四条河原丁' }));
+
+      const error = await suggestingService.searchRoute({ ...validRequest, via_station: '四条河原丁' }).catch(e => e);
+
+      expect(stopSearchService.search).toHaveBeenCalledWith(expect.objectContaining({ query: '四条河原丁', language: 'ja' }));
+      expect(error).toBeInstanceOf(StopNotFoundError);
+      expect(error.details).toEqual({ station: '四条河原丁', suggestions, cause: 'stop_not_found' });
+      stopSearchService.destroy();
+    });
+
+    it('should not trust status codes in untyped error messages', async () => {
+      mockFetcher.fetchByCoordinates.mockRejectedValue(new Error('Service error 404'));
+
+      await expect(service.searchRoute(validRequest)).rejects.toBeInstanceOf(InternalError);
+    });
+
+    it('should report upstream failures after retries as unavailable', async () => {
+      const message = 'Failed to fetch route HTML after 3 attempts: Request failed with status code 503';
+      mockFetcher.fetchByCoordinates.mockRejectedValue(new Error(message));
+
+      const error = await service.searchRoute(validRequest).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(UpstreamUnavailableError);
+      expect(error).toMatchObject({
+        message: `Upstream service unavailable: ${message}`,
+        code: 503,
+        details: { cause: 'upstream_unavailable', original_message: message }
+      });
     });
 
     it('should convert unknown errors to internal errors', async () => {
@@ -329,6 +400,186 @@ describe('RouteSearchByGeoService', () => {
     });
   });
 
+  describe('pagination', () => {
+    const laterRoute = {
+      summary: {
+        depart: '2025-01-15T10:00',
+        arrive: '2025-01-15T10:40',
+        duration_min: 40,
+        transfers: 0,
+        fare_jpy: 230
+      },
+      legs: [
+        {
+          mode: 'bus' as const,
+          line: 'テスト路線1',
+          from: '出発地1',
+          to: '到着地1',
+          depart_time: '2025-01-15T10:00',
+          duration_min: 40
+        }
+      ]
+    };
+
+    beforeEach(() => {
+      mockTokenLimiter.applyLimit.mockImplementation((data: any) => ({ data, truncated: false }));
+    });
+
+    it('should re-query later routes with the next cursor and skip routes already returned', async () => {
+      const first = await service.searchRoute(validRequest);
+      mockParser.parseHtml.mockReturnValue({ routes: [mockParseResult.routes[1], laterRoute], truncated: false });
+
+      const next = await service.searchRoute({ ...validRequest, cursor: first.cursor, page: 'next' });
+
+      expect(mockFetcher.fetchByCoordinates.mock.calls[1][4]).toBe('2025-01-15T09:40+09:00');
+      expect(mockFetcher.fetchByCoordinates.mock.calls[1][5]).toBe('departure');
+      expect(next.routes).toEqual([laterRoute]);
+      expect(next.cursor).toEqual(expect.any(String));
+    });
+
+    it('should shift the search time backwards for the previous page', async () => {
+      const first = await service.searchRoute(validRequest);
+
+      await service.searchRoute({ ...validRequest, cursor: first.cursor, page: 'previous' });
+
+      expect(mockFetcher.fetchByCoordinates.mock.calls[1][4]).toBe('2025-01-15T09:20+09:00');
+    });
+
+    it('should keep shifting while only routes already returned are found', async () => {
+      const first = await service.searchRoute(validRequest);
+
+      const next = await service.searchRoute({ ...validRequest, cursor: first.cursor });
+
+      expect(mockFetcher.fetchByCoordinates.mock.calls.slice(1).map(call => call[4])).toEqual([
+        '2025-01-15T09:40+09:00',
+        '2025-01-15T09:50+09:00',
+        '2025-01-15T10:00+09:00'
+      ]);
+      expect(next.routes).toEqual([]);
+      expect(next.cursor).toBe(first.cursor);
+    });
+
+    it('should reject a cursor from a different search', async () => {
+      const first = await service.searchRoute(validRequest);
+
+      await expect(service.searchRoute({ ...validRequest, to_latlng: '34.98586,135.75877', cursor: first.cursor }))
+        .rejects.toThrow('Invalid cursor');
+    });
+  });
+
+  describe('ranking', () => {
+    it('should sort routes before the token limit is applied', async () => {
+      await service.searchRoute({ ...validRequest, sort_by: 'walking' });
+
+      const limited = mockTokenLimiter.applyLimit.mock.calls[0][0] as any;
+      expect(limited.routes).toEqual([mockParseResult.routes[1], mockParseResult.routes[0]]);
+    });
+
+    it('should drop routes outside the filters', async () => {
+      await service.searchRoute({ ...validRequest, max_transfers: 0, max_fare_jpy: 300 });
+
+      const limited = mockTokenLimiter.applyLimit.mock.calls[0][0] as any;
+      expect(limited.routes).toEqual([mockParseResult.routes[1]]);
+    });
+  });
+
+  describe('mode and operator preferences', () => {
+    beforeEach(() => {
+      mockTokenLimiter.applyLimit.mockImplementation(data => ({ data, truncated: false }));
+    });
+
+    it('should pass the preferences to the fetcher and report dropped routes', async () => {
+      const result = await service.searchRoute({ ...validRequest, allowed_modes: ['train'], excluded_companies: [203] });
+
+      expect(mockFetcher.fetchByCoordinates.mock.calls[0][7]).toEqual({
+        viaStation: undefined,
+        allowedModes: ['train'],
+        excludedCompanies: [203]
+      });
+      expect(result.routes).toEqual([]);
+      expect(result.dropped?.map(dropped => dropped.reason)).toEqual(['mode', 'mode']);
+    });
+
+    it('should apply the preferences to estimated routes', async () => {
+      const planner = {
+        planByCoordinates: jest.fn().mockResolvedValue({
+          routes: [{
+            summary: { duration_min: 12, transfers: 0 },
+            legs: [{ mode: 'train' as const, line: '烏丸線', from: '京都', to: '烏丸御池', duration_min: 6, stops: 3 }],
+            estimated: true
+          }],
+          truncated: false
+        })
+      } as any;
+      const offlineService = new RouteSearchByGeoService(
+        mockFetcher, mockParser, mockTokenLimiter, mockValidator, { planner, mode: 'always' }
+      );
+
+      const result = await offlineService.searchRoute({ ...validRequest, excluded_companies: [103] });
+
+      expect(result.routes).toEqual([]);
+      expect(result.dropped).toEqual([{ duration_min: 12, reason: 'company', line: '烏丸線', company_id: 103 }]);
+    });
+  });
+
+  describe('offline routing', () => {
+    const estimatedResult = {
+      routes: [
+        {
+          summary: { duration_min: 20, transfers: 0 },
+          legs: [{ mode: 'bus' as const, line: 'テスト路線1', duration_min: 15, stops: 5 }],
+          estimated: true
+        }
+      ],
+      truncated: false
+    };
+    let mockPlanner: jest.Mocked<OfflineRoutePlanner>;
+
+    beforeEach(() => {
+      mockPlanner = {
+        planByCoordinates: jest.fn().mockResolvedValue(estimatedResult),
+      } as any;
+      mockTokenLimiter.applyLimit.mockReturnValue({ data: estimatedResult, truncated: false });
+    });
+
+    it('should fall back to estimated routes when the upstream site is unreachable', async () => {
+      mockFetcher.fetchByCoordinates.mockRejectedValue(
+        new Error('Failed to fetch route HTML after 3 attempts: Request failed with status code 503')
+      );
+      const fallbackService = new RouteSearchByGeoService(
+        mockFetcher, mockParser, mockTokenLimiter, mockValidator, { planner: mockPlanner, mode: 'fallback' }
+      );
+
+      const result = await fallbackService.searchRoute(validRequest);
+
+      expect(mockPlanner.planByCoordinates).toHaveBeenCalledWith(validRequest);
+      expect(result.routes[0].estimated).toBe(true);
+    });
+
+    it('should always use estimated routes in always mode', async () => {
+      const offlineService = new RouteSearchByGeoService(
+        mockFetcher, mockParser, mockTokenLimiter, mockValidator, { planner: mockPlanner, mode: 'always' }
+      );
+
+      await offlineService.searchRoute(validRequest);
+
+      expect(mockFetcher.fetchByCoordinates).not.toHaveBeenCalled();
+      expect(mockPlanner.planByCoordinates).toHaveBeenCalled();
+    });
+
+    it('should not fall back on validation errors', async () => {
+      mockValidator.validateRouteSearchByGeoRequest.mockImplementation(() => {
+        throw new ValidationError('Missing required parameter: language');
+      });
+      const fallbackService = new RouteSearchByGeoService(
+        mockFetcher, mockParser, mockTokenLimiter, mockValidator, { planner: mockPlanner, mode: 'fallback' }
+      );
+
+      await expect(fallbackService.searchRoute(validRequest)).rejects.toThrow('Missing required parameter: language');
+      expect(mockPlanner.planByCoordinates).not.toHaveBeenCalled();
+    });
+  });
+
   describe('private methods behavior', () => {
     it('should detect location not found from various HTML indicators', async () => {
       const testCases = [
@@ -3,6 +3,15 @@ import { RouteHtmlFetcher } from '../../src/utils/RouteHtmlFetcher.js';
 import { RouteHtmlParser } from '../../src/utils/RouteHtmlParser.js';
 import { TokenLimiter } from '../../src/utils/TokenLimiter.js';
 import { RequestValidator } from '../../src/utils/RequestValidator.js';
+import { OfflineRoutePlanner } from '../../src/services/OfflineRoutePlanner.js';
+import { StopSearchService } from '../../src/services/StopSearchService.js';
+import {
+  AmbiguousStopError,
+  InternalError,
+  StopNotFoundError,
+  UpstreamUnavailableError,
+  ValidationError
+} from '../../src/utils/ToolErrors.js';
 import { RouteSearchByNameRequest } from '../../src/types/index.js';
 
 // モックの設定
@@ -168,14 +177,16 @@ describe('RouteSearchByNameService', () => {
         '烏丸御池(京都バス)',
         '2025-01-15T09:30:00',
         'departure',
-        'ja'
+        'ja',
+        {}
       );
       expect(mockParser.parseHtml).toHaveBeenCalledWith(mockHtmlResponse, 'ja');
       expect(mockTokenLimiter.applyLimit).toHaveBeenCalledWith(mockParseResult, 1024);
 
       expect(result).toEqual({
         routes: mockParseResult.routes,
-        truncated: false
+        truncated: false,
+        cursor: expect.any(String)
       });
     });
 
@@ -189,7 +200,8 @@ describe('RouteSearchByNameService', () => {
         '烏丸御池(京都バス)',
         '2025-01-15T09:30:00',
         'arrival',
-        'ja'
+        'ja',
+        {}
       );
     });
 
@@ -203,7 +215,8 @@ describe('RouteSearchByNameService', () => {
         '烏丸御池(京都バス)',
         '2025-01-15T09:30:00',
         'first',
-        'ja'
+        'ja',
+        {}
       );
     });
 
@@ -217,7 +230,21 @@ describe('RouteSearchByNameService', () => {
         '烏丸御池(京都バス)',
         '2025-01-15T09:30:00',
         'last',
-        'ja'
+        'ja',
+        {}
+      );
+    });
+
+    it('should pass via_station to the fetcher', async () => {
+      await service.searchRoute({ ...validRequest, via_station: '四条' });
+
+      expect(mockFetcher.fetchByName).toHaveBeenCalledWith(
+        '浄土寺(京都市バス)',
+        '烏丸御池(京都バス)',
+        '2025-01-15T09:30:00',
+        'departure',
+        'ja',
+        { viaStation: '四条' }
       );
     });
 
@@ -232,17 +259,18 @@ describe('RouteSearchByNameService', () => {
 
       expect(result).toEqual({
         routes: truncatedResult.data.routes,
-        truncated: true
+        truncated: true,
+        cursor: expect.any(String)
       });
     });
 
     it('should throw validation error from validator', async () => {
-      const validationError = new Error('Invalid station name');
+      const validationError = new ValidationError('Invalid station name');
       mockValidator.validateRouteSearchRequest.mockImplementation(() => {
         throw validationError;
       });
 
-      await expect(service.searchRoute(validRequest)).rejects.toThrow('Invalid station name');
+      await expect(service.searchRoute(validRequest)).rejects.toBe(validationError);
     });
 
     it('should throw stop not found error when no routes found', async () => {
@@ -259,6 +287,39 @@ describe('RouteSearchByNameService', () => {
       });
     });
 
+    it('should report how the result page was parsed', async () => {
+      const parse_diagnostics = { strategy: 'raw' as const, missing_anchors: ['td.time_1', '#result_list table tr[data-href]'], no_results: false };
+      mockParser.parseHtml.mockReturnValue({ ...mockParseResult, parse_diagnostics });
+
+      const result = await service.searchRoute(validRequest);
+
+      expect(result.parse_diagnostics).toEqual(parse_diagnostics);
+    });
+
+    it('should throw upstream format error when the result page cannot be parsed', async () => {
+      const parse_diagnostics = { strategy: null, missing_anchors: ['td.time_1', 'form#resultInfo'], no_results: false };
+      mockParser.parseHtml.mockReturnValue({ routes: [], truncated: false, parse_diagnostics });
+
+      await expect(service.searchRoute(validRequest)).rejects.toMatchObject({
+        message: 'Upstream format changed: no routes could be parsed from the result page (missing: td.time_1, form#resultInfo)',
+        code: 502,
+        details: {
+          cause: 'upstream_format_changed',
+          parse_diagnostics
+        }
+      });
+    });
+
+    it('should keep stop not found error when the page says there are no results', async () => {
+      mockParser.parseHtml.mockReturnValue({
+        routes: [],
+        truncated: false,
+        parse_diagnostics: { strategy: null, missing_anchors: ['td.time_1'], no_results: true }
+      });
+
+      await expect(service.searchRoute(validRequest)).rejects.toMatchObject({ code: 404 });
+    });
+
     it('should handle timeout error', async () => {
       const timeoutError = new Error('timeout');
       mockFetcher.fetchByName.mockRejectedValue(timeoutError);
@@ -334,11 +395,60 @@ describe('RouteSearchByNameService', () => {
       });
     });
 
-    it('should re-throw known errors (400, 404, 503)', async () => {
-      const knownError = new Error('Service error 400');
-      mockFetcher.fetchByName.mockRejectedValue(knownError);
+    it('should re-throw typed errors unchanged', async () => {
+      const cursorError = new ValidationError('Invalid cursor. Pass the cursor returned by the previous route search unchanged');
+      mockFetcher.fetchByName.mockRejectedValue(cursorError);
 
-      await expect(service.searchRoute(validRequest)).rejects.toThrow('Service error 400');
+      await expect(service.searchRoute(validRequest)).rejects.toBe(cursorError);
+    });
+
+    it('should pass ambiguous stop errors through with their candidates', async () => {
+      const ambiguousError = new AmbiguousStopError('Ambiguous stop: 京都駅前 matches 2 stops of different operators', '京都駅前', [
+        { name: '京都駅前(京都市バス)', kind: 'bus_stop', operator: '京都市バス', company_id: 200, lat: 34.9868, lng: 135.7586 },
+        { name: '京都駅前(京都バス)', kind: 'bus_stop', operator: '京都バス', company_id: 203, lat: 34.9870, lng: 135.7585 }
+      ]);
+      mockFetcher.fetchByName.mockRejectedValue(ambiguousError);
+
+      await expect(service.searchRoute(validRequest)).rejects.toBe(ambiguousError);
+    });
+
+    it('should suggest similar stops when a stop name is unknown', async () => {
+      const suggestions = [
+        { name: '浄土寺(京都市バス)', kind: 'bus_stop' as const, id: 'B:200_浄土寺(京都市バス)', match_type: 'fuzzy' as const }
+      ];
+      const stopSearchService = new StopSearchService();
+      jest.spyOn(stopSearchService, 'search').mockResolvedValue({ candidates: suggestions, truncated: false });
+      const suggestingService = new RouteSearchByNameService(
+        mockFetcher, mockParser, mockTokenLimiter, mockValidator, undefined, undefined, stopSearchService
+      );
+      mockFetcher.fetchByName.mockRejectedValue(new StopNotFoundError('Stop not found: 浄士寺(京都市バス)', { station: '浄士寺(京都市バス)' }));
+
+      const error = await suggestingService.searchRoute(validRequest).catch(e => e);
+
+      expect(stopSearchService.search).toHaveBeenCalledWith(expect.objectContaining({ query: '浄士寺', language: 'ja' }));
+      expect(error).toBeInstanceOf(StopNotFoundError);
+      expect(error.details).toEqual({ station: '浄士寺(京都市バス)', suggestions, cause: 'stop_not_found' });
+      stopSearchService.destroy();
+    });
+
+    it('should not trust status codes in untyped error messages', async () => {
+      mockFetcher.fetchByName.mockRejectedValue(new Error('Service error 400'));
+
+      await expect(service.searchRoute(validRequest)).rejects.toBeInstanceOf(InternalError);
+    });
+
+    it('should report upstream failures after retries as unavailable', async () => {
+      const message = 'Failed to fetch route HTML after 3 attempts: Request failed with status code 503';
+      mockFetcher.fetchByName.mockRejectedValue(new Error(message));
+
+      const error = await service.searchRoute(validRequest).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(UpstreamUnavailableError);
+      expect(error).toMatchObject({
+        message: `Upstream service unavailable: ${message}`,
+        code: 503,
+        details: { cause: 'upstream_unavailable', original_message: message }
+      });
     });
 
     it('should convert unknown errors to internal errors', async () => {
@@ -369,6 +479,193 @@ describe('RouteSearchByNameService', () => {
     });
   });
 
+  describe('pagination', () => {
+    const laterRoute = {
+      summary: {
+        depart: '2025-01-15T10:00',
+        arrive: '2025-01-15T10:40',
+        duration_min: 40,
+        transfers: 0,
+        fare_jpy: 230
+      },
+      legs: [
+        {
+          mode: 'bus' as const,
+          line: 'テスト路線1',
+          from: '出発地1',
+          to: '到着地1',
+          depart_time: '2025-01-15T10:00',
+          duration_min: 40
+        }
+      ]
+    };
+
+    beforeEach(() => {
+      mockTokenLimiter.applyLimit.mockImplementation((data: any) => ({ data, truncated: false }));
+    });
+
+    it('should re-query later routes with the next cursor and skip routes already returned', async () => {
+      const first = await service.searchRoute(validRequest);
+      mockParser.parseHtml.mockReturnValue({ routes: [mockParseResult.routes[1], laterRoute], truncated: false });
+
+      const next = await service.searchRoute({ ...validRequest, cursor: first.cursor, page: 'next' });
+
+      expect(mockFetcher.fetchByName.mock.calls[1][2]).toBe('2025-01-15T09:40+09:00');
+      expect(mockFetcher.fetchByName.mock.calls[1][3]).toBe('departure');
+      expect(next.routes).toEqual([laterRoute]);
+      expect(next.cursor).toEqual(expect.any(String));
+    });
+
+    it('should shift the search time backwards for the previous page', async () => {
+      const first = await service.searchRoute(validRequest);
+
+      await service.searchRoute({ ...validRequest, cursor: first.cursor, page: 'previous' });
+
+      expect(mockFetcher.fetchByName.mock.calls[1][2]).toBe('2025-01-15T09:20+09:00');
+    });
+
+    it('should keep shifting while only routes already returned are found', async () => {
+      const first = await service.searchRoute(validRequest);
+
+      const next = await service.searchRoute({ ...validRequest, cursor: first.cursor });
+
+      expect(mockFetcher.fetchByName.mock.calls.slice(1).map(call => call[2])).toEqual([
+        '2025-01-15T09:40+09:00',
+        '2025-01-15T09:50+09:00',
+        '2025-01-15T10:00+09:00'
+      ]);
+      expect(next.routes).toEqual([]);
+      expect(next.cursor).toBe(first.cursor);
+    });
+
+    it('should reject a cursor from a different search', async () => {
+      const first = await service.searchRoute(validRequest);
+
+      await expect(service.searchRoute({ ...validRequest, to_station: '京都駅前(京都市バス)', cursor: first.cursor }))
+        .rejects.toThrow('Invalid cursor');
+    });
+  });
+
+  describe('ranking', () => {
+    it('should sort routes before the token limit is applied', async () => {
+      await service.searchRoute({ ...validRequest, sort_by: 'walking' });
+
+      const limited = mockTokenLimiter.applyLimit.mock.calls[0][0] as any;
+      expect(limited.routes).toEqual([mockParseResult.routes[1], mockParseResult.routes[0]]);
+    });
+
+    it('should drop routes outside the filters', async () => {
+      await service.searchRoute({ ...validRequest, max_transfers: 0, max_fare_jpy: 300 });
+
+      const limited = mockTokenLimiter.applyLimit.mock.calls[0][0] as any;
+      expect(limited.routes).toEqual([mockParseResult.routes[1]]);
+    });
+  });
+
+  describe('mode and operator preferences', () => {
+    const trainRoute = {
+      summary: { depart: '2025-01-15T09:35', arrive: '2025-01-15T09:50', duration_min: 15, transfers: 0, fare_jpy: 220 },
+      legs: [{ mode: 'train' as const, line: '京阪本線 特急(淀屋橋)', from: '祇園四条', to: '三条', duration_min: 2 }]
+    };
+    const mixedResult = { routes: [mockParseResult.routes[0], trainRoute], truncated: false };
+
+    beforeEach(() => {
+      mockParser.parseHtml.mockReturnValue(mixedResult);
+      mockTokenLimiter.applyLimit.mockImplementation(data => ({ data, truncated: false }));
+    });
+
+    it('should pass the preferences to the fetcher and report dropped routes', async () => {
+      const result = await service.searchRoute({ ...validRequest, allowed_modes: ['train'] });
+
+      expect(mockFetcher.fetchByName.mock.calls[0][5]).toEqual({
+        viaStation: undefined,
+        allowedModes: ['train'],
+        excludedCompanies: undefined
+      });
+      expect(result.routes).toEqual([trainRoute]);
+      expect(result.dropped).toEqual([
+        { depart: '2025-01-15T09:30', arrive: '2025-01-15T10:15', duration_min: 45, reason: 'mode', line: 'テスト路線1' }
+      ]);
+    });
+
+    it('should drop routes on excluded companies', async () => {
+      const result = await service.searchRoute({ ...validRequest, excluded_companies: [100] });
+
+      expect(result.routes).toEqual([mockParseResult.routes[0]]);
+      expect(result.dropped).toEqual([expect.objectContaining({ reason: 'company', company_id: 100 })]);
+    });
+
+    it('should omit dropped when nothing is removed', async () => {
+      const result = await service.searchRoute(validRequest);
+
+      expect(result.dropped).toBeUndefined();
+    });
+
+    it('should reject unknown company IDs before searching', async () => {
+      await expect(service.searchRoute({ ...validRequest, excluded_companies: [999] }))
+        .rejects.toThrow('Invalid excluded_companies. Unknown company ID: 999');
+      expect(mockFetcher.fetchByName).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offline routing', () => {
+    const estimatedResult = {
+      routes: [
+        {
+          summary: { duration_min: 20, transfers: 0 },
+          legs: [{ mode: 'bus' as const, line: 'テスト路線1', duration_min: 15, stops: 5 }],
+          estimated: true
+        }
+      ],
+      truncated: false
+    };
+    let mockPlanner: jest.Mocked<OfflineRoutePlanner>;
+
+    beforeEach(() => {
+      mockPlanner = {
+        planByName: jest.fn().mockResolvedValue(estimatedResult),
+      } as any;
+      mockTokenLimiter.applyLimit.mockReturnValue({ data: estimatedResult, truncated: false });
+    });
+
+    it('should fall back to estimated routes when the upstream site is unreachable', async () => {
+      mockFetcher.fetchByName.mockRejectedValue(
+        new Error('Failed to fetch route HTML after 3 attempts: Request failed with status code 503')
+      );
+      const fallbackService = new RouteSearchByNameService(
+        mockFetcher, mockParser, mockTokenLimiter, mockValidator, { planner: mockPlanner, mode: 'fallback' }
+      );
+
+      const result = await fallbackService.searchRoute(validRequest);
+
+      expect(mockPlanner.planByName).toHaveBeenCalledWith(validRequest);
+      expect(result.routes[0].estimated).toBe(true);
+    });
+
+    it('should always use estimated routes in always mode', async () => {
+      const offlineService = new RouteSearchByNameService(
+        mockFetcher, mockParser, mockTokenLimiter, mockValidator, { planner: mockPlanner, mode: 'always' }
+      );
+
+      await offlineService.searchRoute(validRequest);
+
+      expect(mockFetcher.fetchByName).not.toHaveBeenCalled();
+      expect(mockPlanner.planByName).toHaveBeenCalled();
+    });
+
+    it('should not fall back on validation errors', async () => {
+      mockValidator.validateRouteSearchRequest.mockImplementation(() => {
+        throw new ValidationError('Missing required parameter: language');
+      });
+      const fallbackService = new RouteSearchByNameService(
+        mockFetcher, mockParser, mockTokenLimiter, mockValidator, { planner: mockPlanner, mode: 'fallback' }
+      );
+
+      await expect(fallbackService.searchRoute(validRequest)).rejects.toThrow('Missing required parameter: language');
+      expect(mockPlanner.planByName).not.toHaveBeenCalled();
+    });
+  });
+
   describe('private methods behavior', () => {
     it('should detect timeout errors from various indicators', async () => {
       const timeoutErrors = [
@@ -0,0 +1,29 @@
+import { substringEditDistance, fuzzySimilarity } from '../../src/utils/FuzzyMatcher.js';
+
+describe('FuzzyMatcher', () => {
+  describe('substringEditDistance', () => {
+    it('should be 0 when the query is a substring', () => {
+      expect(substringEditDistance('kaku', 'kinkakuji')).toBe(0);
+    });
+
+    it('should count a missing character', () => {
+      expect(substringEditDistance('kinkakuji', 'kinkaku-jitemple')).toBe(1);
+    });
+
+    it('should count a substituted character', () => {
+      expect(substringEditDistance('ぎをん', 'ぎおんしじょう')).toBe(1);
+    });
+  });
+
+  describe('fuzzySimilarity', () => {
+    it('should scale the distance by the query length', () => {
+      expect(fuzzySimilarity('ぎをん', 'ぎおん')).toBeCloseTo(2 / 3);
+      expect(fuzzySimilarity('kinkakuji', 'kinkaku-ji')).toBeCloseTo(8 / 9);
+    });
+
+    it('should return 0 for empty strings', () => {
+      expect(fuzzySimilarity('', 'abc')).toBe(0);
+      expect(fuzzySimilarity('abc', '')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { ItineraryService, LEG_SEARCH_MAX_TOKENS } from '../../src/services/ItineraryService.js';
+import { RouteSearchByNameService } from '../../src/services/RouteSearchByNameService.js';
+import { StopNotFoundError } from '../../src/utils/ToolErrors.js';
+import { renderItineraryText } from '../../src/utils/ToolOutput.js';
+import { ItineraryRequest, Route, RouteSearchByNameRequest } from '../../src/types/index.js';
+
+jest.mock('../../src/services/RouteSearchByNameService.js');
+
+const mockedRouteService = RouteSearchByNameService as jest.MockedClass<typeof RouteSearchByNameService>;
+
+/**
+ * depart から duration_min 分のバス1本 + 徒歩のルート
+ */
+function busRoute(depart: string, arrive: string, duration: number, fare = 230): Route {
+  return {
+    summary: { depart, arrive, duration_min: duration, transfers: 0, fare_jpy: fare },
+    legs: [
+      { mode: 'bus', line: '市バス', from: 'A', to: 'B', depart_time: depart, duration_min: duration - 5, fare_jpy: fare },
+      { mode: 'walk', duration_min: 5, distance_km: 0.4 }
+    ]
+  };
+}
+
+describe('ItineraryService', () => {
+  let service: ItineraryService;
+  let mockRouteService: jest.Mocked<RouteSearchByNameService>;
+
+  const request: ItineraryRequest = {
+    language: 'ja',
+    max_tokens: 4096,
+    datetime: '2025-01-15T09:00',
+    stops: [
+      { name: '京都駅' },
+      { name: '金閣寺', stay_min: 60 },
+      { name: '龍安寺', stay_min: 45 },
+      { name: '京都駅' }
+    ]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRouteService = new mockedRouteService() as jest.Mocked<RouteSearchByNameService>;
+    service = new ItineraryService(mockRouteService);
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('should depart each leg at the previous arrival plus the stay time', async () => {
+    mockRouteService.searchRoute
+      .mockResolvedValueOnce({ routes: [busRoute('2025-01-15T09:05+09:00', '2025-01-15T09:45+09:00', 40)], truncated: false })
+      .mockResolvedValueOnce({ routes: [busRoute('2025-01-15T10:50+09:00', '2025-01-15T11:05+09:00', 15)], truncated: false })
+      .mockResolvedValueOnce({ routes: [busRoute('2025-01-15T11:55+09:00', '2025-01-15T12:35+09:00', 40)], truncated: false });
+
+    const result = await service.planItinerary(request);
+
+    const datetimes = mockRouteService.searchRoute.mock.calls.map(([leg]: [RouteSearchByNameRequest]) => leg.datetime);
+    expect(datetimes).toEqual(['2025-01-15T09:00+09:00', '2025-01-15T10:45+09:00', '2025-01-15T11:50+09:00']);
+    expect(mockRouteService.searchRoute.mock.calls[1][0]).toMatchObject({
+      from_station: '金閣寺',
+      to_station: '龍安寺',
+      datetime_type: 'departure'
+    });
+
+    expect(result.timeline.map(entry => entry.type)).toEqual(['move', 'stay', 'move', 'stay', 'move']);
+    expect(result.timeline[1]).toEqual({
+      type: 'stay',
+      name: '金閣寺',
+      arrive: '2025-01-15T09:45+09:00',
+      depart: '2025-01-15T10:45+09:00',
+      stay_min: 60
+    });
+    expect(result.summary).toEqual({
+      depart: '2025-01-15T09:05+09:00',
+      arrive: '2025-01-15T12:35+09:00',
+      duration_min: 210,
+      travel_min: 95,
+      fare_jpy: 690,
+      walk_min: 15,
+      walk_km: 1.2,
+      transfers: 0,
+      estimated: false
+    });
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should pick the earliest arriving route for each leg', async () => {
+    mockRouteService.searchRoute.mockResolvedValueOnce({
+      routes: [
+        busRoute('2025-01-15T09:02+09:00', '2025-01-15T09:50+09:00', 48),
+        busRoute('2025-01-15T09:10+09:00', '2025-01-15T09:40+09:00', 30, 260)
+      ],
+      truncated: false
+    });
+
+    const result = await service.planItinerary({ ...request, stops: request.stops.slice(0, 2) });
+
+    expect(result.timeline).toHaveLength(1);
+    expect(result.timeline[0]).toMatchObject({ type: 'move', leg: 1, arrive: '2025-01-15T09:40+09:00', fare_jpy: 260 });
+  });
+
+  it('should apply max_tokens to the itinerary, not to each leg search', async () => {
+    mockRouteService.searchRoute.mockResolvedValueOnce({
+      routes: [busRoute('2025-01-15T09:05+09:00', '2025-01-15T09:45+09:00', 40)],
+      truncated: false
+    });
+
+    const result = await service.planItinerary({ ...request, max_tokens: 50, stops: request.stops.slice(0, 2) });
+
+    expect(mockRouteService.searchRoute.mock.calls[0][0].max_tokens).toBe(LEG_SEARCH_MAX_TOKENS);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should keep the summary when max_tokens leaves no room for the timeline', async () => {
+    mockRouteService.searchRoute
+      .mockResolvedValueOnce({ routes: [busRoute('2025-01-15T09:05+09:00', '2025-01-15T09:45+09:00', 40)], truncated: false })
+      .mockResolvedValueOnce({ routes: [busRoute('2025-01-15T10:50+09:00', '2025-01-15T11:05+09:00', 15)], truncated: false })
+      .mockResolvedValueOnce({ routes: [busRoute('2025-01-15T11:55+09:00', '2025-01-15T12:35+09:00', 40)], truncated: false });
+
+    const result = await service.planItinerary({ ...request, max_tokens: 30 });
+
+    expect(result.truncated).toBe(true);
+    expect(result.summary).toMatchObject({ fare_jpy: 690, estimated: false });
+    expect(result.timeline.length).toBeLessThan(5);
+    expect(renderItineraryText(result)).toContain('Itinerary: 09:05 → 12:35');
+  });
+
+  it('should fail clearly when a later leg misses the last bus', async () => {
+    mockRouteService.searchRoute
+      .mockResolvedValueOnce({ routes: [busRoute('2025-01-15T21:30+09:00', '2025-01-15T22:10+09:00', 40)], truncated: false })
+      // 終バス後の検索では翌朝の始発が返る
+      .mockResolvedValueOnce({ routes: [busRoute('2025-01-16T05:40+09:00', '2025-01-16T06:00+09:00', 20)], truncated: false });
+
+    await expect(service.planItinerary({ ...request, datetime: '2025-01-15T21:20' }))
+      .rejects.toThrow('Itinerary leg 2 (金閣寺 -> 龍安寺) has no service departing at or after 2025-01-15T23:10+09:00');
+    expect(mockRouteService.searchRoute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should include the leg in errors from the route search', async () => {
+    const notFound = new StopNotFoundError('Stop not found: 京都駅 -> 存在しない寺', {
+      from_station: '京都駅',
+      to_station: '存在しない寺'
+    });
+    mockRouteService.searchRoute.mockRejectedValueOnce(notFound);
+
+    const error = await service.planItinerary({ ...request, stops: [{ name: '京都駅' }, { name: '存在しない寺' }] }).catch(e => e);
+
+    expect(error).toBeInstanceOf(StopNotFoundError);
+    expect(error).toMatchObject({
+      message: 'Itinerary leg 1 (京都駅 -> 存在しない寺) failed: Stop not found: 京都駅 -> 存在しない寺',
+      code: 404,
+      details: { cause: 'stop_not_found', leg: 1 }
+    });
+  });
+
+  it('should derive times for estimated routes from the duration', async () => {
+    mockRouteService.searchRoute.mockResolvedValueOnce({
+      routes: [{
+        summary: { duration_min: 25, transfers: 0 },
+        legs: [{ mode: 'bus', line: '12系統', from: '四条河原町', to: '金閣寺道', duration_min: 25 }],
+        estimated: true
+      }],
+      truncated: false
+    });
+
+    const result = await service.planItinerary({ ...request, stops: [{ name: '四条河原町' }, { name: '金閣寺道' }] });
+
+    expect(result.timeline[0]).toMatchObject({
+      depart: '2025-01-15T09:00+09:00',
+      arrive: '2025-01-15T09:25+09:00',
+      estimated: true
+    });
+    expect(result.timeline[0]).not.toHaveProperty('fare_jpy');
+    expect(result.summary).toMatchObject({ fare_jpy: 0, estimated: true });
+  });
+
+  it('should reject invalid stops', async () => {
+    await expect(service.planItinerary({ ...request, stops: [{ name: '京都駅' }] }))
+      .rejects.toThrow('Invalid stops');
+    await expect(service.planItinerary({ ...request, stops: [{ name: '京都駅' }, { name: '金閣寺', stay_min: -1 }] }))
+      .rejects.toThrow('Invalid stops[1].stay_min');
+    expect(mockRouteService.searchRoute).not.toHaveBeenCalled();
+  });
+});
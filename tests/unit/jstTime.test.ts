@@ -0,0 +1,42 @@
+import { parseJstDateTime, formatJstIso, addDays, addMinutes, toEpochMs } from '../../src/utils/JstTime.js';
+
+describe('JstTime', () => {
+  describe('parseJstDateTime', () => {
+    it('should treat datetimes without an offset as JST', () => {
+      expect(parseJstDateTime('2025-07-07T00:43')).toEqual({ year: 2025, month: 7, day: 7, hours: 0, minutes: 43 });
+    });
+
+    it('should keep +09:00 datetimes as they are', () => {
+      expect(parseJstDateTime('2025-07-07T23:45+09:00')).toEqual({ year: 2025, month: 7, day: 7, hours: 23, minutes: 45 });
+    });
+
+    it('should convert UTC datetimes to JST', () => {
+      expect(parseJstDateTime('2025-07-06T20:00:00.000Z')).toEqual({ year: 2025, month: 7, day: 7, hours: 5, minutes: 0 });
+    });
+
+    it('should convert other offsets to JST', () => {
+      expect(parseJstDateTime('2025-07-07T10:30-05:00')).toEqual({ year: 2025, month: 7, day: 8, hours: 0, minutes: 30 });
+    });
+
+    it('should throw for unsupported formats', () => {
+      expect(() => parseJstDateTime('2025/07/07 10:30')).toThrow('Invalid datetime');
+    });
+  });
+
+  describe('formatJstIso', () => {
+    it('should always include the +09:00 offset', () => {
+      expect(formatJstIso({ year: 2025, month: 7, day: 7, hours: 5, minutes: 3 })).toBe('2025-07-07T05:03+09:00');
+    });
+  });
+
+  describe('date arithmetic', () => {
+    it('should roll over month and year boundaries', () => {
+      expect(formatJstIso(addDays({ year: 2025, month: 12, day: 31, hours: 23, minutes: 50 }, 1))).toBe('2026-01-01T23:50+09:00');
+      expect(formatJstIso(addMinutes({ year: 2025, month: 2, day: 28, hours: 23, minutes: 50 }, 20))).toBe('2025-03-01T00:10+09:00');
+    });
+
+    it('should convert JST wall time to epoch milliseconds', () => {
+      expect(toEpochMs({ year: 2025, month: 7, day: 7, hours: 9, minutes: 0 })).toBe(Date.parse('2025-07-07T00:00:00Z'));
+    });
+  });
+});
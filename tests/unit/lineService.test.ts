@@ -0,0 +1,143 @@
+import { LineService } from '../../src/services/LineService.js';
+
+describe('LineService', () => {
+  let service: LineService;
+
+  beforeAll(() => {
+    service = new LineService();
+  });
+
+  afterAll(() => {
+    service.destroy();
+  });
+
+  describe('searchLines', () => {
+    it('should find lines by operator and name', async () => {
+      const response = await service.searchLines({ language: 'ja', max_tokens: 4096, operator: '京都市バス', query: '206' });
+
+      expect(response.lines.map(line => line.id)).toEqual(['200057', '200105']);
+      expect(response.lines[0]).toMatchObject({
+        name: '206系統',
+        agency: '京都市バス',
+        agency_id: 200,
+        type: 'bus',
+        dest: '時計周り循環'
+      });
+      expect(response.lines[0].stop_count).toBeGreaterThan(10);
+      expect(response.truncated).toBe(false);
+    });
+
+    it('should accept an operator ID', async () => {
+      const response = await service.searchLines({ language: 'ja', max_tokens: 8192, operator: '103' });
+
+      expect(response.lines.length).toBeGreaterThan(0);
+      expect(response.lines.every(line => line.agency === '京都市営地下鉄' && line.type === 'rail')).toBe(true);
+    });
+
+    it('should match English names case-insensitively', async () => {
+      const response = await service.searchLines({ language: 'en', max_tokens: 4096, query: 'route 206' });
+
+      expect(response.lines.map(line => line.name)).toEqual(['Route 206', 'Route 206']);
+      expect(response.lines[0].agency).toBe('Kyoto City Bus');
+    });
+
+    it('should list every line when no filter is given and respect max_tokens', async () => {
+      const response = await service.searchLines({ language: 'ja', max_tokens: 300 });
+
+      expect(response.lines.length).toBeGreaterThan(0);
+      expect(response.truncated).toBe(true);
+    });
+
+    it('should return an empty list when nothing matches', async () => {
+      const response = await service.searchLines({ language: 'ja', max_tokens: 512, query: '存在しない路線' });
+
+      expect(response.lines).toEqual([]);
+    });
+  });
+
+  describe('getLineStops', () => {
+    it('should return stops in order with IDs and coordinates', async () => {
+      const response = await service.getLineStops({ language: 'ja', max_tokens: 8192, line_id: '200057' });
+
+      expect(response.line.name).toBe('206系統');
+      expect(response.stops.length).toBe(response.line.stop_count);
+      expect(response.stops[0]).toMatchObject({ order: 1, name: '北大路バスターミナル[地下鉄北大路駅](京都市バス)' });
+      expect(response.stops.map(stop => stop.order)).toEqual(response.stops.map((_, index) => index + 1));
+      expect(response.stops.every(stop => typeof stop.lat === 'number' && typeof stop.lng === 'number')).toBe(true);
+      expect(response.stops.find(stop => stop.name === '京都駅前(京都市バス)')?.id).toBe('B:200_京都駅前(京都市バス)');
+    });
+
+    it('should return English stop names for language "en"', async () => {
+      const response = await service.getLineStops({ language: 'en', max_tokens: 8192, line_id: '103002' });
+
+      expect(response.line.name).toBe('Tozai Line');
+      expect(response.stops.some(stop => stop.name === 'Sanjo Keihan')).toBe(true);
+    });
+
+    it('should reject unknown lines', async () => {
+      await expect(service.getLineStops({ language: 'ja', max_tokens: 512, line_id: '999999' }))
+        .rejects.toThrow('Line not found: 999999');
+    });
+
+    it('should reject malformed line IDs', async () => {
+      await expect(service.getLineStops({ language: 'ja', max_tokens: 512, line_id: '206系統' }))
+        .rejects.toThrow('Invalid line_id');
+    });
+  });
+
+  describe('findCommonLines', () => {
+    it('should find a line serving both stations with direction and stops between', async () => {
+      const response = await service.findCommonLines({ language: 'ja', max_tokens: 4096, from_station: '京都', to_station: '烏丸御池' });
+
+      expect(response.lines).toHaveLength(1);
+      expect(response.lines[0]).toMatchObject({
+        id: '103001',
+        name: '烏丸線',
+        direction: 'reverse',
+        toward: '国際会館',
+        from_stop: '京都',
+        to_stop: '烏丸御池',
+        intermediate_stops: 2
+      });
+    });
+
+    it('should resolve same-name stop groups across operators and sort by stops between', async () => {
+      const response = await service.findCommonLines({ language: 'ja', max_tokens: 8192, from_station: '四条河原町', to_station: '銀閣寺道' });
+
+      const ids = response.lines.map(line => line.id);
+      expect(ids).toEqual(expect.arrayContaining(['200004', '200054', '200102', '203042']));
+      expect(response.lines.map(line => line.intermediate_stops))
+        .toEqual([...response.lines.map(line => line.intermediate_stops)].sort((a, b) => a - b));
+      expect(response.lines.find(line => line.id === '203042')?.agency).toBe('京都バス');
+    });
+
+    it('should wrap around circular lines instead of travelling in reverse', async () => {
+      const response = await service.findCommonLines({ language: 'ja', max_tokens: 8192, from_station: '四条河原町', to_station: '銀閣寺道' });
+
+      const counterclockwise = response.lines.find(line => line.id === '200102');
+      expect(counterclockwise).toMatchObject({ direction: 'forward', intermediate_stops: 13 });
+    });
+
+    it('should accept English names and return localized stop names', async () => {
+      const response = await service.findCommonLines({ language: 'en', max_tokens: 4096, from_station: 'Kyoto', to_station: '烏丸御池' });
+
+      expect(response.lines[0]).toMatchObject({ name: 'Karasuma Line', from_stop: 'Kyoto', to_stop: 'Karasuma Oike' });
+    });
+
+    it('should reject unknown stations', async () => {
+      await expect(service.findCommonLines({ language: 'ja', max_tokens: 512, from_station: '存在しない駅', to_station: '京都' }))
+        .rejects.toMatchObject({
+          message: 'Stop not found: 存在しない駅',
+          code: 404,
+          details: { station: '存在しない駅', cause: 'stop_not_found' }
+        });
+    });
+
+    it('should suggest similar names for unknown stations', async () => {
+      const error = await service.findCommonLines({ language: 'ja', max_tokens: 512, from_station: '京都', to_station: '銀閣時道' })
+        .catch(e => e);
+
+      expect(error.details.suggestions).toContainEqual(expect.objectContaining({ name: expect.stringMatching(/^銀閣寺道/) }));
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { MasterDataLoader } from '../../src/services/MasterDataLoader.js';
 import { Language } from '../../src/types/index.js';
+import { AmbiguousStopError } from '../../src/utils/ToolErrors.js';
 
 describe('MasterDataLoader', () => {
   let loader: MasterDataLoader;
@@ -58,6 +59,35 @@ describe('MasterDataLoader', () => {
     });
   });
 
+  describe('resolveStationName', () => {
+    it('should resolve station names, unique base names and English names', async () => {
+      await expect(loader.resolveStationName('浄土寺(京都市バス)', 'ja')).resolves.toBe('浄土寺(京都市バス)');
+      await expect(loader.resolveStationName('浄土寺', 'ja')).resolves.toBe('浄土寺(京都市バス)');
+      await expect(loader.resolveStationName('Jodoji', 'en')).resolves.toBe('浄土寺(京都市バス)');
+      await expect(loader.resolveStationName('Kyoto Sta.(Kyoto City Bus)', 'en')).resolves.toBe('京都駅前(京都市バス)');
+    });
+
+    it('should accept Japanese names in English requests', async () => {
+      await expect(loader.resolveStationName('浄土寺', 'en')).resolves.toBe('浄土寺(京都市バス)');
+    });
+
+    it('should treat operators sharing one station as a single station', async () => {
+      await expect(loader.resolveStationName('京都', 'ja')).resolves.toBe('京都');
+    });
+
+    it('should list the candidates when a base name matches stops of several operators', async () => {
+      const error = await loader.resolveStationName('京都駅前', 'ja').catch(e => e);
+
+      expect(error).toBeInstanceOf(AmbiguousStopError);
+      expect(error.details.candidates).toHaveLength(5);
+      expect(error.details.candidates).toContainEqual(expect.objectContaining({ name: '京都駅前(京都市バス)', company_id: 200 }));
+    });
+
+    it('should return null for unknown names', async () => {
+      await expect(loader.resolveStationName('存在しない駅', 'ja')).resolves.toBeNull();
+    });
+  });
+
   describe('error handling', () => {
     it('should throw error for invalid language', async () => {
       await expect(loader.loadStops('invalid' as Language))
@@ -0,0 +1,106 @@
+import { OfflineRoutePlanner } from '../../src/services/OfflineRoutePlanner.js';
+import { AmbiguousStopError } from '../../src/utils/ToolErrors.js';
+
+describe('OfflineRoutePlanner', () => {
+  let planner: OfflineRoutePlanner;
+
+  const baseRequest = {
+    max_tokens: 4096,
+    datetime_type: 'departure' as const,
+    datetime: '2025-01-15T09:00'
+  };
+
+  beforeAll(() => {
+    planner = new OfflineRoutePlanner();
+  });
+
+  describe('planByName', () => {
+    it('should return an estimated route without timetable times or fares', async () => {
+      const response = await planner.planByName({ ...baseRequest, language: 'ja', from_station: '京都', to_station: '烏丸御池' });
+
+      const [route] = response.routes;
+      expect(route.estimated).toBe(true);
+      expect(route.summary.depart).toBeUndefined();
+      expect(route.summary.arrive).toBeUndefined();
+      expect(route.summary.fare_jpy).toBeUndefined();
+      expect(route.summary.transfers).toBe(0);
+      expect(route.legs).toEqual([
+        expect.objectContaining({ mode: 'train', line: '烏丸線', from: '京都', to: '烏丸御池', stops: 3 })
+      ]);
+      expect(response.truncated).toBe(false);
+    });
+
+    it('should return alternatives sorted by estimated duration', async () => {
+      const response = await planner.planByName({ ...baseRequest, language: 'ja', from_station: '京都', to_station: '烏丸御池' });
+
+      expect(response.routes.length).toBeGreaterThan(1);
+      expect(response.routes.every(route => route.estimated)).toBe(true);
+      const durations = response.routes.map(route => route.summary.duration_min);
+      expect(durations).toEqual([...durations].sort((a, b) => a - b));
+    });
+
+    it('should walk from the last stop to a landmark and use English names', async () => {
+      const response = await planner.planByName({ ...baseRequest, language: 'en', from_station: 'Kyoto Sta.(Kyoto City Bus)', to_station: '清水寺' });
+
+      const legs = response.routes[0].legs;
+      expect(legs[0]).toMatchObject({ mode: 'bus', from: 'Kyoto Sta.' });
+      expect(legs[legs.length - 1]).toMatchObject({ mode: 'walk', to: '清水寺' });
+    });
+
+    it('should route through the via station', async () => {
+      const response = await planner.planByName({
+        ...baseRequest,
+        language: 'ja',
+        from_station: '四条河原町(京都市バス)',
+        to_station: '銀閣寺道(京都市バス)',
+        via_station: '祇園(京都市バス)'
+      });
+
+      expect(response.routes).toHaveLength(1);
+      const stops = response.routes[0].legs.flatMap(leg => [leg.from, leg.to]);
+      expect(stops.some(stop => stop?.startsWith('祇園'))).toBe(true);
+    });
+
+    it('should list the candidates when a base name matches stops of several operators', async () => {
+      const error = await planner.planByName({ ...baseRequest, language: 'ja', from_station: '京都駅前', to_station: '清水寺' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(AmbiguousStopError);
+      expect(error.details.candidates).toContainEqual(expect.objectContaining({ name: '京都駅前(京都市バス)', company_id: 200 }));
+    });
+
+    it('should reject unknown stops', async () => {
+      await expect(planner.planByName({ ...baseRequest, language: 'ja', from_station: '存在しない駅', to_station: '京都' }))
+        .rejects.toThrow('Stop not found: 存在しない駅');
+    });
+  });
+
+  describe('planByCoordinates', () => {
+    it('should add walking legs to and from the nearest stops', async () => {
+      const response = await planner.planByCoordinates({
+        ...baseRequest,
+        language: 'ja',
+        from_latlng: '35.0116,135.7681',
+        to_latlng: '35.0394,135.7292'
+      });
+
+      const legs = response.routes[0].legs;
+      expect(legs[0]).toMatchObject({ mode: 'walk', from: '35.0116,135.7681' });
+      expect(legs[legs.length - 1]).toMatchObject({ mode: 'walk', to: '35.0394,135.7292' });
+      expect(legs.some(leg => leg.mode !== 'walk')).toBe(true);
+    });
+
+    it('should offer a walking-only route for nearby points', async () => {
+      const response = await planner.planByCoordinates({
+        ...baseRequest,
+        language: 'ja',
+        from_latlng: '35.0037,135.7590',
+        to_latlng: '35.0100,135.7597'
+      });
+
+      const walkOnly = response.routes.find(route => route.legs.length === 1 && route.legs[0].mode === 'walk');
+      expect(walkOnly).toBeDefined();
+      expect(walkOnly!.legs[0].distance_km).toBeGreaterThan(0);
+    });
+  });
+});
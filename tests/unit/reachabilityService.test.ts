@@ -0,0 +1,152 @@
+import { ReachabilityService, SAMPLE_SEARCH_MAX_TOKENS } from '../../src/services/ReachabilityService.js';
+import { MasterDataLoader } from '../../src/services/MasterDataLoader.js';
+import { OfflineRoutePlanner } from '../../src/services/OfflineRoutePlanner.js';
+import { RouteSearchByGeoService } from '../../src/services/RouteSearchByGeoService.js';
+import { ReachabilityRequest, ReachableStop } from '../../src/types/index.js';
+import { StopNotFoundError } from '../../src/utils/ToolErrors.js';
+import { renderReachabilityText } from '../../src/utils/ToolOutput.js';
+
+describe('ReachabilityService', () => {
+  let masterDataLoader: MasterDataLoader;
+  let planner: OfflineRoutePlanner;
+  let routeSearchService: RouteSearchByGeoService;
+  let service: ReachabilityService;
+
+  const request: ReachabilityRequest = {
+    language: 'ja',
+    max_tokens: 100000,
+    from_station: '京都',
+    datetime: '2025-01-15T10:00',
+    budget_min: 20
+  };
+
+  const allStops = (bands: { stops: ReachableStop[] }[]): ReachableStop[] => bands.flatMap(band => band.stops);
+
+  beforeAll(() => {
+    masterDataLoader = new MasterDataLoader();
+    planner = new OfflineRoutePlanner(masterDataLoader);
+  });
+
+  beforeEach(() => {
+    routeSearchService = new RouteSearchByGeoService();
+    service = new ReachabilityService(planner, routeSearchService, masterDataLoader);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    routeSearchService.dispose();
+    jest.restoreAllMocks();
+  });
+
+  it('should group reachable stops and landmarks into time bands', async () => {
+    const searchRoute = jest.spyOn(routeSearchService, 'searchRoute');
+
+    const result = await service.search(request);
+
+    expect(result.bands.map(band => [band.from_min, band.to_min])).toEqual([[0, 10], [10, 20]]);
+    for (const band of result.bands) {
+      for (const stop of band.stops) {
+        expect(stop.travel_min).toBeLessThanOrEqual(band.to_min);
+        expect(stop.travel_min > band.from_min || band.from_min === 0).toBe(true);
+      }
+    }
+
+    const stops = allStops(result.bands);
+    expect(stops.find(stop => stop.name === '京都')).toMatchObject({ kind: 'train_station', travel_min: 0 });
+    expect(stops.find(stop => stop.name === '烏丸御池')).toMatchObject({ kind: 'train_station' });
+    expect(stops.some(stop => stop.kind === 'landmark')).toBe(true);
+    expect(stops.some(stop => stop.name === '銀閣寺道')).toBe(false);
+    expect(result.searches).toBe(0);
+    expect(searchRoute).not.toHaveBeenCalled();
+  });
+
+  it('should start from coordinates and filter by kind', async () => {
+    const result = await service.search({
+      ...request,
+      from_station: undefined,
+      from_latlng: '35.0116,135.7681',
+      budget_min: 15,
+      band_min: 5,
+      kind: 'landmark'
+    });
+
+    expect(result.origin).toEqual({ lat: 35.0116, lng: 135.7681 });
+    expect(result.bands).toHaveLength(3);
+    const stops = allStops(result.bands);
+    expect(stops.length).toBeGreaterThan(0);
+    expect(stops.every(stop => stop.kind === 'landmark')).toBe(true);
+  });
+
+  it('should confirm sampled stops with route searches and drop unreachable ones', async () => {
+    const searchRoute = jest.spyOn(routeSearchService, 'searchRoute').mockImplementation(async ({ to_latlng }) => {
+      const [lat] = to_latlng.split(',').map(Number);
+      // 北側の停留所は上限を超える到着、それ以外は 10:12 着
+      const arrive = lat > 35.0 ? '2025-01-15T10:45+09:00' : '2025-01-15T10:12+09:00';
+      return {
+        routes: [{ summary: { depart: '2025-01-15T10:02+09:00', arrive, duration_min: 10, transfers: 0, fare_jpy: 230 }, legs: [] }],
+        truncated: false
+      };
+    });
+
+    const estimated = allStops((await service.search(request)).bands);
+    const result = await service.search({ ...request, sampling: 'boundary', max_searches: 5 });
+
+    expect(searchRoute).toHaveBeenCalledTimes(5);
+    expect(result.searches).toBe(5);
+    const stops = allStops(result.bands);
+    const verified = stops.filter(stop => stop.verified);
+    expect(verified.length).toBeGreaterThan(0);
+    expect(verified.every(stop => stop.travel_min === 12 && stop.lat <= 35.0)).toBe(true);
+    expect(stops.length + (5 - verified.length)).toBe(estimated.length);
+  });
+
+  it('should verify samples with an internal token budget, not max_tokens', async () => {
+    const searchRoute = jest.spyOn(routeSearchService, 'searchRoute').mockResolvedValue({
+      routes: [{
+        summary: { depart: '2025-01-15T10:02+09:00', arrive: '2025-01-15T10:12+09:00', duration_min: 10, transfers: 0, fare_jpy: 230 },
+        legs: []
+      }],
+      truncated: false
+    });
+
+    await service.search({ ...request, max_tokens: 50, sampling: 'boundary', max_searches: 3 });
+
+    expect(searchRoute).toHaveBeenCalledTimes(3);
+    expect(searchRoute.mock.calls.every(([call]) => call.max_tokens === SAMPLE_SEARCH_MAX_TOKENS)).toBe(true);
+  });
+
+  it('should keep the required fields when max_tokens leaves no room for the bands', async () => {
+    const result = await service.search({ ...request, max_tokens: 10 });
+
+    expect(result.truncated).toBe(true);
+    expect(result).toMatchObject({ budget_min: 20, searches: 0, bands: [] });
+    expect(result.origin).toEqual({ lat: expect.any(Number), lng: expect.any(Number) });
+    expect(renderReachabilityText(result)).toContain('0 place(s) within 20 min');
+  });
+
+  it('should spread samples across directions and keep estimates when searches fail', async () => {
+    const searchRoute = jest.spyOn(routeSearchService, 'searchRoute').mockRejectedValue(new Error('Network error: ENOTFOUND'));
+
+    const result = await service.search({ ...request, sampling: 'spread', max_searches: 8 });
+
+    expect(searchRoute).toHaveBeenCalledTimes(8);
+    const bearings = new Set(searchRoute.mock.calls.map(([call]) => {
+      const [lat, lng] = call.to_latlng.split(',').map(Number);
+      return Math.sign(lat - result.origin.lat) * 2 + Math.sign(lng - result.origin.lng);
+    }));
+    expect(bearings.size).toBeGreaterThan(2);
+    expect(allStops(result.bands).some(stop => stop.verified)).toBe(false);
+  });
+
+  it('should reject unknown start points', async () => {
+    await expect(service.search({ ...request, from_station: '存在しない駅' }))
+      .rejects.toThrow('Stop not found: 存在しない駅');
+  });
+
+  it('should suggest similar names for an unknown start point', async () => {
+    const error = await service.search({ ...request, from_station: '銀閣時道' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(StopNotFoundError);
+    expect(error.details.suggestions).toContainEqual(expect.objectContaining({ name: expect.stringMatching(/^銀閣寺道/) }));
+  });
+});
@@ -1,5 +1,6 @@
 import { RequestValidator } from '../../src/utils/RequestValidator.js';
-import { StopSearchRequest, RouteSearchByNameRequest } from '../../src/types/index.js';
+import { ValidationError } from '../../src/utils/ToolErrors.js';
+import { StopSearchRequest, StopSearchByGeoRequest, RouteSearchByNameRequest, ItineraryRequest, VisitOrderRequest, ReachabilityRequest } from '../../src/types/index.js';
 
 describe('RequestValidator', () => {
   let validator: RequestValidator;
@@ -41,6 +42,16 @@ describe('RequestValidator', () => {
         .toThrow('Invalid language. Must be "ja" or "en"');
     });
 
+    it('should throw a ValidationError carrying code 400', () => {
+      const invalidRequest = { max_tokens: 512, query: 'test' } as StopSearchRequest;
+
+      expect(() => validator.validateStopSearchRequest(invalidRequest)).toThrow(ValidationError);
+      expect(() => validator.validateStopSearchRequest(invalidRequest)).toThrow(expect.objectContaining({
+        code: 400,
+        details: { cause: 'invalid_request' }
+      }));
+    });
+
     it('should throw 400 error for negative max_tokens', () => {
       const invalidRequest: StopSearchRequest = {
         language: 'ja',
@@ -107,6 +118,90 @@ describe('RequestValidator', () => {
       expect(() => validator.validateRouteSearchRequest(validRequest))
         .not.toThrow();
     });
+
+    it('should validate optional via_station', () => {
+      const request: RouteSearchByNameRequest = {
+        language: 'ja',
+        max_tokens: 1024,
+        from_station: 'A',
+        to_station: 'B',
+        datetime_type: 'departure',
+        datetime: '2025-07-07T00:43',
+        via_station: '四条'
+      };
+
+      expect(() => validator.validateRouteSearchRequest(request)).not.toThrow();
+      expect(() => validator.validateRouteSearchRequest({ ...request, via_station: '  ' }))
+        .toThrow('Invalid via_station');
+    });
+
+    it('should validate optional cursor and page', () => {
+      const request: RouteSearchByNameRequest = {
+        language: 'ja',
+        max_tokens: 1024,
+        from_station: 'A',
+        to_station: 'B',
+        datetime_type: 'departure',
+        datetime: '2025-07-07T00:43',
+        cursor: 'eyJ2IjoxfQ',
+        page: 'previous'
+      };
+
+      expect(() => validator.validateRouteSearchRequest(request)).not.toThrow();
+      expect(() => validator.validateRouteSearchRequest({ ...request, page: 'later' as any }))
+        .toThrow('Invalid page');
+      expect(() => validator.validateRouteSearchRequest({ ...request, cursor: undefined }))
+        .toThrow('Missing required parameter: cursor');
+    });
+  });
+
+  describe('route ranking options', () => {
+    const validRequest: RouteSearchByNameRequest = {
+      language: 'ja',
+      max_tokens: 1024,
+      from_station: 'A',
+      to_station: 'B',
+      datetime_type: 'departure',
+      datetime: '2025-07-07T09:00'
+    };
+
+    it('should accept sort_by and filters', () => {
+      expect(() => validator.validateRouteSearchRequest({
+        ...validRequest,
+        sort_by: 'fare',
+        max_transfers: 0,
+        max_walk_min: 10,
+        max_fare_jpy: 500
+      })).not.toThrow();
+    });
+
+    it('should throw for invalid sort_by and filters', () => {
+      expect(() => validator.validateRouteSearchRequest({ ...validRequest, sort_by: 'price' as any }))
+        .toThrow('Invalid sort_by. Must be one of: duration, fare, transfers, walking, arrival');
+      expect(() => validator.validateRouteSearchRequest({ ...validRequest, max_transfers: 1.5 }))
+        .toThrow('Invalid max_transfers');
+      expect(() => validator.validateRouteSearchRequest({ ...validRequest, max_walk_min: -1 }))
+        .toThrow('Invalid max_walk_min');
+      expect(() => validator.validateRouteSearchRequest({ ...validRequest, max_fare_jpy: NaN }))
+        .toThrow('Invalid max_fare_jpy');
+    });
+
+    it('should accept mode and operator preferences', () => {
+      expect(() => validator.validateRouteSearchRequest({
+        ...validRequest,
+        allowed_modes: ['bus', 'train'],
+        excluded_companies: [203, 204]
+      })).not.toThrow();
+    });
+
+    it('should throw for invalid mode and operator preferences', () => {
+      expect(() => validator.validateRouteSearchRequest({ ...validRequest, allowed_modes: [] }))
+        .toThrow('Invalid allowed_modes. Must be a non-empty array of: bus, train');
+      expect(() => validator.validateRouteSearchRequest({ ...validRequest, allowed_modes: ['walk' as any] }))
+        .toThrow('Invalid allowed_modes');
+      expect(() => validator.validateRouteSearchRequest({ ...validRequest, excluded_companies: ['京都バス' as any] }))
+        .toThrow('Invalid excluded_companies. Must be an array of company IDs');
+    });
   });
 
   describe('validateLatLng', () => {
@@ -130,4 +225,143 @@ describe('RequestValidator', () => {
         .not.toThrow();
     });
   });
-}); 
\ No newline at end of file
+
+  describe('validateStopSearchByGeoRequest', () => {
+    const validRequest: StopSearchByGeoRequest = {
+      language: 'ja',
+      max_tokens: 512,
+      latlng: '35.0252705,135.7918895'
+    };
+
+    it('should pass validation for valid request', () => {
+      expect(() => validator.validateStopSearchByGeoRequest(validRequest)).not.toThrow();
+      expect(() => validator.validateStopSearchByGeoRequest({
+        ...validRequest,
+        radius_m: 500,
+        limit: 5,
+        kind: 'bus_stop'
+      })).not.toThrow();
+    });
+
+    it('should throw for missing latlng', () => {
+      const invalidRequest = { language: 'ja', max_tokens: 512 } as StopSearchByGeoRequest;
+
+      expect(() => validator.validateStopSearchByGeoRequest(invalidRequest))
+        .toThrow('Missing required parameter: latlng');
+    });
+
+    it('should throw for invalid radius_m, limit and kind', () => {
+      expect(() => validator.validateStopSearchByGeoRequest({ ...validRequest, radius_m: 0 }))
+        .toThrow('Invalid radius_m');
+      expect(() => validator.validateStopSearchByGeoRequest({ ...validRequest, limit: 1.5 }))
+        .toThrow('Invalid limit');
+      expect(() => validator.validateStopSearchByGeoRequest({ ...validRequest, kind: 'ferry' as any }))
+        .toThrow('Invalid kind');
+    });
+  });
+
+  describe('validateItineraryRequest', () => {
+    const validRequest: ItineraryRequest = {
+      language: 'ja',
+      max_tokens: 4096,
+      datetime: '2025-01-15T09:00',
+      stops: [{ name: '京都駅' }, { name: '金閣寺', stay_min: 60 }, { name: '京都駅' }]
+    };
+
+    it('should pass validation for valid request', () => {
+      expect(() => validator.validateItineraryRequest(validRequest)).not.toThrow();
+    });
+
+    it('should throw for missing stops and datetime', () => {
+      expect(() => validator.validateItineraryRequest({ ...validRequest, stops: undefined as any }))
+        .toThrow('Missing required parameter: stops');
+      expect(() => validator.validateItineraryRequest({ ...validRequest, datetime: '' }))
+        .toThrow('Missing required parameter: datetime');
+    });
+
+    it('should throw for invalid stop counts, names and stay times', () => {
+      expect(() => validator.validateItineraryRequest({ ...validRequest, stops: [{ name: '京都駅' }] }))
+        .toThrow('Invalid stops. Must be an array of 2 to 10 stops');
+      expect(() => validator.validateItineraryRequest({ ...validRequest, stops: [{ name: '京都駅' }, { name: ' ' }] }))
+        .toThrow('Invalid stops[1].name');
+      expect(() => validator.validateItineraryRequest({ ...validRequest, stops: [{ name: '京都駅' }, { name: '金閣寺', stay_min: 30.5 }] }))
+        .toThrow('Invalid stops[1].stay_min');
+    });
+  });
+
+  describe('validateVisitOrderRequest', () => {
+    const validRequest: VisitOrderRequest = {
+      language: 'ja',
+      max_tokens: 4096,
+      start: '京都駅',
+      datetime: '2025-01-15T09:00',
+      landmark_ids: ['LM00000001', 'LM00000108']
+    };
+
+    it('should pass validation for valid request', () => {
+      expect(() => validator.validateVisitOrderRequest(validRequest)).not.toThrow();
+      expect(() => validator.validateVisitOrderRequest({
+        ...validRequest,
+        stay_min: 60,
+        return_to_start: true,
+        travel_time: 'search'
+      })).not.toThrow();
+    });
+
+    it('should throw for missing start', () => {
+      expect(() => validator.validateVisitOrderRequest({ ...validRequest, start: '' }))
+        .toThrow('Missing required parameter: start');
+    });
+
+    it('should limit the number of landmarks by travel_time', () => {
+      const ids = Array.from({ length: 6 }, (_, i) => `LM0000000${i + 1}`);
+
+      expect(() => validator.validateVisitOrderRequest({ ...validRequest, landmark_ids: ids })).not.toThrow();
+      expect(() => validator.validateVisitOrderRequest({ ...validRequest, landmark_ids: ids, travel_time: 'search' }))
+        .toThrow('Invalid landmark_ids. Must be an array of 2 to 5 landmark IDs');
+      expect(() => validator.validateVisitOrderRequest({ ...validRequest, landmark_ids: ['LM00000001', 'LM00000001'] }))
+        .toThrow('Invalid landmark_ids. IDs must not be repeated');
+      expect(() => validator.validateVisitOrderRequest({ ...validRequest, travel_time: 'fastest' as any }))
+        .toThrow('Invalid travel_time');
+    });
+  });
+
+  describe('validateReachabilityRequest', () => {
+    const validRequest: ReachabilityRequest = {
+      language: 'ja',
+      max_tokens: 4096,
+      from_latlng: '35.0116,135.7681',
+      datetime: '2025-01-15T10:00',
+      budget_min: 30
+    };
+
+    it('should pass validation for valid request', () => {
+      expect(() => validator.validateReachabilityRequest(validRequest)).not.toThrow();
+      expect(() => validator.validateReachabilityRequest({
+        ...validRequest,
+        band_min: 5,
+        kind: 'landmark',
+        sampling: 'spread',
+        max_searches: 20
+      })).not.toThrow();
+    });
+
+    it('should require exactly one origin', () => {
+      expect(() => validator.validateReachabilityRequest({ ...validRequest, from_latlng: undefined }))
+        .toThrow('Missing required parameter: from_station or from_latlng');
+      expect(() => validator.validateReachabilityRequest({ ...validRequest, from_station: '京都' }))
+        .toThrow('Invalid origin. Specify either from_station or from_latlng, not both');
+    });
+
+    it('should throw for invalid budget, bands and sampling', () => {
+      expect(() => validator.validateReachabilityRequest({ ...validRequest, budget_min: 0 }))
+        .toThrow('Invalid budget_min');
+      expect(() => validator.validateReachabilityRequest({ ...validRequest, band_min: 45 }))
+        .toThrow('Invalid band_min. Must be an integer between 1 and budget_min');
+      expect(() => validator.validateReachabilityRequest({ ...validRequest, sampling: 'random' as any }))
+        .toThrow('Invalid sampling');
+      expect(() => validator.validateReachabilityRequest({ ...validRequest, max_searches: 31 }))
+        .toThrow('Invalid max_searches. Must be an integer between 1 and 30');
+    });
+  });
+});
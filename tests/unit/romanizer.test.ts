@@ -0,0 +1,39 @@
+import { toHiragana, toHepburn, normalizeRomaji } from '../../src/utils/Romanizer.js';
+
+describe('Romanizer', () => {
+  describe('toHiragana', () => {
+    it('should convert katakana to hiragana', () => {
+      expect(toHiragana('キヨミズデラ')).toBe('きよみずでら');
+    });
+  });
+
+  describe('toHepburn', () => {
+    it.each([
+      ['きよみずでら', 'kiyomizudera'],
+      ['さんじょうけいはん', 'sanjoukeihan'],
+      ['きょうと', 'kyouto'],
+      ['しじょうからすま', 'shijoukarasuma'],
+      ['ちゅうしょじま', 'chuushojima'],
+      ['いまでがわ', 'imadegawa'],
+      ['ろっかくどう', 'rokkakudou'],
+      ['まっちゃ', 'matcha'],
+      ['ふしみいなり', 'fushimiinari'],
+      ['ラーメン', 'raamen'],
+    ])('should romanize %s as %s', (kana, romaji) => {
+      expect(toHepburn(kana)).toBe(romaji);
+    });
+
+    it('should keep non-kana characters', () => {
+      expect(toHepburn('ひがしやま［ちかてつ］')).toBe('higashiyama［chikatetsu］');
+    });
+  });
+
+  describe('normalizeRomaji', () => {
+    it('should collapse long vowels, macrons, spaces and symbols', () => {
+      expect(normalizeRomaji('kyouto')).toBe('kyoto');
+      expect(normalizeRomaji('Kyōto')).toBe('kyoto');
+      expect(normalizeRomaji('Sanjo Keihan')).toBe('sanjokeihan');
+      expect(normalizeRomaji('Kiyomizu-dera')).toBe('kiyomizudera');
+    });
+  });
+});
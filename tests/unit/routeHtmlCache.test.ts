@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RouteHtmlCache, MemoryLruCacheStore, FileCacheStore } from '../../src/utils/RouteHtmlCache.js';
+
+const baseParams = {
+  fn: '京都駅前',
+  tn: '銀閣寺道',
+  dt: '2025/7/7',
+  tm: '10:07',
+  tt: 'd',
+  lang: 'ja'
+};
+
+describe('RouteHtmlCache', () => {
+  describe('buildKey', () => {
+    it('should not depend on parameter order', () => {
+      const cache = new RouteHtmlCache();
+      const reordered = { lang: 'ja', tt: 'd', tm: '10:07', dt: '2025/7/7', tn: '銀閣寺道', fn: '京都駅前' };
+
+      expect(cache.buildKey(reordered)).toBe(cache.buildKey(baseParams));
+    });
+
+    it('should keep exact times when bucketing is disabled', () => {
+      const cache = new RouteHtmlCache();
+
+      expect(cache.buildKey(baseParams)).not.toBe(cache.buildKey({ ...baseParams, tm: '10:08' }));
+    });
+
+    it('should round tm down to the time bucket', () => {
+      const cache = new RouteHtmlCache({ timeBucketMinutes: 5 });
+
+      expect(cache.buildKey(baseParams)).toBe(cache.buildKey({ ...baseParams, tm: '10:05' }));
+      expect(cache.buildKey(baseParams)).toBe(cache.buildKey({ ...baseParams, tm: '10:09' }));
+      expect(cache.buildKey(baseParams)).not.toBe(cache.buildKey({ ...baseParams, tm: '10:10' }));
+      expect(cache.buildKey(baseParams)).toContain('tm=10:05');
+    });
+  });
+
+  describe('get / set', () => {
+    it('should return cached HTML and count hits and misses', async () => {
+      const cache = new RouteHtmlCache();
+      const key = cache.buildKey(baseParams);
+
+      expect(await cache.get(key)).toBeNull();
+      await cache.set(key, '<html>cached</html>');
+      expect(await cache.get(key)).toBe('<html>cached</html>');
+
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 1, hit_rate: 0.5 });
+    });
+
+    it('should expire entries after the TTL', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const cache = new RouteHtmlCache({ ttlMs: 1000 });
+      const key = cache.buildKey(baseParams);
+
+      await cache.set(key, '<html></html>');
+      nowSpy.mockReturnValue(1_000_500);
+      expect(await cache.get(key)).toBe('<html></html>');
+      nowSpy.mockReturnValue(1_002_000);
+      expect(await cache.get(key)).toBeNull();
+
+      nowSpy.mockRestore();
+    });
+
+    it('should promote entries found in a later store', async () => {
+      const memory = new MemoryLruCacheStore();
+      const secondary = new MemoryLruCacheStore();
+      const cache = new RouteHtmlCache({ stores: [memory, secondary] });
+      await secondary.set('key', { html: '<html>disk</html>', storedAt: Date.now() });
+
+      expect(await cache.get('key')).toBe('<html>disk</html>');
+      expect(await memory.get('key')).not.toBeNull();
+    });
+  });
+});
+
+describe('MemoryLruCacheStore', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryLruCacheStore(2);
+    await store.set('a', { html: 'a', storedAt: 0 });
+    await store.set('b', { html: 'b', storedAt: 0 });
+    await store.get('a');
+    await store.set('c', { html: 'c', storedAt: 0 });
+
+    expect(store.size).toBe(2);
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('c')).not.toBeNull();
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'route-html-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', async () => {
+    await new FileCacheStore(directory).set('key', { html: '<html>保存</html>', storedAt: 123 });
+
+    expect(await new FileCacheStore(directory).get('key')).toEqual({ html: '<html>保存</html>', storedAt: 123 });
+  });
+
+  it('should return null for missing entries and support clear', async () => {
+    const store = new FileCacheStore(directory);
+    expect(await store.get('missing')).toBeNull();
+
+    await store.set('key', { html: 'x', storedAt: 0 });
+    await store.clear();
+    expect(await store.get('key')).toBeNull();
+  });
+});
@@ -1,5 +1,7 @@
 import { RouteHtmlParser } from '../../src/utils/RouteHtmlParser.js';
-import { RouteLeg } from '../../src/types/index.js';
+import { isUpstreamFormatChanged } from '../../src/utils/ParseDiagnostics.js';
+import { getRoutePagePatterns, matchNumber } from '../../src/utils/RoutePageLocale.js';
+import { Route, RouteLeg } from '../../src/types/index.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -8,6 +10,9 @@ describe('RouteHtmlParser', () => {
   let fixtureHtml: string;
   let detailedScheduleHtml: string;
   let midnightCrossingHtml: string;
+  let multipleRoutesHtml: string;
+  let detailedScheduleEnHtml: string;
+  let multipleRoutesEnHtml: string;
 
   beforeAll(() => {
     // テスト用HTMLフィクスチャを読み込み
@@ -21,6 +26,12 @@ describe('RouteHtmlParser', () => {
     // 日付跨ぎHTMLフィクスチャを読み込み
     const midnightCrossingPath = path.join(__dirname, '../fixtures/midnight-crossing.html');
     midnightCrossingHtml = fs.readFileSync(midnightCrossingPath, 'utf8');
+
+    // 複数ルートHTMLフィクスチャと英語版フィクスチャを読み込み
+    const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '../fixtures', name), 'utf8');
+    multipleRoutesHtml = fixture('multiple-routes.html');
+    detailedScheduleEnHtml = fixture('detailed-schedule-en.html');
+    multipleRoutesEnHtml = fixture('multiple-routes-en.html');
   });
 
   beforeEach(() => {
@@ -99,10 +110,10 @@ describe('RouteHtmlParser', () => {
       
       // 時刻形式の検証（生データからの解析の場合、時刻が空の場合もある）
       if (route.summary.depart) {
-        expect(route.summary.depart).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+        expect(route.summary.depart).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}\+09:00$/);
       }
       if (route.summary.arrive) {
-        expect(route.summary.arrive).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+        expect(route.summary.arrive).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}\+09:00$/);
       }
       
       // HTMLから取得されるsummary時間が生データより正確
@@ -151,6 +162,177 @@ describe('RouteHtmlParser', () => {
     });
   });
 
+  describe('環境・健康指標', () => {
+    it('should parse CO2, calories and steps from the result page', () => {
+      const route = parser.parseHtml(detailedScheduleHtml).routes[0];
+
+      expect(route.summary).toMatchObject({
+        co2_g: 312,
+        co2_saved_vs_car_g: 473,
+        walk_kcal: 6.3,
+        walk_steps: 200
+      });
+    });
+
+    it('should compute missing metrics from the master data coefficients', () => {
+      // response.html には指標がないため、徒歩 7分と停留所間の距離から計算する
+      const route = parser.parseHtml(fixtureHtml).routes[0];
+
+      expect(route.summary.walk_kcal).toBe(22.1);
+      expect(route.summary.walk_steps).toBe(700);
+      expect(route.summary.co2_g).toBeGreaterThan(0);
+      expect(route.summary.co2_saved_vs_car_g).toBeGreaterThan(route.summary.co2_g!);
+    });
+  });
+
+  describe('のりば・番線・方向', () => {
+    it('should keep the boarding letter and direction as leg fields', () => {
+      const [walkLeg, busLeg] = parser.parseHtml(detailedScheduleHtml).routes[0].legs;
+
+      expect(walkLeg.to_platform).toBe('F');
+      expect(walkLeg.direction).toBeUndefined();
+      expect(busLeg).toMatchObject({
+        from: '四条烏丸 (京都市バス)',
+        from_platform: 'F',
+        direction: '東行き',
+        platform_note: 'のりばF(東行き)'
+      });
+      expect(busLeg.to_platform).toBeUndefined();
+    });
+
+    it('should parse platform numbers written after the station name', () => {
+      const html = detailedScheduleHtml.replace('<span class="platform">のりばF(東行き)</span>', ' 2番線');
+
+      const busLeg = parser.parseHtml(html).routes[0].legs[1];
+
+      expect(busLeg.from).toBe('四条烏丸 (京都市バス)');
+      expect(busLeg.from_platform).toBe('2');
+      expect(busLeg.platform_note).toBe('2番線');
+    });
+
+    it('should recognize the English page variant', () => {
+      const html = detailedScheduleEnHtml
+        .replace('<span class="platform">Stop F (Eastbound)</span>', ' Stop F (Eastbound)');
+
+      const [walkLeg, busLeg] = parser.parseHtml(html, 'en').routes[0].legs;
+
+      expect(walkLeg.to).toBe('Shijo Karasuma (Kyoto City Bus)');
+      expect(busLeg).toMatchObject({ from_platform: 'F', direction: 'Eastbound', platform_note: 'Stop F (Eastbound)' });
+    });
+  });
+
+  describe('英語の結果ページ', () => {
+    const legDetails = (leg: RouteLeg) => ({
+      mode: leg.mode,
+      depart_time: leg.depart_time,
+      arrive_time: leg.arrive_time,
+      duration_min: leg.duration_min,
+      stops: leg.stops,
+      fare_jpy: leg.fare_jpy,
+      from_platform: leg.from_platform,
+      to_platform: leg.to_platform
+    });
+
+    it('should parse the same summary and legs as the Japanese page', () => {
+      const ja = parser.parseHtml(detailedScheduleHtml, 'ja').routes[0];
+      const en = parser.parseHtml(detailedScheduleEnHtml, 'en').routes[0];
+
+      expect(en.summary).toEqual(ja.summary);
+      expect(en.legs.map(legDetails)).toEqual(ja.legs.map(legDetails));
+      expect(en.legs.map(leg => [leg.from, leg.to, leg.line, leg.direction])).toEqual([
+        ['Shijo', 'Shijo Karasuma (Kyoto City Bus)', 'Walk', undefined],
+        [
+          'Shijo Karasuma (Kyoto City Bus)',
+          'Jodoji (Kyoto City Bus)',
+          'City Bus Route 203 (Shijo Kawaramachi, Gion, Kumano Jinja, Ginkakuji)',
+          'Eastbound'
+        ]
+      ]);
+    });
+
+    it('should parse every route of a multi-route English page', () => {
+      const ja = parser.parseHtml(multipleRoutesHtml, 'ja').routes;
+      const en = parser.parseHtml(multipleRoutesEnHtml, 'en').routes;
+
+      // 英語の停留所名はマスターデータの座標に解決できないため、距離を使う CO2 は比較しない
+      const summary = (route: Route) => ({ ...route.summary, co2_g: undefined, co2_saved_vs_car_g: undefined });
+
+      expect(en).toHaveLength(2);
+      expect(en.map(summary)).toEqual(ja.map(summary));
+      expect(en.map(route => route.legs.map(legDetails))).toEqual(ja.map(route => route.legs.map(legDetails)));
+      expect(en[1].legs.map(leg => leg.mode)).toEqual(['bus', 'walk', 'train', 'walk']);
+    });
+
+    it('should parse the English result list when details are missing', () => {
+      const listOnly = (html: string) => html.replace(/<div id="result-\d"[\s\S]*?<\/table>\s*<\/div>\s*<\/div>/g, '');
+
+      const ja = parser.parseHtml(listOnly(multipleRoutesHtml), 'ja').routes;
+      const en = parser.parseHtml(listOnly(multipleRoutesEnHtml), 'en').routes;
+
+      expect(en.map(route => route.summary.depart)).toEqual(ja.map(route => route.summary.depart));
+      expect(en[1].summary).toMatchObject({ duration_min: 43, transfers: 1, fare_jpy: 460 });
+      expect(en[1].legs).toHaveLength(1);
+    });
+
+    it('should read transfer counts only next to the word "transfer"', () => {
+      const { count } = getRoutePagePatterns('en');
+
+      expect(matchNumber('1 transfer', count)).toBe(1);
+      expect(matchNumber('0 transfers', count)).toBe(0);
+      expect(matchNumber('Transfers: 2', count)).toBe(2);
+      expect(matchNumber('City Bus 203', count)).toBeUndefined();
+    });
+  });
+
+  describe('解析の診断情報', () => {
+    it('should record the detailed strategy and the anchors missing from the page', () => {
+      const { parse_diagnostics } = parser.parseHtml(detailedScheduleHtml);
+
+      expect(parse_diagnostics).toEqual({
+        strategy: 'detailed',
+        missing_anchors: ['#result_list table tr[data-href]', 'form#resultInfo input[name^="rt"]'],
+        no_results: false
+      });
+    });
+
+    it('should record the table-row and raw strategies', () => {
+      const listOnly = multipleRoutesHtml.replace(/<div id="result-\d"[\s\S]*?<\/table>\s*<\/div>\s*<\/div>/g, '');
+      const rawOnly = fixtureHtml.replace(/class="time_1"/g, 'class="time-summary"').replace(/data-href=/g, 'data-link=');
+
+      expect(parser.parseHtml(listOnly).parse_diagnostics?.strategy).toBe('table_row');
+      expect(parser.parseHtml(rawOnly).parse_diagnostics).toMatchObject({
+        strategy: 'raw',
+        missing_anchors: ['td.time_1', '#result_list table tr[data-href]']
+      });
+    });
+
+    it('should tell a no-results page from a redesigned page', () => {
+      const noResults = parser.parseHtml('<html><body>該当する結果が見つかりませんでした</body></html>');
+      const redesigned = parser.parseHtml(detailedScheduleHtml
+        .replace(/class="time_(\d)"/g, 'class="summary-$1"')
+        .replace(/class="color-gr"/g, 'class="point-row"'));
+
+      expect(noResults.parse_diagnostics).toMatchObject({ strategy: null, no_results: true });
+      expect(isUpstreamFormatChanged(noResults.parse_diagnostics)).toBe(false);
+      expect(redesigned.routes).toEqual([]);
+      expect(redesigned.parse_diagnostics).toMatchObject({
+        strategy: null,
+        missing_anchors: expect.arrayContaining(['td.time_1', 'tr.color-gr']),
+        no_results: false
+      });
+      expect(isUpstreamFormatChanged(redesigned.parse_diagnostics)).toBe(true);
+    });
+
+    it('should record routes that could not be parsed', () => {
+      const html = detailedScheduleHtml.replace('17:28発 →18:00着', '17時28分 → 18時00分');
+
+      const { parse_diagnostics } = parser.parseHtml(html);
+
+      expect(parse_diagnostics?.strategy).toBeNull();
+      expect(parse_diagnostics?.errors).toEqual(['td.time_1[0]: unrecognized times "17時28分 → 18時00分"']);
+    });
+  });
+
   describe('U-12: 発着時刻詳細解析', () => {
     describe('基本的な発着時刻抽出', () => {
       it('should extract detailed departure and arrival times for each leg', () => {
@@ -161,8 +343,8 @@ describe('RouteHtmlParser', () => {
         const route = result.routes[0];
         
         // ルート全体の時刻検証
-        expect(route.summary.depart).toBe('2025-07-07T17:28');
-        expect(route.summary.arrive).toBe('2025-07-07T18:00');
+        expect(route.summary.depart).toBe('2025-07-07T17:28+09:00');
+        expect(route.summary.arrive).toBe('2025-07-07T18:00+09:00');
         expect(route.summary.duration_min).toBe(32);
         expect(route.summary.fare_jpy).toBe(230);
         expect(route.summary.transfers).toBe(0);
@@ -175,8 +357,8 @@ describe('RouteHtmlParser', () => {
         expect(walkLeg.mode).toBe('walk');
         expect(walkLeg.from).toBe('四条');
         expect(walkLeg.to).toBe('四条烏丸 (京都市バス)');
-        expect(walkLeg.depart_time).toBe('2025-07-07T17:28');
-        expect(walkLeg.arrive_time).toBe('2025-07-07T17:30');
+        expect(walkLeg.depart_time).toBe('2025-07-07T17:28+09:00');
+        expect(walkLeg.arrive_time).toBe('2025-07-07T17:30+09:00');
         expect(walkLeg.duration_min).toBe(2);
         expect(walkLeg.fare_jpy).toBe(0);
         
@@ -186,8 +368,8 @@ describe('RouteHtmlParser', () => {
         expect(busLeg.line).toContain('市バス 203系統');
         expect(busLeg.from).toBe('四条烏丸 (京都市バス)');
         expect(busLeg.to).toBe('浄土寺 (京都市バス)');
-        expect(busLeg.depart_time).toBe('2025-07-07T17:30');
-        expect(busLeg.arrive_time).toBe('2025-07-07T18:00');
+        expect(busLeg.depart_time).toBe('2025-07-07T17:30+09:00');
+        expect(busLeg.arrive_time).toBe('2025-07-07T18:00+09:00');
         expect(busLeg.duration_min).toBe(30);
         expect(busLeg.stops).toBe(16);
         expect(busLeg.fare_jpy).toBe(230);
@@ -217,8 +399,8 @@ describe('RouteHtmlParser', () => {
         const route = result.routes[0];
         
         // ルート全体の時刻検証（日付跨ぎ）
-        expect(route.summary.depart).toBe('2025-07-07T23:45');
-        expect(route.summary.arrive).toBe('2025-07-08T00:25'); // 翌日
+        expect(route.summary.depart).toBe('2025-07-07T23:45+09:00');
+        expect(route.summary.arrive).toBe('2025-07-08T00:25+09:00'); // 翌日
         expect(route.summary.duration_min).toBe(40);
         expect(route.summary.transfers).toBe(1);
         
@@ -228,20 +410,20 @@ describe('RouteHtmlParser', () => {
         // 1つ目のレッグ: バス（当日）
         const firstLeg = route.legs[0];
         expect(firstLeg.mode).toBe('bus');
-        expect(firstLeg.depart_time).toBe('2025-07-07T23:45');
-        expect(firstLeg.arrive_time).toBe('2025-07-08T00:10'); // 翌日
+        expect(firstLeg.depart_time).toBe('2025-07-07T23:45+09:00');
+        expect(firstLeg.arrive_time).toBe('2025-07-08T00:10+09:00'); // 翌日
         
         // 2つ目のレッグ: 徒歩（翌日）
         const secondLeg = route.legs[1];
         expect(secondLeg.mode).toBe('walk');
-        expect(secondLeg.depart_time).toBe('2025-07-08T00:15');
-        expect(secondLeg.arrive_time).toBe('2025-07-08T00:20');
+        expect(secondLeg.depart_time).toBe('2025-07-08T00:15+09:00');
+        expect(secondLeg.arrive_time).toBe('2025-07-08T00:20+09:00');
         
         // 3つ目のレッグ: 電車（翌日）
         const thirdLeg = route.legs[2];
         expect(thirdLeg.mode).toBe('train');
-        expect(thirdLeg.depart_time).toBe('2025-07-08T00:20');
-        expect(thirdLeg.arrive_time).toBe('2025-07-08T00:25');
+        expect(thirdLeg.depart_time).toBe('2025-07-08T00:20+09:00');
+        expect(thirdLeg.arrive_time).toBe('2025-07-08T00:25+09:00');
       });
 
       it('should handle time progression correctly within same day', () => {
@@ -293,16 +475,16 @@ describe('RouteHtmlParser', () => {
         const route = result.routes[0];
         
         // ルート全体の時刻フォーマット検証
-        expect(route.summary.depart).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
-        expect(route.summary.arrive).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+        expect(route.summary.depart).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}\+09:00$/);
+        expect(route.summary.arrive).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}\+09:00$/);
         
         // 各レッグの時刻フォーマット検証
         route.legs.forEach(leg => {
           if (leg.depart_time) {
-            expect(leg.depart_time).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+            expect(leg.depart_time).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}\+09:00$/);
           }
           if (leg.arrive_time) {
-            expect(leg.arrive_time).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+            expect(leg.arrive_time).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}\+09:00$/);
           }
         });
       });
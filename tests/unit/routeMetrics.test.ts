@@ -0,0 +1,69 @@
+import { estimateRouteMetrics, parseRouteMetrics } from '../../src/utils/RouteMetrics.js';
+import { Coefficient, RouteLeg } from '../../src/types/index.js';
+
+describe('RouteMetrics', () => {
+  const coefficient = {
+    BUS_CO2_EMISSION_RATE: 56,
+    TRAIN_CO2_EMISSION_RATE: 19,
+    CAR_CO2_EMISSION_RATE: 137,
+    WALK_CALORIE_RATE: 3.15,
+    WALK_STEPS_RATE: 100
+  } as Coefficient;
+
+  describe('parseRouteMetrics', () => {
+    it('should parse CO2, calories and steps from the result page', () => {
+      const text = '移動距離：5.7km CO2排出量：312g（マイカーに比べ 473g減） 消費カロリー：6.3kcal 徒歩：約200歩';
+
+      expect(parseRouteMetrics(text)).toEqual({
+        co2_g: 312,
+        co2_saved_vs_car_g: 473,
+        walk_kcal: 6.3,
+        walk_steps: 200
+      });
+    });
+
+    it('should return only the metrics found', () => {
+      expect(parseRouteMetrics('消費カロリー：12.6kcal 徒歩：約1,200歩')).toEqual({ walk_kcal: 12.6, walk_steps: 1200 });
+      expect(parseRouteMetrics('')).toEqual({});
+    });
+  });
+
+  describe('estimateRouteMetrics', () => {
+    it('should compute metrics from leg distances and walking time', () => {
+      const legs: RouteLeg[] = [
+        { mode: 'walk', duration_min: 2 },
+        { mode: 'bus', duration_min: 20, distance_km: 5 },
+        { mode: 'train', duration_min: 10, distance_km: 4 }
+      ];
+
+      expect(estimateRouteMetrics(legs, coefficient)).toEqual({
+        co2_g: 5 * 56 + 4 * 19,
+        co2_saved_vs_car_g: 9 * 137 - (5 * 56 + 4 * 19),
+        walk_kcal: 6.3,
+        walk_steps: 200
+      });
+    });
+
+    it('should use the straight-line distance between stops', () => {
+      const legs: RouteLeg[] = [{
+        mode: 'bus',
+        duration_min: 10,
+        from_lat: 35.0,
+        from_lng: 135.75,
+        to_lat: 35.009,
+        to_lng: 135.75
+      }];
+
+      const metrics = estimateRouteMetrics(legs, coefficient);
+
+      expect(metrics.co2_g).toBeCloseTo(56, -1);
+      expect(metrics.walk_kcal).toBe(0);
+    });
+
+    it('should leave out CO2 when a leg distance is unknown', () => {
+      const legs: RouteLeg[] = [{ mode: 'walk', duration_min: 7 }, { mode: 'bus', duration_min: 30, from: '浄土寺' }];
+
+      expect(estimateRouteMetrics(legs, coefficient)).toEqual({ walk_kcal: 22.1, walk_steps: 700 });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  applyRoutePreferences,
+  hasRoutePreferences,
+  identifyLegCompanies,
+  validateCompanyIds
+} from '../../src/utils/RoutePreferences.js';
+import { loadMaster } from '../../src/data/index.js';
+import { Master, Route, RouteLeg } from '../../src/types/index.js';
+
+describe('RoutePreferences', () => {
+  let master: Master;
+
+  const cityBus: RouteLeg = { mode: 'bus', line: '市バス 7系統(四条河原町・京都駅)', from: '京都駅前', to: '四条河原町', duration_min: 15 };
+  const keihan: RouteLeg = { mode: 'train', line: '京阪本線 特急(淀屋橋)', from: '祇園四条', to: '三条', duration_min: 2 };
+  const subway: RouteLeg = { mode: 'train', line: '烏丸線', from: '京都', to: '烏丸御池', duration_min: 6 };
+  const walk: RouteLeg = { mode: 'walk', duration_min: 5 };
+
+  const route = (depart: string, ...legs: RouteLeg[]): Route => ({
+    summary: {
+      depart: `2025-01-15T${depart}+09:00`,
+      arrive: `2025-01-15T${depart.slice(0, 3)}59+09:00`,
+      duration_min: legs.reduce((total, leg) => total + leg.duration_min, 0),
+      transfers: legs.filter(leg => leg.mode !== 'walk').length - 1,
+      fare_jpy: 230
+    },
+    legs
+  });
+
+  beforeAll(() => {
+    master = loadMaster('ja');
+  });
+
+  describe('identifyLegCompanies', () => {
+    it('should use the company name or alias in the line text', () => {
+      expect(identifyLegCompanies(cityBus, master)).toEqual([200]);
+      expect(identifyLegCompanies({ ...cityBus, line: '京都バス 17系統' }, master)).toEqual([203]);
+    });
+
+    it('should fall back to the lines serving both stops', () => {
+      expect(identifyLegCompanies(keihan, master)).toEqual([100]);
+      expect(identifyLegCompanies(subway, master)).toEqual([103]);
+      expect(identifyLegCompanies({ ...subway, from: '松ヶ崎(京都)', to: '北山' }, master)).toEqual([103]);
+      expect(identifyLegCompanies({ ...keihan, line: '特急', from: '祇園四条 (京阪本線)', to: '七条 (京阪本線)' }, master)).toEqual([100]);
+    });
+
+    it('should return no candidates for walking or unknown lines', () => {
+      expect(identifyLegCompanies(walk, master)).toEqual([]);
+      expect(identifyLegCompanies({ mode: 'train', line: 'JR奈良線', from: '京都', to: '稲荷', duration_min: 5 }, master)).toEqual([]);
+    });
+  });
+
+  describe('applyRoutePreferences', () => {
+    const busRoute = route('09:00', walk, cityBus);
+    const trainRoute = route('09:10', subway, walk, keihan);
+    const mixedRoute = route('09:20', cityBus, keihan);
+
+    it('should drop routes using modes outside allowed_modes', () => {
+      const result = applyRoutePreferences([busRoute, trainRoute, mixedRoute], { allowed_modes: ['train'] }, master);
+
+      expect(result.routes).toEqual([trainRoute]);
+      expect(result.dropped).toEqual([
+        { depart: busRoute.summary.depart, arrive: busRoute.summary.arrive, duration_min: 20, reason: 'mode', line: cityBus.line },
+        { depart: mixedRoute.summary.depart, arrive: mixedRoute.summary.arrive, duration_min: 17, reason: 'mode', line: cityBus.line }
+      ]);
+    });
+
+    it('should drop routes run by excluded companies', () => {
+      const result = applyRoutePreferences([busRoute, trainRoute, mixedRoute], { excluded_companies: [100] }, master);
+
+      expect(result.routes).toEqual([busRoute]);
+      expect(result.dropped.map(entry => [entry.reason, entry.company_id])).toEqual([['company', 100], ['company', 100]]);
+    });
+
+    it('should keep legs whose company cannot be identified', () => {
+      const jr = route('09:30', { mode: 'train', line: 'JR奈良線', from: '京都', to: '稲荷', duration_min: 5 });
+
+      const result = applyRoutePreferences([jr], { excluded_companies: [100, 101, 102] }, master);
+
+      expect(result.routes).toEqual([jr]);
+      expect(result.dropped).toEqual([]);
+    });
+  });
+
+  describe('hasRoutePreferences / validateCompanyIds', () => {
+    it('should detect when preferences are given', () => {
+      expect(hasRoutePreferences({})).toBe(false);
+      expect(hasRoutePreferences({ excluded_companies: [] })).toBe(false);
+      expect(hasRoutePreferences({ allowed_modes: ['bus'] })).toBe(true);
+      expect(hasRoutePreferences({ excluded_companies: [200] })).toBe(true);
+    });
+
+    it('should reject company IDs missing from the master data', () => {
+      expect(() => validateCompanyIds([200, 103], master)).not.toThrow();
+      expect(() => validateCompanyIds([200, 999], master)).toThrow('Invalid excluded_companies. Unknown company ID: 999');
+    });
+  });
+});
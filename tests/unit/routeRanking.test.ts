@@ -0,0 +1,61 @@
+import { rankRoutes, walkingMinutes } from '../../src/utils/RouteRanking.js';
+import { Route } from '../../src/types/index.js';
+
+describe('RouteRanking', () => {
+  const route = (
+    id: string,
+    summary: Partial<Route['summary']>,
+    walkMin = 0,
+    estimated = false
+  ): Route => ({
+    summary: { duration_min: 30, transfers: 0, ...summary },
+    legs: [
+      { mode: 'bus', line: id, duration_min: 20 },
+      ...(walkMin > 0 ? [{ mode: 'walk' as const, duration_min: walkMin }] : [])
+    ],
+    ...(estimated ? { estimated: true } : {})
+  });
+
+  const fast = route('fast', { arrive: '2025-01-15T09:40+09:00', duration_min: 25, transfers: 2, fare_jpy: 460 }, 12);
+  const cheap = route('cheap', { arrive: '2025-01-15T09:55+09:00', duration_min: 40, transfers: 1, fare_jpy: 230 }, 3);
+  const direct = route('direct', { arrive: '2025-01-15T09:50+09:00', duration_min: 35, transfers: 0, fare_jpy: 230 }, 8);
+  const routes = [cheap, direct, fast];
+
+  const lines = (ranked: Route[]): (string | undefined)[] => ranked.map(entry => entry.legs[0].line);
+
+  describe('walkingMinutes', () => {
+    it('should sum the walking legs', () => {
+      expect(walkingMinutes(fast)).toBe(12);
+      expect(walkingMinutes(route('none', {}))).toBe(0);
+    });
+  });
+
+  describe('rankRoutes', () => {
+    it('should keep the upstream order without sort_by', () => {
+      expect(rankRoutes(routes, {})).toEqual(routes);
+    });
+
+    it.each([
+      ['duration', ['fast', 'direct', 'cheap']],
+      ['fare', ['direct', 'cheap', 'fast']],
+      ['transfers', ['direct', 'cheap', 'fast']],
+      ['walking', ['cheap', 'direct', 'fast']],
+      ['arrival', ['fast', 'direct', 'cheap']]
+    ] as const)('should sort by %s', (sortBy, expected) => {
+      expect(lines(rankRoutes(routes, { sort_by: sortBy }))).toEqual(expected);
+    });
+
+    it('should apply every filter', () => {
+      expect(lines(rankRoutes(routes, { max_transfers: 1 }))).toEqual(['cheap', 'direct']);
+      expect(lines(rankRoutes(routes, { max_walk_min: 8 }))).toEqual(['cheap', 'direct']);
+      expect(lines(rankRoutes(routes, { max_fare_jpy: 300, sort_by: 'duration' }))).toEqual(['direct', 'cheap']);
+    });
+
+    it('should keep estimated routes without a fare and sort them last', () => {
+      const estimated = route('estimated', { duration_min: 20 }, 5, true);
+
+      expect(lines(rankRoutes([estimated, ...routes], { max_fare_jpy: 300, sort_by: 'fare' })))
+        .toEqual(['direct', 'cheap', 'estimated']);
+    });
+  });
+});
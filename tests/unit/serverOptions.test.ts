@@ -0,0 +1,92 @@
+import { parseServerOptions } from '../../src/utils/ServerOptions.js';
+
+describe('parseServerOptions', () => {
+  it('should default to stdio transport', () => {
+    const options = parseServerOptions([], {});
+
+    expect(options).toEqual({
+      transport: 'stdio',
+      host: '127.0.0.1',
+      port: 3000,
+      cache: { ttlSeconds: 300, timeBucketMinutes: 1, maxEntries: 200 }
+    });
+  });
+
+  it('should read transport, host and port from CLI flags', () => {
+    const options = parseServerOptions(['--transport', 'http', '--host=0.0.0.0', '--port', '8080'], {});
+
+    expect(options).toMatchObject({ transport: 'http', host: '0.0.0.0', port: 8080 });
+  });
+
+  it('should treat --http as a shorthand for --transport http', () => {
+    expect(parseServerOptions(['--http'], {}).transport).toBe('http');
+  });
+
+  it('should fall back to environment variables', () => {
+    const options = parseServerOptions([], {
+      MCP_TRANSPORT: 'http',
+      MCP_HOST: '10.0.0.1',
+      MCP_PORT: '9000'
+    });
+
+    expect(options).toMatchObject({ transport: 'http', host: '10.0.0.1', port: 9000 });
+  });
+
+  it('should prefer CLI flags over environment variables', () => {
+    const options = parseServerOptions(['--port', '4000'], { MCP_PORT: '9000' });
+
+    expect(options.port).toBe(4000);
+  });
+
+  it('should reject unknown transports', () => {
+    expect(() => parseServerOptions(['--transport', 'websocket'], {})).toThrow('Invalid transport');
+  });
+
+  it('should reject invalid ports', () => {
+    expect(() => parseServerOptions(['--port', 'abc'], {})).toThrow('Invalid port');
+    expect(() => parseServerOptions(['--port', '70000'], {})).toThrow('Invalid port');
+  });
+
+  it('should read cache settings from CLI flags and environment variables', () => {
+    const options = parseServerOptions(['--cache-ttl', '60', '--cache-bucket=5'], {
+      MCP_CACHE_DIR: '/tmp/walk-in-kyoto-cache',
+      MCP_CACHE_MAX_ENTRIES: '50'
+    });
+
+    expect(options.cache).toEqual({
+      ttlSeconds: 60,
+      timeBucketMinutes: 5,
+      maxEntries: 50,
+      directory: '/tmp/walk-in-kyoto-cache'
+    });
+  });
+
+  it('should allow disabling the cache with a zero TTL', () => {
+    expect(parseServerOptions(['--cache-ttl', '0'], {}).cache.ttlSeconds).toBe(0);
+    expect(() => parseServerOptions(['--cache-ttl', '-1'], {})).toThrow('Invalid cache-ttl');
+  });
+
+  it('should configure record and replay modes', () => {
+    expect(parseServerOptions(['--record', './recordings'], {}).recorder).toEqual({ mode: 'record', directory: './recordings' });
+    expect(parseServerOptions([], { MCP_REPLAY_DIR: './recordings' }).recorder).toEqual({ mode: 'replay', directory: './recordings' });
+    expect(parseServerOptions([], {}).recorder).toBeUndefined();
+  });
+
+  it('should reject record and replay together', () => {
+    expect(() => parseServerOptions(['--record', 'a', '--replay', 'b'], {})).toThrow('Cannot use record and replay modes at the same time');
+  });
+
+  it('should parse the fuzzy search threshold', () => {
+    expect(parseServerOptions(['--fuzzy-threshold', '0.8'], {}).fuzzyThreshold).toBe(0.8);
+    expect(parseServerOptions([], { MCP_FUZZY_THRESHOLD: '1' }).fuzzyThreshold).toBe(1);
+    expect(parseServerOptions([], {}).fuzzyThreshold).toBeUndefined();
+    expect(() => parseServerOptions(['--fuzzy-threshold', '1.5'], {})).toThrow('Invalid fuzzy-threshold');
+  });
+
+  it('should parse the offline routing mode', () => {
+    expect(parseServerOptions(['--offline-routing', 'always'], {}).offlineRouting).toBe('always');
+    expect(parseServerOptions([], { MCP_OFFLINE_ROUTING: 'never' }).offlineRouting).toBe('never');
+    expect(parseServerOptions([], {}).offlineRouting).toBeUndefined();
+    expect(() => parseServerOptions(['--offline-routing', 'sometimes'], {})).toThrow('Invalid offline-routing');
+  });
+});
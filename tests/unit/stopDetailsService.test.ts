@@ -0,0 +1,87 @@
+import { StopDetailsService } from '../../src/services/StopDetailsService.js';
+
+describe('StopDetailsService', () => {
+  let service: StopDetailsService;
+
+  beforeAll(() => {
+    service = new StopDetailsService();
+  });
+
+  afterAll(() => {
+    service.destroy();
+  });
+
+  describe('getDetails', () => {
+    it('should return coordinates and agency of a train station', async () => {
+      const response = await service.getDetails({ language: 'ja', max_tokens: 4096, id: 'T:103_三条京阪' });
+
+      expect(response.stop).toMatchObject({
+        name: '三条京阪',
+        kind: 'train_station',
+        id: 'T:103_三条京阪',
+        yomi: 'さんじょうけいはん',
+        agency: { id: 103, name: '京都市営地下鉄', type: 'rail' }
+      });
+      expect(response.stop.lat).toBeCloseTo(35.0093, 3);
+      expect(response.stop.lng).toBeCloseTo(135.7741, 3);
+      expect(response.truncated).toBe(false);
+    });
+
+    it('should list every line serving the stop', async () => {
+      const response = await service.getDetails({ language: 'ja', max_tokens: 4096, id: 'T:103_三条京阪' });
+
+      expect(response.lines.map(line => line.name)).toEqual(['東西線']);
+      expect(response.lines[0].agency).toBe('京都市営地下鉄');
+    });
+
+    it('should list bus routes of a bus stop', async () => {
+      const response = await service.getDetails({ language: 'ja', max_tokens: 4096, id: 'B:204_三条京阪(京阪バス)' });
+
+      expect(response.stop.agency?.type).toBe('bus');
+      expect(response.lines.length).toBeGreaterThan(1);
+      expect(response.lines.every(line => line.agency === '京阪バス')).toBe(true);
+    });
+
+    it('should return the same-name stop group across operators', async () => {
+      const response = await service.getDetails({ language: 'ja', max_tokens: 4096, id: 'T:103_三条京阪' });
+
+      expect(response.group?.name).toBe('三条京阪');
+      expect(response.group?.stops.map(stop => stop.id)).toEqual(['B:204_三条京阪(京阪バス)', 'T:103_三条京阪']);
+    });
+
+    it('should use English names and agencies for language "en"', async () => {
+      const response = await service.getDetails({ language: 'en', max_tokens: 4096, id: 'T:103_三条京阪' });
+
+      expect(response.stop.name).toBe('Sanjo Keihan');
+      expect(response.stop.agency?.name).toBe('Kyoto City Subway');
+      expect(response.group?.name).toBe('Sanjo Keihan');
+    });
+
+    it('should return landmark details without lines', async () => {
+      const response = await service.getDetails({ language: 'ja', max_tokens: 4096, id: 'LM00000001' });
+
+      expect(response.stop).toMatchObject({ name: '清水寺', kind: 'landmark', id: 'LM00000001', yomi: 'きよみずでら' });
+      expect(response.lines).toEqual([]);
+      expect(response.group).toBeUndefined();
+    });
+
+    it('should truncate the response to max_tokens', async () => {
+      const response = await service.getDetails({ language: 'ja', max_tokens: 200, id: 'B:200_三条京阪前(京都市バス)' });
+
+      expect(response.truncated).toBe(true);
+      expect(response.stop.id).toBe('B:200_三条京阪前(京都市バス)');
+    });
+  });
+
+  describe('error handling', () => {
+    it('should reject malformed IDs', async () => {
+      await expect(service.getDetails({ language: 'ja', max_tokens: 512, id: '三条京阪' }))
+        .rejects.toThrow('Invalid id');
+    });
+
+    it('should reject unknown IDs', async () => {
+      await expect(service.getDetails({ language: 'ja', max_tokens: 512, id: 'T:103_存在しない駅' }))
+        .rejects.toThrow('Stop not found: T:103_存在しない駅');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { StopSearchByGeoService } from '../../src/services/StopSearchByGeoService.js';
+import { StopSearchByGeoRequest } from '../../src/types/index.js';
+import { TokenLimiter } from '../../src/utils/TokenLimiter.js';
+
+describe('StopSearchByGeoService', () => {
+  let service: StopSearchByGeoService;
+
+  // 銀閣寺道バス停付近
+  const ginkakujiMichi = '35.0252705,135.7918895';
+
+  beforeAll(() => {
+    service = new StopSearchByGeoService();
+  });
+
+  afterAll(() => {
+    service.destroy();
+  });
+
+  describe('search', () => {
+    it('should return nearby stops ordered by distance', async () => {
+      const request: StopSearchByGeoRequest = {
+        language: 'ja',
+        max_tokens: 2048,
+        latlng: ginkakujiMichi
+      };
+
+      const response = await service.search(request);
+
+      expect(response.candidates.length).toBeGreaterThan(0);
+      expect(response.candidates.length).toBeLessThanOrEqual(10);
+      const distances = response.candidates.map(c => c.distance_m);
+      expect(distances).toEqual([...distances].sort((a, b) => a - b));
+      expect(response.truncated).toBe(false);
+    });
+
+    it('should include distance, walking time, coordinates and agency', async () => {
+      const response = await service.search({
+        language: 'ja',
+        max_tokens: 2048,
+        latlng: ginkakujiMichi,
+        kind: 'bus_stop',
+        limit: 1
+      });
+
+      const [nearest] = response.candidates;
+      expect(nearest.kind).toBe('bus_stop');
+      expect(nearest.id).toMatch(/^B:/);
+      expect(nearest.agency).toBeTruthy();
+      expect(typeof nearest.lat).toBe('number');
+      expect(typeof nearest.lng).toBe('number');
+      expect(nearest.distance_m).toBeLessThan(200);
+      expect(nearest.walk_min).toBe(Math.ceil(nearest.distance_m / 80));
+    });
+
+    it('should filter by kind', async () => {
+      const response = await service.search({
+        language: 'ja',
+        max_tokens: 2048,
+        latlng: ginkakujiMichi,
+        radius_m: 3000,
+        kind: 'train_station'
+      });
+
+      expect(response.candidates.length).toBeGreaterThan(0);
+      expect(response.candidates.every(c => c.kind === 'train_station')).toBe(true);
+    });
+
+    it('should return landmarks without an agency', async () => {
+      const response = await service.search({
+        language: 'ja',
+        max_tokens: 2048,
+        latlng: ginkakujiMichi,
+        kind: 'landmark',
+        limit: 3
+      });
+
+      expect(response.candidates.length).toBeGreaterThan(0);
+      expect(response.candidates.every(c => c.kind === 'landmark' && c.agency === undefined)).toBe(true);
+    });
+
+    it('should respect radius_m and limit', async () => {
+      const response = await service.search({
+        language: 'ja',
+        max_tokens: 4096,
+        latlng: ginkakujiMichi,
+        radius_m: 300,
+        limit: 50
+      });
+
+      expect(response.candidates.every(c => c.distance_m <= 300)).toBe(true);
+    });
+
+    it('should return no candidates far away from Kyoto', async () => {
+      const response = await service.search({
+        language: 'ja',
+        max_tokens: 512,
+        latlng: '43.06417,141.34694'
+      });
+
+      expect(response.candidates).toEqual([]);
+    });
+
+    it('should respect max_tokens limit', async () => {
+      const request: StopSearchByGeoRequest = {
+        language: 'ja',
+        max_tokens: 100,
+        latlng: ginkakujiMichi,
+        limit: 50,
+        radius_m: 2000
+      };
+
+      const response = await service.search(request);
+
+      const tokenLimiter = new TokenLimiter();
+      expect(tokenLimiter.calculateTokens(response)).toBeLessThanOrEqual(request.max_tokens);
+      expect(response.truncated).toBe(true);
+      tokenLimiter.destroy();
+    });
+  });
+
+  describe('error handling', () => {
+    it('should reject invalid coordinates', async () => {
+      await expect(service.search({
+        language: 'ja',
+        max_tokens: 512,
+        latlng: 'not-a-coordinate'
+      })).rejects.toThrow('Invalid lat,lng format');
+    });
+  });
+});
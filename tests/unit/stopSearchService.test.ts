@@ -1,6 +1,7 @@
 import { StopSearchService } from '../../src/services/StopSearchService.js';
-import { StopSearchRequest } from '../../src/types/index.js';
+import { StopCandidate, StopSearchRequest } from '../../src/types/index.js';
 import { TokenLimiter } from '../../src/utils/TokenLimiter.js';
+import { StopNotFoundError } from '../../src/utils/ToolErrors.js';
 
 describe('StopSearchService', () => {
   let service: StopSearchService;
@@ -82,6 +83,105 @@ describe('StopSearchService', () => {
     });
   });
 
+  describe('reading search', () => {
+    it('should match hiragana readings', async () => {
+      const response = await service.search({ language: 'ja', max_tokens: 512, query: 'きよみず' });
+
+      expect(response.candidates.length).toBeGreaterThan(0);
+      expect(response.candidates[0].name).toContain('清水');
+    });
+
+    it('should match katakana queries against hiragana readings', async () => {
+      const response = await service.search({ language: 'ja', max_tokens: 512, query: 'ギンカクジ' });
+
+      expect(response.candidates.some(c => c.name.includes('銀閣寺'))).toBe(true);
+    });
+
+    it('should match Hepburn romanization with spaces and long vowels', async () => {
+      const response = await service.search({ language: 'ja', max_tokens: 512, query: 'sanjo keihan' });
+
+      expect(response.candidates.map(c => c.id)).toContain('T:103_三条京阪');
+    });
+
+    it('should return English station names for romanized queries', async () => {
+      const response = await service.search({ language: 'en', max_tokens: 512, query: 'sanjou keihan' });
+
+      expect(response.candidates.some(c => c.name === 'Sanjo Keihan' && c.kind === 'train_station')).toBe(true);
+    });
+
+    it('should match romanized readings with macrons', async () => {
+      const response = await service.search({ language: 'ja', max_tokens: 512, query: 'Kyōto' });
+
+      expect(response.candidates[0].name).toBe('京都');
+    });
+
+    it('should rank display name matches above reading matches', async () => {
+      const response = await service.search({ language: 'ja', max_tokens: 512, query: '三条' });
+
+      expect(response.candidates[0].name).toBe('三条');
+    });
+  });
+
+  describe('fuzzy search', () => {
+    it('should report the match type of each candidate', async () => {
+      const response = await service.search({ language: 'ja', max_tokens: 512, query: '三条' });
+
+      expect(response.candidates[0].match_type).toBe('exact');
+      expect(response.candidates.some(c => c.match_type === 'partial')).toBe(true);
+    });
+
+    it('should tolerate a missing hyphen in romanized names', async () => {
+      const response = await service.search({ language: 'en', max_tokens: 512, query: 'kinkakuji temple' });
+      const match = response.candidates.find(c => c.id === 'LM00002093');
+
+      expect(match?.match_type).toBe('fuzzy');
+    });
+
+    it('should tolerate one wrong kana', async () => {
+      const response = await service.search({ language: 'ja', max_tokens: 512, query: 'ぎをんしじょう' });
+
+      expect(response.candidates.some(c => c.name === '祇園四条' && c.match_type === 'fuzzy')).toBe(true);
+    });
+
+    it('should rank fuzzy matches below exact and partial matches', async () => {
+      const response = await service.search({ language: 'ja', max_tokens: 2048, query: '金閣寺' });
+      const firstFuzzy = response.candidates.findIndex(c => c.match_type === 'fuzzy');
+      const lastNonFuzzy = response.candidates.map(c => c.match_type).lastIndexOf('partial');
+
+      expect(firstFuzzy === -1 || firstFuzzy > lastNonFuzzy).toBe(true);
+    });
+
+    it('should disable fuzzy matching with a threshold of 1', async () => {
+      const strictService = new StopSearchService({ fuzzyThreshold: 1 });
+      const response = await strictService.search({ language: 'ja', max_tokens: 512, query: 'ぎをんしじょう' });
+
+      expect(response.candidates).toEqual([]);
+      strictService.destroy();
+    });
+  });
+
+  describe('addSuggestions', () => {
+    it('should add similar names searched without the operator suffix', async () => {
+      const error = await service.addSuggestions(
+        new StopNotFoundError('Stop not found: 銀閣時道(京都市バス)', { station: '銀閣時道(京都市バス)' }),
+        'ja'
+      );
+
+      expect(error).toBeInstanceOf(StopNotFoundError);
+      expect(error.message).toBe('Stop not found: 銀閣時道(京都市バス)');
+      const suggestions = error.details.suggestions as StopCandidate[];
+      expect(suggestions.length).toBeGreaterThan(0);
+      expect(suggestions.length).toBeLessThanOrEqual(5);
+      expect(suggestions.some(candidate => candidate.name.startsWith('銀閣寺道'))).toBe(true);
+    });
+
+    it('should leave errors without a single stop name unchanged', async () => {
+      const original = new StopNotFoundError('Stop not found: A -> B', { from_station: 'A', to_station: 'B' });
+
+      await expect(service.addSuggestions(original, 'ja')).resolves.toBe(original);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle empty query', async () => {
       const request: StopSearchRequest = {
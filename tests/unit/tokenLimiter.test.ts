@@ -50,6 +50,30 @@ describe('TokenLimiter', () => {
     });
   });
 
+  describe('applyLimitToArray', () => {
+    const data = {
+      summary: { total: 5, finish: '2025-01-15T12:00+09:00' },
+      items: Array(20).fill({ name: 'Stop', id: 'B:001' })
+    };
+
+    it('should truncate only the given array', () => {
+      const result = limiter.applyLimitToArray(data, 'items', 80);
+
+      expect(result.truncated).toBe(true);
+      expect(result.data.summary).toEqual(data.summary);
+      expect(result.data.items.length).toBeGreaterThan(0);
+      expect(result.data.items.length).toBeLessThan(data.items.length);
+      expect(limiter.calculateTokens(result.data)).toBeLessThanOrEqual(80);
+    });
+
+    it('should keep the other properties when even they exceed the limit', () => {
+      const result = limiter.applyLimitToArray(data, 'items', 5);
+
+      expect(result.truncated).toBe(true);
+      expect(result.data).toEqual({ summary: data.summary, items: [] });
+    });
+  });
+
   describe('calculateTokens', () => {
     it('should count tokens using tiktoken encoding', () => {
       const data = { test: 'hello' };
@@ -0,0 +1,299 @@
+import {
+  ROUTE_SEARCH_OUTPUT_SCHEMA,
+  STOP_SEARCH_OUTPUT_SCHEMA,
+  STOP_SEARCH_BY_GEO_OUTPUT_SCHEMA,
+  toStructuredToolResult,
+  toToolErrorResult,
+  renderStopSearchText,
+  renderStopSearchByGeoText,
+  renderRouteSearchText,
+  renderItineraryText,
+  renderVisitOrderText,
+  renderReachabilityText,
+} from '../../src/utils/ToolOutput.js';
+import { ItineraryResponse, RouteSearchResponse, VisitOrderResponse, ReachabilityResponse } from '../../src/types/index.js';
+import { InternalError, StopNotFoundError, ValidationError } from '../../src/utils/ToolErrors.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+describe('ToolOutput', () => {
+  const routeResponse: RouteSearchResponse = {
+    routes: [
+      {
+        summary: {
+          depart: '2025-07-07T09:00+09:00',
+          arrive: '2025-07-07T09:32+09:00',
+          duration_min: 32,
+          transfers: 0,
+          fare_jpy: 230
+        },
+        legs: [
+          {
+            mode: 'bus',
+            line: '市バス100号系統',
+            from: '京都駅前',
+            to: '五条坂',
+            depart_time: '2025-07-07T09:00+09:00',
+            arrive_time: '2025-07-07T09:25+09:00',
+            duration_min: 25,
+            stops: 8,
+            fare_jpy: 230
+          },
+          { mode: 'walk', duration_min: 7, distance_km: 0.5 }
+        ]
+      }
+    ],
+    truncated: false
+  };
+
+  describe('output schemas', () => {
+    it('should require the top-level response fields', () => {
+      expect(STOP_SEARCH_OUTPUT_SCHEMA.required).toEqual(['candidates', 'truncated']);
+      expect(STOP_SEARCH_BY_GEO_OUTPUT_SCHEMA.required).toEqual(['candidates', 'truncated']);
+      expect(ROUTE_SEARCH_OUTPUT_SCHEMA.required).toEqual(['routes', 'truncated']);
+    });
+
+    it('should describe every RouteLeg field', () => {
+      const legSchema = (ROUTE_SEARCH_OUTPUT_SCHEMA.properties.routes as any).items.properties.legs.items;
+      const legKeys = new Set([
+        ...Object.keys(routeResponse.routes[0].legs[0]),
+        ...Object.keys(routeResponse.routes[0].legs[1])
+      ]);
+
+      for (const key of legKeys) {
+        expect(legSchema.properties).toHaveProperty(key);
+      }
+    });
+  });
+
+  describe('toStructuredToolResult', () => {
+    it('should return the result as structuredContent with a text block', () => {
+      const result = toStructuredToolResult(routeResponse, 'text');
+
+      expect(result.structuredContent).toBe(routeResponse);
+      expect(result.content).toEqual([{ type: 'text', text: 'text' }]);
+    });
+  });
+
+  describe('toToolErrorResult', () => {
+    const thrown = (error: unknown): McpError => {
+      try {
+        toToolErrorResult(error);
+      } catch (caught) {
+        return caught as McpError;
+      }
+      throw new Error('expected toToolErrorResult to throw');
+    };
+
+    it('should return typed errors as isError results with the code and details', () => {
+      const error = new StopNotFoundError('Stop not found: 京都駅 -> 存在しない寺', { from_station: '京都駅', to_station: '存在しない寺' });
+
+      const result = toToolErrorResult(error);
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+      expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({
+        code: 404,
+        message: 'Stop not found: 京都駅 -> 存在しない寺',
+        details: { from_station: '京都駅', to_station: '存在しない寺', cause: 'stop_not_found' }
+      });
+    });
+
+    it('should map validation errors to InvalidParams', () => {
+      const error = thrown(new ValidationError('Missing required parameter: language'));
+
+      expect(error).toBeInstanceOf(McpError);
+      expect(error.code).toBe(ErrorCode.InvalidParams);
+      expect(error.data).toEqual({ code: 400, details: { cause: 'invalid_request' } });
+    });
+
+    it('should map internal and untyped errors to InternalError', () => {
+      expect(thrown(new InternalError('Internal server error')).code).toBe(ErrorCode.InternalError);
+      expect(thrown(new Error('boom'))).toMatchObject({ code: ErrorCode.InternalError, message: expect.stringContaining('Tool execution failed: boom') });
+    });
+
+    it('should re-throw McpError unchanged', () => {
+      const error = new McpError(ErrorCode.MethodNotFound, 'Unknown tool: x');
+
+      expect(thrown(error)).toBe(error);
+    });
+  });
+
+  describe('text rendering', () => {
+    it('should render stop candidates one per line', () => {
+      const text = renderStopSearchText({
+        candidates: [{ name: '京都駅', kind: 'train_station', id: 'T:京都' }],
+        truncated: true
+      });
+
+      expect(text).toBe('1 candidate(s) (truncated)\n- 京都駅 [train_station] T:京都');
+    });
+
+    it('should render nearby candidates with distance and agency', () => {
+      const text = renderStopSearchByGeoText({
+        candidates: [{
+          name: '京都駅前',
+          kind: 'bus_stop',
+          id: 'B:200_京都駅前',
+          lat: 34.985,
+          lng: 135.758,
+          distance_m: 120,
+          walk_min: 2,
+          agency: '京都市営バス'
+        }],
+        truncated: false
+      });
+
+      expect(text).toBe('1 candidate(s)\n- 京都駅前 [bus_stop] 120m, 2 min walk, 京都市営バス');
+    });
+
+    it('should render a summary line and one line per leg', () => {
+      expect(renderRouteSearchText(routeResponse).split('\n')).toEqual([
+        '1 route(s)',
+        'Route 1: 09:00 → 09:32 (32 min, 0 transfer(s), ¥230)',
+        '  bus 市バス100号系統: 京都駅前 → 五条坂 09:00-09:25 (25 min)',
+        '  walk 7 min, 0.5km'
+      ]);
+    });
+
+    it('should add a line with the environmental and health metrics', () => {
+      const withMetrics: RouteSearchResponse = {
+        ...routeResponse,
+        routes: [{
+          ...routeResponse.routes[0],
+          summary: { ...routeResponse.routes[0].summary, co2_g: 312, co2_saved_vs_car_g: 473, walk_kcal: 22.1, walk_steps: 700 }
+        }]
+      };
+
+      expect(renderRouteSearchText(withMetrics).split('\n')[2]).toBe('  CO2 312g (473g less than car), 22.1kcal, 700 steps');
+    });
+
+    it('should show platforms and the direction on legs', () => {
+      const withPlatforms: RouteSearchResponse = {
+        ...routeResponse,
+        routes: [{
+          ...routeResponse.routes[0],
+          legs: [{ ...routeResponse.routes[0].legs[0], from_platform: 'D2', direction: '東行き' }]
+        }]
+      };
+
+      expect(renderRouteSearchText(withPlatforms).split('\n')[2])
+        .toBe('  bus 市バス100号系統: 京都駅前 [D2] → 五条坂 09:00-09:25 (25 min, 東行き)');
+    });
+
+    it('should append the paging cursor', () => {
+      const lines = renderRouteSearchText({ ...routeResponse, cursor: 'abc' }).split('\n');
+
+      expect(lines[lines.length - 1]).toBe('cursor: abc');
+    });
+
+    it('should list the dropped routes', () => {
+      const lines = renderRouteSearchText({
+        ...routeResponse,
+        dropped: [
+          { depart: '2025-07-07T09:05+09:00', arrive: '2025-07-07T09:40+09:00', duration_min: 35, reason: 'company', line: '京都バス 17系統', company_id: 203 },
+          { duration_min: 12, reason: 'mode', line: '烏丸線' }
+        ]
+      }).split('\n');
+
+      expect(lines.slice(-2)).toEqual([
+        'Dropped: 09:05 → 09:40 (35 min) company #203: 京都バス 17系統',
+        'Dropped: (12 min) mode: 烏丸線'
+      ]);
+    });
+
+    it('should render estimated routes without times or fares', () => {
+      const estimated: RouteSearchResponse = {
+        routes: [{
+          summary: { duration_min: 8, transfers: 0 },
+          legs: [{ mode: 'train', line: '烏丸線', from: '京都', to: '烏丸御池', duration_min: 4, stops: 3 }],
+          estimated: true
+        }],
+        truncated: false
+      };
+
+      expect(renderRouteSearchText(estimated).split('\n')).toEqual([
+        '1 route(s)',
+        'Route 1 (estimated): 8 min, 0 transfer(s)',
+        '  train 烏丸線: 京都 → 烏丸御池 (4 min)'
+      ]);
+    });
+    it('should render an itinerary as a timeline of moves and stays', () => {
+      const route = routeResponse.routes[0];
+      const itinerary: ItineraryResponse = {
+        summary: {
+          depart: '2025-07-07T09:00+09:00',
+          arrive: '2025-07-07T11:32+09:00',
+          duration_min: 152,
+          travel_min: 64,
+          fare_jpy: 460,
+          walk_min: 14,
+          walk_km: 1,
+          transfers: 0,
+          estimated: false
+        },
+        timeline: [
+          { type: 'move', leg: 1, from: '京都駅', to: '清水寺', depart: '2025-07-07T09:00+09:00', arrive: '2025-07-07T09:32+09:00', duration_min: 32, fare_jpy: 230, walk_min: 7, route },
+          { type: 'stay', name: '清水寺', arrive: '2025-07-07T09:32+09:00', depart: '2025-07-07T11:00+09:00', stay_min: 88 }
+        ],
+        truncated: false
+      };
+
+      expect(renderItineraryText(itinerary).split('\n')).toEqual([
+        'Itinerary: 09:00 → 11:32 (152 min, ¥460, walk 14 min / 1km)',
+        '09:00-09:32 京都駅 → 清水寺',
+        '  bus 市バス100号系統: 京都駅前 → 五条坂 09:00-09:25 (25 min)',
+        '  walk 7 min, 0.5km',
+        '09:32-11:00 stay at 清水寺 (88 min)'
+      ]);
+    });
+    it('should render the visit order with the return leg', () => {
+      const visitOrder: VisitOrderResponse = {
+        start: { name: '京都', lat: 34.985, lng: 135.758 },
+        stops: [
+          { order: 1, id: 'LM00000001', name: '清水寺', lat: 34.99, lng: 135.78, travel_min: 20, arrive: '2025-07-07T09:20+09:00', depart: '2025-07-07T10:20+09:00' },
+          { order: 2, id: 'LM00000002', name: '高台寺', lat: 35.0, lng: 135.78, travel_min: 10, arrive: '2025-07-07T10:30+09:00', depart: '2025-07-07T11:30+09:00', estimated: true }
+        ],
+        return_leg: { travel_min: 25, arrive: '2025-07-07T11:55+09:00' },
+        total_travel_min: 55,
+        finish: '2025-07-07T11:55+09:00',
+        travel_time: 'search',
+        truncated: false
+      };
+
+      expect(renderVisitOrderText(visitOrder).split('\n')).toEqual([
+        'Visit order from 京都: 55 min travel (search), finish 11:55',
+        '1. 清水寺 LM00000001 (+20 min) 09:20-10:20',
+        '2. 高台寺 LM00000002 (+10 min, estimated) 10:30-11:30',
+        'back to 京都 (+25 min) 11:55'
+      ]);
+    });
+    it('should render reachable places by time band', () => {
+      const reachability: ReachabilityResponse = {
+        origin: { lat: 34.985, lng: 135.758 },
+        budget_min: 20,
+        bands: [
+          {
+            from_min: 0,
+            to_min: 10,
+            stops: [{ name: '京都', kind: 'train_station', id: 'T:103_京都', lat: 34.985, lng: 135.758, travel_min: 0 }]
+          },
+          {
+            from_min: 10,
+            to_min: 20,
+            stops: [{ name: '烏丸御池', kind: 'train_station', id: 'T:103_烏丸御池', lat: 35.01, lng: 135.76, travel_min: 12, verified: true }]
+          }
+        ],
+        searches: 1,
+        truncated: false
+      };
+
+      expect(renderReachabilityText(reachability).split('\n')).toEqual([
+        '2 place(s) within 20 min, 1 search(es)',
+        '0-10 min: 1 place(s)',
+        '  0 min 京都 [train_station] T:103_京都',
+        '10-20 min: 1 place(s)',
+        '  12 min 烏丸御池 [train_station] T:103_烏丸御池 (verified)'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { VisitOrderService, PAIR_SEARCH_MAX_TOKENS } from '../../src/services/VisitOrderService.js';
+import { MasterDataLoader } from '../../src/services/MasterDataLoader.js';
+import { RouteSearchByNameService } from '../../src/services/RouteSearchByNameService.js';
+import { RouteSearchByNameRequest, RouteSearchResponse, VisitOrderRequest } from '../../src/types/index.js';
+import { AmbiguousStopError, StopNotFoundError } from '../../src/utils/ToolErrors.js';
+import { renderVisitOrderText } from '../../src/utils/ToolOutput.js';
+
+describe('VisitOrderService', () => {
+  let service: VisitOrderService;
+  let masterDataLoader: MasterDataLoader;
+
+  // 清水寺・高台寺は東山、仁和寺・龍安寺は北西でそれぞれ近接している
+  const KIYOMIZU = 'LM00000001';
+  const KODAIJI = 'LM00000002';
+  const RYOANJI = 'LM00000108';
+  const NINNAJI = 'LM00000109';
+  const NIJO = 'LM00002103';
+
+  const request: VisitOrderRequest = {
+    language: 'ja',
+    max_tokens: 4096,
+    start: '京都',
+    datetime: '2025-01-15T09:00',
+    landmark_ids: [RYOANJI, KIYOMIZU, NIJO, KODAIJI, NINNAJI]
+  };
+
+  beforeAll(() => {
+    masterDataLoader = new MasterDataLoader();
+  });
+
+  beforeEach(() => {
+    service = new VisitOrderService(masterDataLoader);
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  describe('travel_time: estimate', () => {
+    it('should visit nearby landmarks one after another', async () => {
+      const result = await service.optimize(request);
+
+      const ids = result.stops.map(stop => stop.id);
+      expect(ids).toHaveLength(5);
+      expect(new Set(ids)).toEqual(new Set(request.landmark_ids));
+      expect(Math.abs(ids.indexOf(KIYOMIZU) - ids.indexOf(KODAIJI))).toBe(1);
+      expect(Math.abs(ids.indexOf(RYOANJI) - ids.indexOf(NINNAJI))).toBe(1);
+      expect(result.start.name).toBe('京都');
+      expect(result.travel_time).toBe('estimate');
+      expect(result.stops.map(stop => stop.order)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should assign arrival and departure times with the stay time', async () => {
+      const result = await service.optimize({ ...request, stay_min: 60 });
+
+      const [first, second] = result.stops;
+      expect(first.arrive).toBe(`2025-01-15T09:${String(first.travel_min).padStart(2, '0')}+09:00`);
+      expect(Date.parse(first.depart) - Date.parse(first.arrive)).toBe(60 * 60000);
+      expect(Date.parse(second.arrive) - Date.parse(first.depart)).toBe(second.travel_min * 60000);
+      expect(result.total_travel_min).toBe(result.stops.reduce((total, stop) => total + stop.travel_min, 0));
+      expect(result.finish).toBe(result.stops[4].depart);
+      expect(result.return_leg).toBeUndefined();
+    });
+
+    it('should add the return leg to the start point', async () => {
+      const oneWay = await service.optimize(request);
+      const roundTrip = await service.optimize({ ...request, return_to_start: true });
+
+      expect(roundTrip.return_leg).toBeDefined();
+      expect(roundTrip.finish).toBe(roundTrip.return_leg!.arrive);
+      expect(roundTrip.total_travel_min).toBeGreaterThan(oneWay.total_travel_min);
+    });
+
+    it('should use English names and accept a landmark as the start', async () => {
+      const result = await service.optimize({
+        ...request,
+        language: 'en',
+        start: 'Nijo-jo Castle',
+        landmark_ids: [KIYOMIZU, KODAIJI]
+      });
+
+      expect(result.start.name).toBe('Nijo-jo Castle');
+      expect(result.stops.map(stop => stop.name)).toEqual(expect.arrayContaining(['Kiyomizu-dera Temple']));
+    });
+
+    it('should reject unknown landmarks and start points', async () => {
+      await expect(service.optimize({ ...request, landmark_ids: [KIYOMIZU, 'LM99999999'] }))
+        .rejects.toThrow('Stop not found: LM99999999');
+      await expect(service.optimize({ ...request, start: '存在しない駅' }))
+        .rejects.toThrow('Stop not found: 存在しない駅');
+    });
+
+    it('should keep the required fields when max_tokens leaves no room for the stops', async () => {
+      const result = await service.optimize({ ...request, max_tokens: 40 });
+
+      expect(result.truncated).toBe(true);
+      expect(result.stops.length).toBeLessThan(5);
+      expect(result).toMatchObject({ start: { name: '京都' }, travel_time: 'estimate' });
+      expect(result.total_travel_min).toBeGreaterThan(0);
+      expect(result.finish).toMatch(/^2025-01-15T/);
+      expect(renderVisitOrderText(result)).toMatch(/^Visit order from 京都: \d+ min travel \(estimate\), finish \d{2}:\d{2}/);
+    });
+
+    it('should suggest similar names for an unknown start point', async () => {
+      const error = await service.optimize({ ...request, start: '銀閣時道' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(StopNotFoundError);
+      expect(error.details.suggestions).toContainEqual(expect.objectContaining({ name: expect.stringMatching(/^銀閣寺道/) }));
+    });
+
+    it('should list the candidates when the start matches stops of several operators', async () => {
+      const error = await service.optimize({ ...request, start: '京都駅前' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(AmbiguousStopError);
+      expect(error.details.candidates).toContainEqual(expect.objectContaining({ name: '京都駅前(京都市バス)' }));
+    });
+  });
+
+  describe('travel_time: search', () => {
+    let routeSearchService: RouteSearchByNameService;
+    let searchRoute: jest.SpyInstance<Promise<RouteSearchResponse>, [RouteSearchByNameRequest]>;
+
+    const route = (duration: number): RouteSearchResponse => ({
+      routes: [{ summary: { duration_min: duration, transfers: 0 }, legs: [] }],
+      truncated: false
+    });
+
+    beforeEach(() => {
+      routeSearchService = new RouteSearchByNameService();
+      searchRoute = jest.spyOn(routeSearchService, 'searchRoute');
+      service = new VisitOrderService(masterDataLoader, routeSearchService);
+    });
+
+    afterEach(() => {
+      routeSearchService.dispose();
+    });
+
+    it('should search each pair once and order by the searched durations', async () => {
+      // 距離とは逆に、二条城へは遠回りになる所要時間を返す
+      searchRoute.mockImplementation(async ({ from_station, to_station }) => {
+        const pair = [from_station, to_station].sort().join('-');
+        const durations: Record<string, number> = {
+          '京都-二条城': 60,
+          '京都-清水寺': 20,
+          '二条城-清水寺': 15
+        };
+        return route(durations[pair]);
+      });
+
+      const result = await service.optimize({
+        ...request,
+        travel_time: 'search',
+        landmark_ids: [NIJO, KIYOMIZU]
+      });
+
+      expect(searchRoute).toHaveBeenCalledTimes(3);
+      expect(searchRoute.mock.calls[0][0]).toMatchObject({ datetime: '2025-01-15T09:00', datetime_type: 'departure' });
+      expect(result.stops.map(stop => stop.id)).toEqual([KIYOMIZU, NIJO]);
+      expect(result.total_travel_min).toBe(35);
+      expect(result.travel_time).toBe('search');
+    });
+
+    it('should apply max_tokens to the response, not to each pair search', async () => {
+      searchRoute.mockResolvedValue(route(30));
+
+      const result = await service.optimize({
+        ...request,
+        max_tokens: 40,
+        travel_time: 'search',
+        landmark_ids: [NIJO, KIYOMIZU]
+      });
+
+      expect(searchRoute.mock.calls.every(([call]) => call.max_tokens === PAIR_SEARCH_MAX_TOKENS)).toBe(true);
+      expect(result.truncated).toBe(true);
+      expect(result.total_travel_min).toBe(60);
+    });
+
+    it('should fall back to the distance estimate when a search fails', async () => {
+      searchRoute.mockImplementation(async ({ to_station }) => {
+        if (to_station === '高台寺') {
+          throw new Error('Stop not found: 清水寺 -> 高台寺');
+        }
+        return route(30);
+      });
+
+      const result = await service.optimize({
+        ...request,
+        travel_time: 'search',
+        landmark_ids: [KIYOMIZU, KODAIJI]
+      });
+
+      const estimatedStops = result.stops.filter(stop => stop.estimated);
+      expect(estimatedStops.length).toBeGreaterThan(0);
+      expect(estimatedStops.every(stop => stop.travel_min > 0)).toBe(true);
+    });
+  });
+});